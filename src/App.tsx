@@ -4,7 +4,11 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import FlightDetails from "./pages/FlightDetails";
 import NotFound from "./pages/NotFound";
+import AppStateProvider from "./components/AppStateProvider";
+import FareWatchProvider from "./components/FareWatchProvider";
+import CommandBusProvider from "./components/CommandBusProvider";
 
 const queryClient = new QueryClient();
 
@@ -13,13 +17,25 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <AppStateProvider>
+        <FareWatchProvider>
+          <CommandBusProvider>
+            <BrowserRouter>
+              <Routes>
+                <Route path="/" element={<Index />} />
+                <Route path="/search" element={<Index tab="search" />} />
+                <Route path="/map" element={<Index tab="map" />} />
+                <Route path="/weather/:station?" element={<Index tab="weather" />} />
+                <Route path="/location" element={<Index tab="location" />} />
+                <Route path="/voice" element={<Index tab="voice" />} />
+                <Route path="/flights/:id" element={<FlightDetails />} />
+                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </BrowserRouter>
+          </CommandBusProvider>
+        </FareWatchProvider>
+      </AppStateProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
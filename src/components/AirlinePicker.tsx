@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Check, ChevronsUpDown, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface AirlinePickerProps {
+  id?: string;
+  // Airlines seen in the latest results; selected ones are always listed too
+  options: string[];
+  value: string[];
+  onChange: (airlines: string[]) => void;
+  className?: string;
+}
+
+/**
+ * Multi-select for preferred airlines. Leaving it empty allows every airline;
+ * a name that hasn't shown up in results yet can still be typed in.
+ */
+const AirlinePicker: React.FC<AirlinePickerProps> = ({ id, options, value, onChange, className }) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+
+  const airlines = [...new Set([...options, ...value])].sort();
+  const normalized = query.trim().toLowerCase();
+  const visible = airlines.filter(airline => airline.toLowerCase().includes(normalized));
+  const canAdd = normalized !== '' && !airlines.some(airline => airline.toLowerCase() === normalized);
+
+  const toggle = (airline: string) => {
+    onChange(value.includes(airline) ? value.filter(a => a !== airline) : [...value, airline]);
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-between font-normal"
+          >
+            <span className={cn('truncate', value.length === 0 && 'text-muted-foreground')}>
+              {value.length === 0 ? 'Any airline' : `${value.length} airline${value.length > 1 ? 's' : ''} selected`}
+            </span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] min-w-[260px] p-0" align="start">
+          <Command shouldFilter={false}>
+            <CommandInput placeholder="Airline name..." value={query} onValueChange={setQuery} />
+            <CommandList>
+              <CommandEmpty>
+                {airlines.length === 0 ? 'Run a search to see airlines, or type a name.' : 'No matching airlines.'}
+              </CommandEmpty>
+              {visible.length > 0 && (
+                <CommandGroup>
+                  {visible.map(airline => (
+                    <CommandItem key={airline} value={airline} onSelect={() => toggle(airline)}>
+                      <Check className={cn('h-4 w-4', value.includes(airline) ? 'opacity-100' : 'opacity-0')} />
+                      {airline}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              {canAdd && (
+                <CommandGroup>
+                  <CommandItem value={`add:${query}`} onSelect={() => { toggle(query.trim()); setQuery(''); }}>
+                    Add “{query.trim()}”
+                  </CommandItem>
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(airline => (
+            <Badge key={airline} variant="secondary" className="gap-1">
+              {airline}
+              <button type="button" aria-label={`Remove ${airline}`} onClick={() => toggle(airline)}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AirlinePicker;
@@ -0,0 +1,59 @@
+import React, { useEffect, useMemo, useReducer, useRef } from 'react';
+import {
+  AppStateContext,
+  appReducer,
+  initialAppState,
+  routeEndStations
+} from '@/lib/app-state';
+import { decodeWeatherReports, getDefaultWeatherSource, type WeatherSource } from '@/lib/weather-source';
+
+interface AppStateProviderProps {
+  children: React.ReactNode;
+  weatherSource?: WeatherSource;
+}
+
+const defaultWeatherSource = getDefaultWeatherSource();
+
+// Reports younger than this are reused when a route touches the station again
+const WEATHER_MAX_AGE_MS = 10 * 60 * 1000;
+
+/**
+ * Holds the state shared across tabs (position, search, selected flight,
+ * active route, weather) and fetches weather for both ends of the route.
+ */
+const AppStateProvider: React.FC<AppStateProviderProps> = ({ children, weatherSource = defaultWeatherSource }) => {
+  const [state, dispatch] = useReducer(appReducer, initialAppState);
+  const weatherRef = useRef(state.weather);
+  weatherRef.current = state.weather;
+
+  const stationsKey = routeEndStations(state.route).join(',');
+
+  useEffect(() => {
+    if (!stationsKey) return;
+
+    // Results are keyed by station, so a response arriving after the route changed is still worth keeping
+    stationsKey.split(',').forEach(async station => {
+      const entry = weatherRef.current[station];
+      if (entry?.status === 'loading') return;
+      if (entry?.status === 'ready' && entry.updatedAt && Date.now() - entry.updatedAt < WEATHER_MAX_AGE_MS) return;
+
+      dispatch({ type: 'weather/requested', station });
+      try {
+        const reports = await weatherSource.getReports(station);
+        if (!reports) {
+          dispatch({ type: 'weather/failed', station, error: `No weather report available for ${station}` });
+        } else {
+          dispatch({ type: 'weather/loaded', station, data: decodeWeatherReports(reports) });
+        }
+      } catch (err) {
+        dispatch({ type: 'weather/failed', station, error: err instanceof Error ? err.message : 'Failed to fetch weather data' });
+      }
+    });
+  }, [stationsKey, weatherSource]);
+
+  const value = useMemo(() => ({ state, dispatch }), [state]);
+
+  return <AppStateContext.Provider value={value}>{children}</AppStateContext.Provider>;
+};
+
+export default AppStateProvider;
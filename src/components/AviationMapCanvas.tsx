@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { useLatest } from '@/hooks/use-latest';
+import { unwrapLongitudes } from '@/lib/geodesy';
+import { selectTileSource, OFFLINE_TILE_SOURCE, type TileSource } from '@/lib/map-tiles';
+import { cn } from '@/lib/utils';
+
+export interface MapAirportMarker {
+  id: string;
+  code: string;
+  name: string;
+  lat: number;
+  lng: number;
+  type: 'major' | 'regional' | 'airstrip';
+}
+
+interface AviationMapCanvasProps {
+  currentLocation?: [number, number];
+  destination?: [number, number];
+  airports: MapAirportMarker[];
+  path?: [number, number][];
+  onAirportClick?: (airportId: string) => void;
+  onTileSourceChange?: (source: TileSource) => void;
+  className?: string;
+}
+
+// Contiguous US; used until there is something more specific to frame
+const DEFAULT_VIEW: [number, number] = [39.5, -98.35];
+const DEFAULT_ZOOM = 4;
+const TILE_ERROR_FALLBACK_THRESHOLD = 6;
+
+const pointIcon = (colorClass: string, label: string) => L.divIcon({
+  className: '',
+  iconSize: [16, 16],
+  iconAnchor: [8, 8],
+  html: `<div class="relative"><div class="w-4 h-4 ${colorClass} rounded-full shadow-lg border-2 border-white"></div>` +
+    `<div class="absolute top-5 left-1/2 -translate-x-1/2 text-xs font-semibold whitespace-nowrap">${label}</div></div>`
+});
+
+const airportIcon = (airport: MapAirportMarker) => L.divIcon({
+  className: '',
+  iconSize: [24, 24],
+  iconAnchor: [12, 12],
+  html: `<div class="flex flex-col items-center text-indigo-600">` +
+    `<span class="${airport.type === 'major' ? 'text-xl' : 'text-base'} leading-none">✈</span>` +
+    `<span class="text-[10px] font-semibold font-mono bg-white/80 rounded px-1">${airport.code}</span></div>`
+});
+
+/**
+ * Leaflet map with a real (Web Mercator) projection. Markers, airports and the
+ * route are redrawn whenever their props change; pan/zoom state is preserved.
+ */
+const AviationMapCanvas: React.FC<AviationMapCanvasProps> = ({
+  currentLocation,
+  destination,
+  airports,
+  path,
+  onAirportClick,
+  onTileSourceChange,
+  className
+}) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const markersRef = useRef<L.LayerGroup | null>(null);
+  const routeRef = useRef<L.LayerGroup | null>(null);
+  const onAirportClickRef = useRef(onAirportClick);
+  const [tileSource, setTileSource] = useState<TileSource>(() => selectTileSource());
+
+  onAirportClickRef.current = onAirportClick;
+
+  // Create the map once
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const map = L.map(containerRef.current, { worldCopyJump: true }).setView(DEFAULT_VIEW, DEFAULT_ZOOM);
+    L.control.scale({ imperial: true, metric: true }).addTo(map);
+    markersRef.current = L.layerGroup().addTo(map);
+    routeRef.current = L.layerGroup().addTo(map);
+    mapRef.current = map;
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  // Follow connectivity changes between the online and local tile sources
+  useEffect(() => {
+    const update = () => setTileSource(selectTileSource());
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const layer = L.tileLayer(tileSource.url, {
+      attribution: tileSource.attribution,
+      maxZoom: tileSource.maxZoom
+    }).addTo(map);
+
+    // Repeated failures on the online source usually mean no network: fall back to local tiles
+    let errors = 0;
+    if (tileSource.id === 'online') {
+      layer.on('tileerror', () => {
+        errors += 1;
+        if (errors === TILE_ERROR_FALLBACK_THRESHOLD) setTileSource(OFFLINE_TILE_SOURCE);
+      });
+    }
+    onTileSourceChange?.(tileSource);
+
+    return () => {
+      layer.remove();
+    };
+  }, [tileSource, onTileSourceChange]);
+
+  useEffect(() => {
+    const layer = markersRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+
+    airports.forEach(airport => {
+      L.marker([airport.lat, airport.lng], { icon: airportIcon(airport), title: airport.name })
+        .on('click', () => onAirportClickRef.current?.(airport.id))
+        .addTo(layer);
+    });
+
+    if (currentLocation) {
+      L.marker(currentLocation, { icon: pointIcon('bg-blue-500 animate-pulse', 'Current Location'), zIndexOffset: 1000 })
+        .addTo(layer);
+    }
+    if (destination) {
+      L.marker(destination, { icon: pointIcon('bg-red-500', 'Destination'), zIndexOffset: 1000 })
+        .addTo(layer);
+    }
+  }, [airports, currentLocation, destination]);
+
+  useEffect(() => {
+    const layer = routeRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+
+    const points = path ?? (currentLocation && destination ? [currentLocation, destination] : []);
+    if (points.length > 1) {
+      L.polyline(unwrapLongitudes(points), { color: '#3b82f6', weight: 3, dashArray: '10,5' }).addTo(layer);
+    }
+  }, [path, currentLocation, destination]);
+
+  // Frame the route when there is one, otherwise all airports. Later fixes only move the
+  // position marker, so tracking doesn't undo the user's pan and zoom; the first fix re-frames
+  const currentLocationRef = useLatest(currentLocation);
+  const hasFix = currentLocation !== undefined;
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    const fix = currentLocationRef.current;
+    const focus: [number, number][] = [
+      ...(path ? unwrapLongitudes(path) : []),
+      ...(fix ? [fix] : []),
+      ...(destination ? [destination] : [])
+    ];
+    const points = focus.length > 0 ? focus : airports.map(a => [a.lat, a.lng] as [number, number]);
+    if (points.length === 1) {
+      map.setView(points[0], 8);
+    } else if (points.length > 1) {
+      map.fitBounds(L.latLngBounds(points), { padding: [40, 40] });
+    }
+  }, [path, destination, airports, hasFix, currentLocationRef]);
+
+  return <div ref={containerRef} className={cn('w-full h-full', className)} />;
+};
+
+export default AviationMapCanvas;
@@ -0,0 +1,15 @@
+import React, { useState } from 'react';
+import { CommandBusContext, createCommandBus, type CommandBus } from '@/lib/command-bus';
+
+interface CommandBusProviderProps {
+  children: React.ReactNode;
+  bus?: CommandBus;
+}
+
+// One bus for the app, so the voice assistant can reach whichever tab owns a command
+const CommandBusProvider: React.FC<CommandBusProviderProps> = ({ children, bus }) => {
+  const [defaultBus] = useState(createCommandBus);
+  return <CommandBusContext.Provider value={bus ?? defaultBus}>{children}</CommandBusContext.Provider>;
+};
+
+export default CommandBusProvider;
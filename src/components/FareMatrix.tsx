@@ -0,0 +1,99 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CalendarDays, Loader2 } from 'lucide-react';
+import type { FareCell, FareMatrix as FareMatrixData } from '@/lib/fare-matrix';
+import { cn } from '@/lib/utils';
+
+interface FareMatrixProps {
+  matrix: FareMatrixData | undefined;
+  // A re-centred grid is loading; the current one stays up, dimmed
+  isFetching?: boolean;
+  // Dates of the detailed search currently shown below the grid
+  selectedDeparture: string;
+  selectedReturn?: string;
+  onSelect: (departureDate: string, returnDate?: string) => void;
+}
+
+const formatDay = (date: string) => format(parseISO(date), 'EEE d MMM');
+
+/**
+ * Cheapest fare for each departure (rows) and return (columns) date in the
+ * flexible window; a one-way search gets a single strip. Picking a cell runs
+ * the full search for those dates.
+ */
+const FareMatrix: React.FC<FareMatrixProps> = ({
+  matrix,
+  isFetching = false,
+  selectedDeparture,
+  selectedReturn,
+  onSelect
+}) => {
+  const roundTrip = (matrix?.returnDates.length ?? 0) > 0;
+
+  const isCheapest = (cell: FareCell) =>
+    matrix?.cheapest?.departureDate === cell.departureDate && matrix?.cheapest?.returnDate === cell.returnDate;
+  const isSelected = (cell: FareCell) =>
+    cell.departureDate === selectedDeparture && (!roundTrip || cell.returnDate === selectedReturn);
+
+  const renderCell = (cell: FareCell, label?: string) => (
+    <button
+      key={`${cell.departureDate}|${cell.returnDate ?? ''}`}
+      type="button"
+      disabled={cell.price === null}
+      onClick={() => onSelect(cell.departureDate, cell.returnDate)}
+      aria-label={`${formatDay(cell.departureDate)}${cell.returnDate ? ` to ${formatDay(cell.returnDate)}` : ''}: ${cell.price === null ? 'no fares' : `$${cell.price}`}`}
+      className={cn(
+        'rounded-md border px-2 py-2 text-sm transition-colors hover:bg-accent disabled:cursor-not-allowed disabled:opacity-40',
+        isCheapest(cell) && 'border-green-600 bg-green-50 font-semibold text-green-700 dark:bg-green-950 dark:text-green-300',
+        isSelected(cell) && 'ring-2 ring-primary'
+      )}
+    >
+      {label && <span className="block text-xs text-muted-foreground">{label}</span>}
+      {cell.price === null ? '—' : `$${cell.price}`}
+    </button>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5 text-primary" />
+          Flexible Dates
+        </CardTitle>
+        <CardDescription>
+          {roundTrip ? 'Cheapest round trip by departure (rows) and return (columns) date.' : 'Cheapest fare by departure date.'}
+          {matrix?.cheapest?.price != null && ` Lowest: $${matrix.cheapest.price}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!matrix ? (
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            <Loader2 className="h-4 w-4 animate-spin" /> Checking nearby dates...
+          </p>
+        ) : roundTrip ? (
+          <div className={cn('overflow-x-auto transition-opacity', isFetching && 'opacity-60')}>
+            <div className="grid grid-cols-[auto_repeat(7,minmax(4.5rem,1fr))] gap-1 min-w-[36rem]">
+              <span />
+              {matrix.returnDates.map(date => (
+                <span key={date} className="text-xs text-center text-muted-foreground">{formatDay(date)}</span>
+              ))}
+              {matrix.rows.map((row, i) => (
+                <React.Fragment key={matrix.departureDates[i]}>
+                  <span className="text-xs text-muted-foreground self-center pr-2">{formatDay(matrix.departureDates[i])}</span>
+                  {row.map(cell => renderCell(cell))}
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className={cn('grid grid-cols-7 gap-1 transition-opacity', isFetching && 'opacity-60')}>
+            {matrix.rows.map(([cell]) => renderCell(cell, formatDay(cell.departureDate)))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FareMatrix;
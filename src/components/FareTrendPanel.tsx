@@ -0,0 +1,109 @@
+import React from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Minus, TrendingDown, TrendingUp } from 'lucide-react';
+import type { FareTrend } from '@/lib/fare-history';
+import type { SearchCriteria } from '@/lib/flight-search';
+import { legLabel } from '@/lib/itineraries';
+
+interface FareTrendPanelProps {
+  trends: FareTrend[];
+  tripType: SearchCriteria['tripType'];
+}
+
+const LINE_COLORS = ['hsl(var(--primary))', 'hsl(262 83% 58%)', 'hsl(142 71% 35%)', 'hsl(25 95% 53%)', 'hsl(199 89% 48%)'];
+
+const DIRECTION_TEXT: Record<FareTrend['forecast']['direction'], string> = {
+  rise: 'Likely to rise',
+  fall: 'Likely to fall',
+  stable: 'Holding steady',
+  unknown: 'No forecast yet'
+};
+
+const DirectionIcon: React.FC<{ direction: FareTrend['forecast']['direction'] }> = ({ direction }) => {
+  if (direction === 'rise') return <TrendingUp className="h-4 w-4 text-destructive" />;
+  if (direction === 'fall') return <TrendingDown className="h-4 w-4 text-green-600" />;
+  return <Minus className="h-4 w-4 text-muted-foreground" />;
+};
+
+/**
+ * Daily lowest fares logged for each leg of the search, one line per leg, with
+ * a rise/fall outlook until departure underneath.
+ */
+const FareTrendPanel: React.FC<FareTrendPanelProps> = ({ trends, tripType }) => {
+  const legKey = (index: number) => `leg${index}`;
+  const chartConfig: ChartConfig = Object.fromEntries(trends.map((trend, index) => [
+    legKey(index),
+    { label: `${legLabel(tripType, index)} ${trend.leg.origin}→${trend.leg.destination}`, color: LINE_COLORS[index % LINE_COLORS.length] }
+  ]));
+
+  // One row per observed day with a column per leg
+  const days = [...new Set(trends.flatMap(trend => trend.daily.map(entry => entry.day)))].sort();
+  const data = days.map(day => Object.fromEntries([
+    ['day', day],
+    ...trends.map((trend, index) => [legKey(index), trend.daily.find(entry => entry.day === day)?.lowestPrice ?? null])
+  ]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Fare Trend</CardTitle>
+        <CardDescription>Lowest fare seen each day you've searched these dates, with where it's likely heading.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {days.length < 2 ? (
+          <p className="text-sm text-muted-foreground">
+            {days.length === 0 ? 'No fares logged for these dates yet.' : `Logged on ${format(parseISO(days[0]), 'd MMM')} only; the chart fills in as you search on other days.`}
+          </p>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+            <LineChart data={data} margin={{ left: 4, right: 12, top: 8, bottom: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickFormatter={(day: string) => format(parseISO(day), 'd MMM')} tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis width={48} tickFormatter={(value: number) => `$${value}`} tickLine={false} axisLine={false} domain={['auto', 'auto']} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(day: string) => format(parseISO(day), 'EEE d MMM')} />} />
+              {trends.length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+              {trends.map((_, index) => (
+                <Line
+                  key={legKey(index)}
+                  dataKey={legKey(index)}
+                  type="monotone"
+                  stroke={`var(--color-${legKey(index)})`}
+                  strokeWidth={2}
+                  connectNulls
+                  dot={{ r: 2 }}
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        )}
+
+        <div className="space-y-3">
+          {trends.map((trend, index) => (
+            <div key={legKey(index)} className="flex items-start gap-3">
+              <DirectionIcon direction={trend.forecast.direction} />
+              <div className="space-y-1">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-medium">{chartConfig[legKey(index)].label}</span>
+                  <span>{DIRECTION_TEXT[trend.forecast.direction]}</span>
+                  {trend.forecast.direction !== 'unknown' && (
+                    <Badge variant="outline">{trend.forecast.confidence} confidence</Badge>
+                  )}
+                  {trend.forecast.daysToDeparture > 0 && (
+                    <span className="text-muted-foreground">· {trend.forecast.daysToDeparture} days to departure</span>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">{trend.forecast.reason}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FareTrendPanel;
@@ -0,0 +1,128 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Bell, Loader2, RefreshCw, Search, Trash2 } from 'lucide-react';
+import { useFareWatches } from '@/hooks/use-fare-watch';
+import { describeWatchedSearch, FARE_WATCH_INTERVALS, isFareWatchExpired, type FareWatch } from '@/lib/fare-watch';
+import { serializeSearchCriteria } from '@/lib/search-params';
+
+const chartConfig = {
+  lowestPrice: { label: 'Lowest fare', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+const intervalLabel = (minutes: number) =>
+  FARE_WATCH_INTERVALS.find(option => option.minutes === minutes)?.label ?? `Every ${minutes} min`;
+
+const latestPrice = (watch: FareWatch) =>
+  [...watch.history].reverse().find(point => point.lowestPrice !== null)?.lowestPrice ?? null;
+
+const FarePriceChart: React.FC<{ watch: FareWatch }> = ({ watch }) => {
+  const points = watch.history.filter(point => point.lowestPrice !== null);
+  if (points.length < 2) {
+    return <p className="text-sm text-muted-foreground">The price history chart appears after the second check.</p>;
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="h-40 w-full aspect-auto">
+      <LineChart data={points} margin={{ left: 4, right: 12, top: 8, bottom: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="checkedAt"
+          type="number"
+          scale="time"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={(value: number) => format(value, 'd MMM HH:mm')}
+          tickLine={false}
+          axisLine={false}
+          minTickGap={32}
+        />
+        <YAxis
+          width={48}
+          tickFormatter={(value: number) => `$${value}`}
+          tickLine={false}
+          axisLine={false}
+          domain={['auto', 'auto']}
+        />
+        <ChartTooltip
+          content={<ChartTooltipContent labelFormatter={(_, payload) =>
+            payload?.[0] ? format(payload[0].payload.checkedAt, 'EEE d MMM HH:mm') : ''} />}
+        />
+        {watch.targetPrice !== null && (
+          <ReferenceLine y={watch.targetPrice} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+        )}
+        <Line dataKey="lowestPrice" type="stepAfter" stroke="var(--color-lowestPrice)" strokeWidth={2} dot={false} />
+      </LineChart>
+    </ChartContainer>
+  );
+};
+
+// Saved fare watches with their thresholds, latest fare and price history
+const FareWatchPanel: React.FC = () => {
+  const { watches, checking, removeWatch, checkNow } = useFareWatches();
+  if (watches.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          Fare Watches
+        </CardTitle>
+        <CardDescription>Re-checked on schedule while the app is open; alerts appear as notifications.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {watches.map(watch => {
+          const price = latestPrice(watch);
+          const isChecking = checking.includes(watch.id);
+          const ended = isFareWatchExpired(watch);
+          return (
+            <div key={watch.id} className="space-y-3 border-b pb-6 last:border-b-0 last:pb-0">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <p className="font-semibold">{describeWatchedSearch(watch.criteria)}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {ended ? 'Ended, the flight has departed' : intervalLabel(watch.intervalMinutes)}
+                    {watch.lastCheckedAt !== null && ` · checked ${formatDistanceToNow(watch.lastCheckedAt, { addSuffix: true })}`}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-xl font-bold text-primary">{price !== null ? `$${price}` : '—'}</p>
+                  <p className="text-xs text-muted-foreground">lowest fare</p>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {ended && <Badge variant="secondary">Ended</Badge>}
+                {watch.targetPrice !== null && <Badge variant="outline">Target ≤ ${watch.targetPrice}</Badge>}
+                {watch.dropPercent !== null && <Badge variant="outline">Drop ≥ {watch.dropPercent}%</Badge>}
+                {watch.belowTarget && <Badge>Under target</Badge>}
+                {watch.lastError && <Badge variant="destructive">Last check failed: {watch.lastError}</Badge>}
+              </div>
+              <FarePriceChart watch={watch} />
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" asChild>
+                  <Link to={`/search?${serializeSearchCriteria(watch.criteria)}`}>
+                    <Search className="h-4 w-4 mr-2" /> Open search
+                  </Link>
+                </Button>
+                <Button variant="outline" size="sm" disabled={isChecking || ended} onClick={() => checkNow(watch.id)}>
+                  {isChecking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                  Check now
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => removeWatch(watch.id)}>
+                  <Trash2 className="h-4 w-4 mr-2" /> Stop watching
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FareWatchPanel;
@@ -0,0 +1,109 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { withFareHistory } from '@/lib/fare-history';
+import { getDefaultFlightSearchProvider, type FlightSearchProvider, type SearchCriteria } from '@/lib/flight-search';
+import {
+  checkFareWatch,
+  createFareWatch,
+  createLocalFareWatchStore,
+  describeWatchedSearch,
+  FareWatchContext,
+  isFareWatchDue,
+  isFareWatchExpired,
+  type FareWatchContextValue,
+  type FareAlert,
+  type FareWatch,
+  type FareWatchSettings,
+  type FareWatchStore
+} from '@/lib/fare-watch';
+
+interface FareWatchProviderProps {
+  children: React.ReactNode;
+  provider?: FlightSearchProvider;
+  store?: FareWatchStore;
+}
+
+const defaultProvider = withFareHistory(getDefaultFlightSearchProvider());
+const defaultStore = createLocalFareWatchStore();
+
+// How often due watches are looked for; each watch has its own, longer interval
+const SCHEDULER_TICK_MS = 60 * 1000;
+
+const alertMessage = (alert: FareAlert): string => alert.kind === 'target'
+  ? `Lowest fare is $${alert.price}, at or under your $${alert.threshold} target.`
+  : `Lowest fare fell to $${alert.price}, down ${Math.round((1 - alert.price / alert.threshold) * 100)}% from $${alert.threshold}.`;
+
+/**
+ * Owns the saved fare watches: loads and persists them, re-checks the due
+ * ones while the app is open (and straight away when the tab becomes visible
+ * again), and raises a toast for every alert. Watches whose flight has left
+ * are kept until removed but never checked again.
+ */
+const FareWatchProvider: React.FC<FareWatchProviderProps> = ({ children, provider = defaultProvider, store = defaultStore }) => {
+  const [watches, setWatches] = useState<FareWatch[]>(() => store.load());
+  const [checking, setChecking] = useState<string[]>([]);
+  const watchesRef = useRef(watches);
+  watchesRef.current = watches;
+  const inFlight = useRef(new Set<string>());
+
+  useEffect(() => store.save(watches), [store, watches]);
+
+  const runCheck = useCallback(async (id: string) => {
+    const watch = watchesRef.current.find(entry => entry.id === id);
+    if (!watch || isFareWatchExpired(watch) || inFlight.current.has(id)) return;
+    inFlight.current.add(id);
+    setChecking(ids => [...ids, id]);
+
+    const { watch: checked, alerts } = await checkFareWatch(provider, watch);
+    inFlight.current.delete(id);
+    setChecking(ids => ids.filter(entry => entry !== id));
+    // The watch may have been edited or removed while the search ran; keep the edits, drop removed ones
+    setWatches(current => current.map(entry => entry.id === id
+      ? { ...checked, intervalMinutes: entry.intervalMinutes, targetPrice: entry.targetPrice, dropPercent: entry.dropPercent }
+      : entry));
+
+    alerts.forEach(alert => toast({
+      title: `Fare alert: ${describeWatchedSearch(watch.criteria)}`,
+      description: alertMessage(alert)
+    }));
+  }, [provider]);
+
+  useEffect(() => {
+    const checkDue = () => watchesRef.current.filter(watch => isFareWatchDue(watch)).forEach(watch => runCheck(watch.id));
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') checkDue();
+    };
+
+    checkDue();
+    const timer = window.setInterval(checkDue, SCHEDULER_TICK_MS);
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener('visibilitychange', onVisible);
+    };
+  }, [runCheck]);
+
+  const value = useMemo<FareWatchContextValue>(() => ({
+    watches,
+    checking,
+    addWatch: (criteria: SearchCriteria, settings: FareWatchSettings) => {
+      const watch = createFareWatch(criteria, settings);
+      watchesRef.current = [...watchesRef.current, watch];
+      setWatches(current => [...current, watch]);
+      // The first check sets the baseline, so run it now rather than on the next tick
+      runCheck(watch.id);
+      return watch;
+    },
+    // A new target re-arms its alert, so a fare already under it is reported on the next check
+    updateWatch: (id: string, settings: Partial<FareWatchSettings>) =>
+      setWatches(current => current.map(watch => watch.id === id
+        ? { ...watch, ...settings, belowTarget: 'targetPrice' in settings ? false : watch.belowTarget }
+        : watch)),
+    removeWatch: (id: string) => setWatches(current => current.filter(watch => watch.id !== id)),
+    checkNow: (id: string) => { runCheck(id); }
+  }), [watches, checking, runCheck]);
+
+  return <FareWatchContext.Provider value={value}>{children}</FareWatchContext.Provider>;
+};
+
+export default FareWatchProvider;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { X } from 'lucide-react';
+import { compareItineraries } from '@/lib/comparison';
+import type { Itinerary } from '@/lib/itineraries';
+import { itineraryAirlineLabel } from '@/lib/result-order';
+import { cn } from '@/lib/utils';
+
+interface FlightComparisonProps {
+  itineraries: Itinerary[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRemove: (itinerary: Itinerary) => void;
+}
+
+// Marked results side by side, one column each, with the best value in every row highlighted
+const FlightComparison: React.FC<FlightComparisonProps> = ({ itineraries, open, onOpenChange, onRemove }) => {
+  const rows = compareItineraries(itineraries);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare flights</DialogTitle>
+          <DialogDescription>Best value in each row is highlighted. Score points come from the same search, so they compare directly.</DialogDescription>
+        </DialogHeader>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-36" />
+              {itineraries.map(itinerary => (
+                <TableHead key={itinerary.id} className="align-top py-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-semibold text-foreground">{itineraryAirlineLabel(itinerary)}</p>
+                      <p className="font-mono text-xs">{itinerary.legs.map(leg => leg.flight).join(' / ')}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 shrink-0"
+                      aria-label={`Remove ${itineraryAirlineLabel(itinerary)} from comparison`}
+                      onClick={() => onRemove(itinerary)}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.key}>
+                <TableCell className="font-medium text-muted-foreground">{row.label}</TableCell>
+                {row.cells.map((cell, index) => (
+                  <TableCell
+                    key={itineraries[index].id}
+                    className={cn(cell.best && 'bg-green-50 font-semibold text-green-700 dark:bg-green-950 dark:text-green-300')}
+                  >
+                    {cell.display}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FlightComparison;
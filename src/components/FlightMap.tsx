@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -19,16 +19,23 @@ import {
   Radio
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-
-interface Airport {
-  id: string;
-  name: string;
-  code: string;
-  lat: number;
-  lng: number;
-  type: 'major' | 'regional' | 'airstrip';
-  facilities: string[];
-}
+import AviationMapCanvas from '@/components/AviationMapCanvas';
+import type { TileSource } from '@/lib/map-tiles';
+import {
+  formatCoordinates,
+  formatDistance,
+  greatCircleWaypoints,
+  haversineDistance,
+  initialBearing,
+  type DistanceUnit
+} from '@/lib/geodesy';
+import {
+  estimateFlightTime,
+  formatFlightTime,
+  type FlightTimeEstimate,
+  type WindVector
+} from '@/lib/route-planning';
+import { getAirportRepository, toAirport, type Airport } from '@/lib/airports';
 
 interface FlightPath {
   id: string;
@@ -36,7 +43,9 @@ interface FlightPath {
   destination: [number, number];
   waypoints: [number, number][];
   distance: number;
+  initialCourse: number;
   estimatedTime: string;
+  timeEstimate: FlightTimeEstimate;
   difficulty: 'easy' | 'moderate' | 'challenging';
   weather: 'clear' | 'cloudy' | 'stormy';
 }
@@ -44,7 +53,13 @@ interface FlightPath {
 interface FlightMapProps {
   currentLocation?: [number, number];
   destination?: [number, number];
+  // Origin, connections and destination of a selected itinerary; planned as soon as it changes
+  route?: [number, number][];
   showWeather?: boolean;
+  // Calm when null or left out
+  wind?: WindVector | null;
+  waypointCount?: number;
+  distanceUnit?: DistanceUnit;
   onAirportSelect?: (airport: Airport) => void;
   onRouteCalculated?: (route: FlightPath) => void;
 }
@@ -52,86 +67,89 @@ interface FlightMapProps {
 const FlightMap: React.FC<FlightMapProps> = ({
   currentLocation,
   destination,
+  route,
   showWeather = true,
+  wind,
+  waypointCount,
+  distanceUnit = 'km',
   onAirportSelect,
   onRouteCalculated
 }) => {
   const { toast } = useToast();
-  const [airports] = useState<Airport[]>([
-    {
-      id: '1',
-      name: 'John F. Kennedy International Airport',
-      code: 'JFK',
-      lat: 40.6413,
-      lng: -73.7781,
-      type: 'major',
-      facilities: ['Control Tower', 'Radar', 'ILS', 'Emergency Services']
-    },
-    {
-      id: '2',
-      name: 'Los Angeles International Airport',
-      code: 'LAX',
-      lat: 34.0522,
-      lng: -118.2437,
-      type: 'major',
-      facilities: ['Control Tower', 'Radar', 'ILS', 'Emergency Services', 'Weather Station']
-    },
-    {
-      id: '3',
-      name: 'Chicago O\'Hare International Airport',
-      code: 'ORD',
-      lat: 41.9742,
-      lng: -87.9073,
-      type: 'major',
-      facilities: ['Control Tower', 'Radar', 'ILS', 'Emergency Services']
-    }
-  ]);
+  // Airfields with scheduled or regional traffic; small strips would clutter the overview
+  const airports = useMemo<Airport[]>(() => getAirportRepository().all()
+    .filter(airport => airport.kind === 'large_airport' || airport.kind === 'medium_airport')
+    .map(toAirport), []);
 
   const [selectedAirport, setSelectedAirport] = useState<Airport | null>(null);
   const [routeInfo, setRouteInfo] = useState<FlightPath | null>(null);
+  const [tileSource, setTileSource] = useState<TileSource | null>(null);
+
+  // Stable reference so the map only re-frames when the route actually changes
+  const routeTrack = useMemo<[number, number][] | undefined>(
+    () => routeInfo ? [routeInfo.origin, ...routeInfo.waypoints, routeInfo.destination] : undefined,
+    [routeInfo]
+  );
+
+  const handleAirportClick = useCallback((airportId: string) => {
+    const airport = airports.find(a => a.id === airportId);
+    if (!airport) return;
+    setSelectedAirport(airport);
+    onAirportSelect?.(airport);
+  }, [airports, onAirportSelect]);
+
+  // Great-circle legs between consecutive points, roughly one waypoint per 100 km unless the caller asks for a fixed count
+  const planRoute = useCallback((points: [number, number][]): FlightPath => {
+    const legs = points.slice(1).map((to, i) => {
+      const from = points[i];
+      const legDistance = haversineDistance(from, to);
+      const count = waypointCount ?? Math.min(64, Math.max(8, Math.round(legDistance / 100)));
+      return { distance: legDistance, waypoints: greatCircleWaypoints(from, to, count) };
+    });
+    const origin = points[0];
+    const end = points[points.length - 1];
+    const waypoints = legs.flatMap((leg, i) => i === 0 ? leg.waypoints : [points[i], ...leg.waypoints]);
+    const distance = legs.reduce((sum, leg) => sum + leg.distance, 0);
+    const timeEstimate = estimateFlightTime([origin, ...waypoints, end], wind ?? null);
+
+    return {
+      id: `route-${points.map(p => p.join(',')).join('|')}`,
+      origin,
+      destination: end,
+      waypoints,
+      distance,
+      initialCourse: initialBearing(origin, points[1]),
+      estimatedTime: formatFlightTime(timeEstimate.totalMinutes),
+      timeEstimate,
+      difficulty: distance > 1000 ? 'challenging' : distance > 500 ? 'moderate' : 'easy',
+      weather: 'clear'
+    };
+  }, [waypointCount, wind]);
+
+  // Only a new itinerary should trigger re-planning, not a new callback identity
+  const onRouteCalculatedRef = useRef(onRouteCalculated);
+  onRouteCalculatedRef.current = onRouteCalculated;
+
+  useEffect(() => {
+    if (!route || route.length < 2) return;
+    const planned = planRoute(route);
+    setRouteInfo(planned);
+    onRouteCalculatedRef.current?.(planned);
+  }, [route, planRoute]);
 
   const calculateRoute = () => {
     if (currentLocation && destination) {
-      const distance = calculateDistance(currentLocation, destination);
-      const route: FlightPath = {
-        id: 'route-1',
-        origin: currentLocation,
-        destination: destination,
-        waypoints: [
-          [currentLocation[0] + 0.5, currentLocation[1] - 0.5],
-          [destination[0] - 0.5, destination[1] + 0.5]
-        ],
-        distance,
-        estimatedTime: Math.round(distance / 800 * 60) + 'm', // Rough calculation
-        difficulty: distance > 1000 ? 'challenging' : distance > 500 ? 'moderate' : 'easy',
-        weather: 'clear'
-      };
-      
-      setRouteInfo(route);
-      onRouteCalculated?.(route);
+      const planned = planRoute([currentLocation, destination]);
+      setRouteInfo(planned);
+      onRouteCalculated?.(planned);
       
       toast({
         title: "Route Calculated",
-        description: `${distance.toFixed(0)} km route planned successfully`
+        description: `${formatDistance(planned.distance, distanceUnit, 0)} great-circle route planned successfully`
       });
     }
   };
 
-  const calculateDistance = (point1: [number, number], point2: [number, number]): number => {
-    const R = 6371; // Earth's radius in km
-    const dLat = (point2[0] - point1[0]) * Math.PI / 180;
-    const dLon = (point2[1] - point1[1]) * Math.PI / 180;
-    const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-              Math.cos(point1[0] * Math.PI / 180) * Math.cos(point2[0] * Math.PI / 180) *
-              Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
-  };
-
-  const formatCoordinates = (coords: [number, number]) => {
-    return `${coords[0].toFixed(4)}°, ${coords[1].toFixed(4)}°`;
-  };
-
   return (
     <div className="space-y-6">
       {/* Map Visualization */}
@@ -146,114 +164,47 @@ const FlightMap: React.FC<FlightMapProps> = ({
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="relative w-full h-[500px] bg-gradient-to-br from-blue-50 to-sky-100 dark:from-blue-950 dark:to-sky-950 rounded-lg overflow-hidden border-2 border-blue-200 dark:border-blue-800">
+          <div className="relative isolate w-full h-[500px] bg-gradient-to-br from-blue-50 to-sky-100 dark:from-blue-950 dark:to-sky-950 rounded-lg overflow-hidden border-2 border-blue-200 dark:border-blue-800">
             
-            {/* Map Grid */}
-            <div className="absolute inset-0 opacity-20">
-              <svg className="w-full h-full">
-                <defs>
-                  <pattern id="grid" width="50" height="50" patternUnits="userSpaceOnUse">
-                    <path d="M 50 0 L 0 0 0 50" fill="none" stroke="currentColor" strokeWidth="1"/>
-                  </pattern>
-                </defs>
-                <rect width="100%" height="100%" fill="url(#grid)" />
-              </svg>
-            </div>
+            <AviationMapCanvas
+              className="absolute inset-0 z-0"
+              currentLocation={currentLocation}
+              destination={destination}
+              airports={airports}
+              path={routeTrack}
+              onAirportClick={handleAirportClick}
+              onTileSourceChange={setTileSource}
+            />
 
             {/* Radar Sweep Animation */}
-            <div className="absolute top-4 right-4 w-16 h-16 border-2 border-green-400 rounded-full flex items-center justify-center bg-green-50 dark:bg-green-950">
+            <div className="absolute top-4 right-4 z-[1000] w-16 h-16 border-2 border-green-400 rounded-full flex items-center justify-center bg-green-50 dark:bg-green-950 pointer-events-none">
               <div className="w-8 h-8 relative">
                 <div className="absolute inset-0 border-2 border-green-500 rounded-full radar-sweep opacity-60"></div>
                 <Radar className="h-6 w-6 text-green-600 absolute top-1 left-1" />
               </div>
             </div>
 
-            {/* Current Location */}
-            {currentLocation && (
-              <div className="absolute animate-pulse" style={{
-                top: '40%',
-                left: '30%',
-                transform: 'translate(-50%, -50%)'
-              }}>
-                <div className="w-4 h-4 bg-blue-500 rounded-full shadow-lg pulse-glow"></div>
-                <div className="absolute -bottom-6 left-1/2 transform -translate-x-1/2 text-xs font-semibold text-blue-600 whitespace-nowrap">
-                  Current Location
-                </div>
-              </div>
-            )}
-
-            {/* Destination */}
-            {destination && (
-              <div className="absolute" style={{
-                top: '30%',
-                left: '70%',
-                transform: 'translate(-50%, -50%)'
-              }}>
-                <div className="w-4 h-4 bg-red-500 rounded-full shadow-lg"></div>
-                <div className="absolute -bottom-6 left-1/2 transform -translate-x-1/2 text-xs font-semibold text-red-600 whitespace-nowrap">
-                  Destination
-                </div>
-              </div>
-            )}
-
-            {/* Airports */}
-            {airports.slice(0, 3).map((airport, index) => (
-              <div 
-                key={airport.id}
-                className="absolute cursor-pointer group"
-                style={{
-                  top: `${20 + index * 25}%`,
-                  left: `${20 + index * 30}%`,
-                  transform: 'translate(-50%, -50%)'
-                }}
-                onClick={() => {
-                  setSelectedAirport(airport);
-                  onAirportSelect?.(airport);
-                }}
-              >
-                <div className="relative">
-                  <Plane className="h-6 w-6 text-indigo-600 hover:text-indigo-800 transition-colors airplane-float" />
-                  <div className="absolute -bottom-8 left-1/2 transform -translate-x-1/2 text-xs font-medium text-indigo-600 whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity">
-                    {airport.code}
-                  </div>
-                </div>
-              </div>
-            ))}
-
-            {/* Flight Path */}
-            {currentLocation && destination && (
-              <svg className="absolute inset-0 w-full h-full pointer-events-none">
-                <path
-                  d={`M ${30}% ${40}% Q ${50}% ${20}% ${70}% ${30}%`}
-                  stroke="#3b82f6"
-                  strokeWidth="3"
-                  fill="none"
-                  strokeDasharray="10,5"
-                  className="animate-pulse"
-                />
-                <circle cx="30%" cy="40%" r="3" fill="#3b82f6" />
-                <circle cx="70%" cy="30%" r="3" fill="#ef4444" />
-              </svg>
-            )}
-
             {/* Weather Indicators */}
             {showWeather && (
-              <div className="absolute top-4 left-4 space-y-2">
+              <div className="absolute top-4 left-14 z-[1000] space-y-2">
                 <Badge variant="outline" className="bg-white/80 dark:bg-gray-800/80">
                   🌤️ Clear Skies
                 </Badge>
                 <Badge variant="outline" className="bg-white/80 dark:bg-gray-800/80">
-                  🌬️ Wind: 15 kt
+                  🌬️ Wind: {wind ? `${wind.direction.toString().padStart(3, '0')}° / ${wind.speedKt} kt` : 'calm'}
                 </Badge>
               </div>
             )}
 
             {/* Map Controls */}
-            <div className="absolute bottom-4 left-4 space-x-2">
+            <div className="absolute bottom-8 left-4 z-[1000] space-x-2">
               <Button size="sm" variant="outline" onClick={calculateRoute}>
                 <Route className="h-4 w-4 mr-2" />
                 Calculate Route
               </Button>
+              {tileSource?.id === 'offline' && (
+                <Badge variant="secondary">Offline tiles</Badge>
+              )}
             </div>
           </div>
         </CardContent>
@@ -271,12 +222,21 @@ const FlightMap: React.FC<FlightMapProps> = ({
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="text-center">
-                <p className="text-2xl font-bold text-primary">{routeInfo.distance.toFixed(0)} km</p>
+                <p className="text-2xl font-bold text-primary">{formatDistance(routeInfo.distance, distanceUnit, 0)}</p>
                 <p className="text-sm text-muted-foreground">Total Distance</p>
               </div>
               <div className="text-center">
                 <p className="text-2xl font-bold text-primary">{routeInfo.estimatedTime}</p>
                 <p className="text-sm text-muted-foreground">Flight Time</p>
+                <p className="text-xs text-muted-foreground">
+                  Climb {routeInfo.timeEstimate.climbMinutes}m · Cruise {routeInfo.timeEstimate.cruiseMinutes}m · Descent {routeInfo.timeEstimate.descentMinutes}m
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {routeInfo.timeEstimate.windComponentKt === 0
+                    ? 'No wind component'
+                    : `${Math.abs(routeInfo.timeEstimate.windComponentKt)} kt ${routeInfo.timeEstimate.windComponentKt > 0 ? 'tailwind' : 'headwind'}`}
+                  {' '}· Initial course {Math.round(routeInfo.initialCourse)}°
+                </p>
               </div>
               <div className="text-center">
                 <Badge variant={routeInfo.difficulty === 'easy' ? 'default' : 'secondary'} className="text-lg px-4 py-2">
@@ -323,7 +283,11 @@ const FlightMap: React.FC<FlightMapProps> = ({
               </div>
               <div className="flex items-center justify-between">
                 <span className="font-semibold">Coordinates:</span>
-                <span className="font-mono text-sm">{formatCoordinates([selectedAirport.lat, selectedAirport.lng])}</span>
+                <span className="font-mono text-sm text-right">
+                  {formatCoordinates([selectedAirport.lat, selectedAirport.lng])}
+                  <br />
+                  {formatCoordinates([selectedAirport.lat, selectedAirport.lng], 'dms')}
+                </span>
               </div>
             </div>
           </CardContent>
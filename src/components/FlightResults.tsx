@@ -0,0 +1,309 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination';
+import { ChevronDown, ChevronRight, Columns3 } from 'lucide-react';
+import FlightComparison from '@/components/FlightComparison';
+import ItineraryLeg from '@/components/ItineraryLeg';
+import ScoreBreakdown from '@/components/ScoreBreakdown';
+import { MAX_COMPARED_ITINERARIES } from '@/lib/comparison';
+import { checkItineraryConnections, worstConnectionStatus } from '@/lib/connections';
+import type { SearchCriteria } from '@/lib/flight-search';
+import { formatDuration } from '@/lib/flight-time';
+import { itineraryWeather, legLabel, type Itinerary, type ItinerarySearch } from '@/lib/itineraries';
+import {
+  averageOnTime,
+  groupItineraries,
+  itineraryAirlineLabel,
+  pageWindow,
+  paginate,
+  RESULT_GROUPINGS,
+  RESULT_SORTS,
+  sortItineraries,
+  type ResultGrouping,
+  type ResultSort
+} from '@/lib/result-order';
+import { searchCriteriaKey, serializeSearchCriteria } from '@/lib/search-params';
+
+interface FlightResultsProps {
+  search: ItinerarySearch;
+  // The criteria the results were searched with; used for leg labels and detail links
+  criteria: SearchCriteria;
+  onSelect: (itinerary: Itinerary) => void;
+}
+
+/**
+ * The itineraries of one search, sortable, optionally grouped by stops or
+ * airline, and paged. Grouping applies across the whole list, so a group can
+ * run over several pages; its heading repeats on each. Up to four results can
+ * be marked and opened side by side.
+ */
+const FlightResults: React.FC<FlightResultsProps> = ({ search, criteria, onSelect }) => {
+  const [sort, setSort] = useState<ResultSort>('score');
+  const [grouping, setGrouping] = useState<ResultGrouping>('none');
+  const [page, setPage] = useState(1);
+  // Ids of results marked for comparison, in the order they were marked
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+  const [comparing, setComparing] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // A new search starts back on the first page with nothing marked
+  const criteriaKey = searchCriteriaKey(criteria);
+  useEffect(() => {
+    setPage(1);
+    setComparedIds([]);
+  }, [criteriaKey]);
+
+  // search.itineraries is in score order, which is what "#1" always refers to
+  const ranks = useMemo(
+    () => new Map(search.itineraries.map((itinerary, index) => [itinerary.id, index + 1])),
+    [search]
+  );
+  const groups = useMemo(() => groupItineraries(sortItineraries(search.itineraries, sort), grouping), [search, grouping, sort]);
+  const current = paginate(groups.flatMap(group => group.itineraries), page);
+  const pageGroups = groupItineraries(current.items, grouping);
+  const groupSizes = new Map(groups.map(group => [group.key, group.itineraries.length]));
+  const filterOutcomes = search.outcomes.filter(outcome => outcome.removed > 0 || outcome.demoted > 0);
+  const compared = comparedIds
+    .map(id => search.itineraries.find(itinerary => itinerary.id === id))
+    .filter((itinerary): itinerary is Itinerary => !!itinerary);
+  const compareFull = compared.length >= MAX_COMPARED_ITINERARIES;
+
+  const toggleCompared = (itinerary: Itinerary, marked: boolean) => {
+    setComparedIds(ids => marked
+      ? (ids.includes(itinerary.id) || ids.length >= MAX_COMPARED_ITINERARIES ? ids : [...ids, itinerary.id])
+      : ids.filter(id => id !== itinerary.id));
+  };
+
+  const removeCompared = (itinerary: Itinerary) => {
+    toggleCompared(itinerary, false);
+    // Nothing left worth a table once fewer than two remain
+    if (compared.length <= 2) setComparing(false);
+  };
+
+  const goToPage = (target: number) => {
+    setPage(target);
+    listRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const renderResult = (result: Itinerary) => {
+    const rank = ranks.get(result.id) ?? 0;
+    const weather = itineraryWeather(result);
+    const isCompared = comparedIds.includes(result.id);
+    const connectionChecks = checkItineraryConnections(result);
+    const connectionStatus = worstConnectionStatus(connectionChecks);
+    const overnightLayovers = connectionChecks.filter(check => check.overnight).length;
+
+    return (
+      <Card key={result.id} className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => onSelect(result)}>
+        <CardContent className="pt-4">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="font-semibold text-lg">{itineraryAirlineLabel(result)}</h3>
+              <p className="text-sm text-muted-foreground font-mono">{result.legs.map(leg => leg.flight).join(' / ')}</p>
+            </div>
+            <div className="text-right">
+              <p className="text-2xl font-bold text-primary">${result.price}</p>
+              {result.legs.length > 1 && <p className="text-xs text-muted-foreground">total for {result.legs.length} flights</p>}
+              <Badge variant={result.score >= 90 ? 'default' : result.score >= 75 ? 'secondary' : 'outline'}>
+                AI Score: {result.score}
+              </Badge>
+            </div>
+          </div>
+
+          <div className="space-y-4 mb-4">
+            {result.legs.map((leg, index) => (
+              <ItineraryLeg key={`${leg.id}-${index}`} leg={leg} label={legLabel(criteria.tripType, index)} />
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2 mb-3">
+            {result.stops === 0 ? (
+              <Badge variant="default">Direct Flight{result.legs.length > 1 ? 's' : ''}</Badge>
+            ) : (
+              <Badge variant="secondary">{result.stops} Stop{result.stops > 1 ? 's' : ''}</Badge>
+            )}
+            <Badge variant="outline">Total time: {formatDuration(result.durationMinutes)}</Badge>
+            <Badge variant="outline">Safety: {Math.min(...result.legs.map(leg => leg.safetyRating))}/5</Badge>
+            <Badge variant="outline">On-time: {Math.round(averageOnTime(result))}%</Badge>
+            <Badge variant={weather === 'favorable' ? 'default' : weather === 'caution' ? 'secondary' : 'destructive'}>
+              Weather: {weather}
+            </Badge>
+            {connectionStatus === 'illegal' && <Badge variant="destructive">Connection below minimum time</Badge>}
+            {connectionStatus === 'risky' && <Badge variant="secondary">Tight connection</Badge>}
+            {overnightLayovers > 0 && (
+              <Badge variant="outline">{overnightLayovers} overnight layover{overnightLayovers > 1 ? 's' : ''}</Badge>
+            )}
+          </div>
+
+          {/* The top-ranked result opens with its breakdown so the ranking explains itself */}
+          <Collapsible defaultOpen={rank === 1} className="mb-3">
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="sm" className="px-0" onClick={(e) => e.stopPropagation()}>
+                {rank === 1 ? 'Why this ranked #1' : `Score breakdown (#${rank})`}
+                <ChevronDown className="h-4 w-4 ml-1" />
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="pt-2" onClick={(e) => e.stopPropagation()}>
+              <ScoreBreakdown breakdown={result.breakdown} score={result.score} rank={rank} />
+            </CollapsibleContent>
+          </Collapsible>
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              {result.stops > 0 && `Layovers: ${result.legs.flatMap(leg => leg.layovers).join(', ')}`}
+            </p>
+            <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+              <Checkbox
+                id={`compare-${result.id}`}
+                checked={isCompared}
+                disabled={!isCompared && compareFull}
+                onCheckedChange={(checked) => toggleCompared(result, !!checked)}
+              />
+              <Label htmlFor={`compare-${result.id}`} className="text-sm font-normal">Compare</Label>
+            </div>
+            <Button variant="link" size="sm" asChild onClick={(e) => e.stopPropagation()}>
+              <Link to={`/flights/${encodeURIComponent(result.id)}?${serializeSearchCriteria(criteria)}`}>
+                Details <ChevronRight className="h-4 w-4" />
+              </Link>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>AI-Optimized Flight Results</CardTitle>
+        <CardDescription>
+          Ranked by your preferences with real-time data analysis
+          {` · ${search.itineraries.length} of ${search.total} itineraries after filters`}
+        </CardDescription>
+        {filterOutcomes.length > 0 && (
+          <div className="flex flex-wrap gap-2 pt-2">
+            {filterOutcomes.map(outcome => (
+              <Badge key={outcome.filter} variant="outline">
+                {outcome.label}: {outcome.removed > 0 ? `${outcome.removed} removed` : `${outcome.demoted} down-ranked`}
+              </Badge>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-wrap gap-4 pt-2">
+          <div className="space-y-1">
+            <Label htmlFor="resultSort">Sort by</Label>
+            <Select value={sort} onValueChange={(value) => { setSort(value as ResultSort); setPage(1); }}>
+              <SelectTrigger id="resultSort" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RESULT_SORTS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="resultGrouping">Group by</Label>
+            <Select value={grouping} onValueChange={(value) => { setGrouping(value as ResultGrouping); setPage(1); }}>
+              <SelectTrigger id="resultGrouping" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RESULT_GROUPINGS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {compared.length > 0 && (
+          <div className="sticky top-0 z-10 mb-4 flex flex-wrap items-center justify-between gap-2 rounded-md border bg-background p-3 shadow-sm">
+            <p className="text-sm">
+              {compared.length} of {MAX_COMPARED_ITINERARIES} marked for comparison
+              {compareFull && ' · unmark one to add another'}
+            </p>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setComparedIds([])}>Clear</Button>
+              <Button size="sm" disabled={compared.length < 2} onClick={() => setComparing(true)}>
+                <Columns3 className="h-4 w-4 mr-2" />
+                Compare {compared.length}
+              </Button>
+            </div>
+          </div>
+        )}
+        <div ref={listRef} className="space-y-6 scroll-mt-4">
+          {pageGroups.map(group => (
+            <section key={group.key} className="space-y-4">
+              {grouping !== 'none' && (
+                <h3 className="text-sm font-semibold text-muted-foreground">
+                  {group.label} · {groupSizes.get(group.key)} result{groupSizes.get(group.key) === 1 ? '' : 's'}
+                </h3>
+              )}
+              {group.itineraries.map(renderResult)}
+            </section>
+          ))}
+        </div>
+
+        {current.pageCount > 1 && (
+          <Pagination className="mt-6">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  aria-disabled={current.page === 1}
+                  className={current.page === 1 ? 'pointer-events-none opacity-50' : undefined}
+                  onClick={(e) => { e.preventDefault(); goToPage(current.page - 1); }}
+                />
+              </PaginationItem>
+              {pageWindow(current.page, current.pageCount).map((n, index) => (
+                <PaginationItem key={n ?? `gap-${index}`}>
+                  {n === null ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink href="#" isActive={n === current.page} onClick={(e) => { e.preventDefault(); goToPage(n); }}>
+                      {n}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  aria-disabled={current.page === current.pageCount}
+                  className={current.page === current.pageCount ? 'pointer-events-none opacity-50' : undefined}
+                  onClick={(e) => { e.preventDefault(); goToPage(current.page + 1); }}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </CardContent>
+      <FlightComparison
+        itineraries={compared}
+        open={comparing && compared.length > 1}
+        onOpenChange={setComparing}
+        onRemove={removeCompared}
+      />
+    </Card>
+  );
+};
+
+export default FlightResults;
@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,218 +9,236 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { Slider } from '@/components/ui/slider';
 import { Separator } from '@/components/ui/separator';
-import { Search, Plane, DollarSign, Clock, Shield, Star, MapPin } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Search, Plane, DollarSign, Clock, Shield, Star, MapPin, Plus, Trash2, Filter } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-
-interface SearchCriteria {
-  origin: string;
-  destination: string;
-  departureDate: string;
-  returnDate?: string;
-  passengers: number;
-  class: 'economy' | 'business' | 'first';
-  tripType: 'oneway' | 'roundtrip';
-  priorities: {
-    cost: number;
-    time: number;
-    safety: number;
-    comfort: number;
-    layovers: number;
-  };
-  filters: {
-    maxLayovers: number;
-    maxDuration: string;
-    preferredAirlines: string[];
-    flexibleDates: boolean;
-    directFlights: boolean;
-  };
-}
-
-interface FlightResult {
-  id: string;
-  airline: string;
-  flight: string;
-  origin: string;
-  destination: string;
-  departure: string;
-  arrival: string;
-  duration: string;
-  price: number;
-  stops: number;
-  layovers: string[];
-  aircraft: string;
-  score: number;
-  safetyRating: number;
-  onTimePerformance: number;
-  route: string[];
-  weather: 'favorable' | 'caution' | 'warning';
-}
+import { useCommandHandler } from '@/hooks/use-command-bus';
+import { useLatest } from '@/hooks/use-latest';
+import { flightSearchQuery, useFareMatrix, useFareTrends, useFlightSearch } from '@/hooks/use-flight-search';
+import { DEFAULT_SEARCH_CRITERIA, type SearchCriteria, type SearchLeg } from '@/lib/flight-search';
+import { supportsFareMatrix } from '@/lib/fare-matrix';
+import { MAX_MULTI_CITY_LEGS, type Itinerary, type ItinerarySearch } from '@/lib/itineraries';
+import { formatLocalTime } from '@/lib/flight-time';
+import { resolvePlace, type Place } from '@/lib/places';
+import { searchCriteriaKey } from '@/lib/search-params';
+import PlaceCombobox from '@/components/PlaceCombobox';
+import FareMatrix from '@/components/FareMatrix';
+import FareTrendPanel from '@/components/FareTrendPanel';
+import AirlinePicker from '@/components/AirlinePicker';
+import FlightResults from '@/components/FlightResults';
+import WatchSearchDialog from '@/components/WatchSearchDialog';
 
 interface FlightSearchFormProps {
+  // A submitted search restored from outside (e.g. the URL); seeds the form and runs it
+  criteria?: SearchCriteria | null;
   onSearch?: (criteria: SearchCriteria) => void;
-  onResultSelect?: (result: FlightResult) => void;
+  onResultSelect?: (itinerary: Itinerary) => void;
   isSearching?: boolean;
 }
 
+// What a search sent from elsewhere (the voice assistant) found, as one or two sentences
+const describeSearchOutcome = (criteria: SearchCriteria, { itineraries }: ItinerarySearch): string => {
+  const route = `from ${criteria.origin} to ${criteria.destination}`;
+  if (itineraries.length === 0) return `No flights found ${route}. Try other dates or fewer filters.`;
+  const [best] = itineraries;
+  const cheapest = Math.min(...itineraries.map(itinerary => itinerary.price));
+  const flights = best.legs.map(leg => `${leg.airline} ${leg.flight}`).join(' then ');
+  return `Found ${itineraries.length} option${itineraries.length === 1 ? '' : 's'} ${route}. ` +
+    `The best match is ${flights} at $${best.price}, ${best.stops === 0 ? 'non-stop' : `${best.stops} stop${best.stops === 1 ? '' : 's'}`}` +
+    `${cheapest < best.price ? `; the cheapest is $${cheapest}` : ''}.`;
+};
+
 const FlightSearchForm: React.FC<FlightSearchFormProps> = ({
+  criteria,
   onSearch,
   onResultSelect,
   isSearching = false
 }) => {
   const { toast } = useToast();
-  const [searchCriteria, setSearchCriteria] = useState<SearchCriteria>({
-    origin: '',
-    destination: '',
-    departureDate: '',
-    returnDate: '',
-    passengers: 1,
-    class: 'economy',
-    tripType: 'oneway',
-    priorities: {
-      cost: 70,
-      time: 60,
-      safety: 90,
-      comfort: 40,
-      layovers: 30
-    },
-    filters: {
-      maxLayovers: 2,
-      maxDuration: '12:00',
-      preferredAirlines: [],
-      flexibleDates: false,
-      directFlights: false
-    }
-  });
+  const [searchCriteria, setSearchCriteria] = useState<SearchCriteria>(criteria ?? DEFAULT_SEARCH_CRITERIA);
+
+  // Criteria carry only the codes; the places keep coordinates and labels for display
+  const [originPlace, setOriginPlace] = useState<Place | null>(() => criteria ? resolvePlace(criteria.origin) ?? null : null);
+  const [destinationPlace, setDestinationPlace] = useState<Place | null>(() => criteria ? resolvePlace(criteria.destination) ?? null : null);
+  const [submittedCriteria, setSubmittedCriteria] = useState<SearchCriteria | null>(criteria ?? null);
 
-  const [searchResults, setSearchResults] = useState<FlightResult[]>([]);
-  const [showResults, setShowResults] = useState(false);
-
-  const mockSearchResults: FlightResult[] = [
-    {
-      id: '1',
-      airline: 'SkyLine Airways',
-      flight: 'SK-1423',
-      origin: 'JFK',
-      destination: 'LAX',
-      departure: '08:30',
-      arrival: '12:45',
-  duration: '5h 15m',
-  price: 325,
-  stops: 0,
-  layovers: [],
-  aircraft: 'Boeing 737-800',
-  score: 92,
-  safetyRating: 4.8,
-  onTimePerformance: 87,
-  route: ['JFK', 'LAX'],
-  weather: 'favorable'
-},
-{
-  id: '2',
-  airline: 'Atlantic Express',
-  flight: 'AE-8901',
-  origin: 'JFK',
-  destination: 'LAX',
-  departure: '14:20',
-  arrival: '20:35',
-  duration: '6h 15m',
-      price: 289,
-      stops: 1,
-      layovers: ['DEN'],
-      aircraft: 'Airbus A320',
-      score: 85,
-      safetyRating: 4.6,
-      onTimePerformance: 92,
-      route: ['JFK', 'DEN', 'LAX'],
-      weather: 'caution'
-    },
-    {
-      id: '3',
-      airline: 'Global Wings',
-      flight: 'GW-5567',
-      origin: 'JFK',
-      destination: 'LAX',
-      departure: '19:45',
-      arrival: '02:30+1',
-      duration: '7h 45m',
-      price: 199,
-      stops: 2,
-      layovers: ['CHI', 'PHX'],
-      aircraft: 'Boeing 757',
-      score: 72,
-      safetyRating: 4.4,
-      onTimePerformance: 78,
-      route: ['JFK', 'CHI', 'PHX', 'LAX'],
-      weather: 'favorable'
+  // Follow external changes (back/forward, a pasted link) without clobbering edits on every render
+  const submittedCriteriaRef = useLatest(submittedCriteria);
+  useEffect(() => {
+    if (!criteria || searchCriteriaKey(criteria) === searchCriteriaKey(submittedCriteriaRef.current)) return;
+    setSearchCriteria(criteria);
+    setSubmittedCriteria(criteria);
+    setOriginPlace(resolvePlace(criteria.origin) ?? null);
+    setDestinationPlace(resolvePlace(criteria.destination) ?? null);
+  }, [criteria, submittedCriteriaRef]);
+  const {
+    data: search,
+    dataUpdatedAt,
+    error: searchError,
+    isFetching
+  } = useFlightSearch(submittedCriteria);
+  const { data: fareMatrix, isFetching: isFetchingMatrix } = useFareMatrix(submittedCriteria);
+  const { data: fareTrends } = useFareTrends(search ? submittedCriteria : null, dataUpdatedAt);
+
+  // Already paired, scored and filtered by the search, best first; FlightResults sorts and pages them
+  const searchResults = search?.itineraries ?? [];
+  const filterOutcomes = (search?.outcomes ?? []).filter(outcome => outcome.removed > 0 || outcome.demoted > 0);
+
+  // Returns a reason the criteria can't be searched yet, or null
+  const validateCriteria = (criteria: SearchCriteria): string | null => {
+    if (criteria.tripType === 'multicity') {
+      const legs = criteria.legs ?? [];
+      if (legs.length < 2) return 'Add at least two legs for a multi-city trip.';
+      if (legs.some(leg => !leg.origin || !leg.destination)) return 'Please select an origin and destination for every leg.';
+      if (legs.some((leg, i) => i > 0 && leg.departureDate && legs[i - 1].departureDate && leg.departureDate < legs[i - 1].departureDate)) {
+        return 'Legs must be in date order.';
+      }
+      return null;
     }
-  ];
-
-  const calculateAIScore = (flight: FlightResult, priorities: SearchCriteria['priorities']): number => {
-    const costScore = Math.max(0, 100 - (flight.price / 5)); // Lower price = higher score
-    const timeScore = Math.max(0, 100 - (parseInt(flight.duration) / 2)); // Shorter duration = higher score
-    const safetyScore = flight.safetyRating * 20; // Convert 5-point scale to 100-point
-    const comfortScore = flight.stops === 0 ? 100 : Math.max(0, 100 - (flight.stops * 30));
-    const layoverScore = Math.max(0, 100 - (flight.layovers.length * 25));
-
-    const weightedScore = (
-      (costScore * priorities.cost / 100) +
-      (timeScore * priorities.time / 100) +
-      (safetyScore * priorities.safety / 100) +
-      (comfortScore * priorities.comfort / 100) +
-      (layoverScore * priorities.layovers / 100)
-    ) / 5;
-
-    return Math.round(weightedScore);
+    if (!criteria.origin || !criteria.destination) return 'Please select both origin and destination.';
+    if (criteria.tripType === 'roundtrip') {
+      if (!criteria.returnDate) return 'Please choose a return date.';
+      if (criteria.departureDate && criteria.returnDate < criteria.departureDate) return 'The return date is before the departure date.';
+    }
+    return null;
+  };
+
+  const runSearch = (criteria: SearchCriteria) => {
+    setSubmittedCriteria(criteria);
+    onSearch?.(criteria);
   };
 
+  // A search sent on the command bus fills the form and runs; whoever sent it reports the results
+  const queryClient = useQueryClient();
+  const quietSearchKey = useRef<string | null>(null);
+  useCommandHandler('search', async ({ criteria }) => {
+    const problem = validateCriteria(criteria);
+    if (problem) return { ok: false, message: problem };
+
+    setSearchCriteria(criteria);
+    setOriginPlace(resolvePlace(criteria.origin) ?? null);
+    setDestinationPlace(resolvePlace(criteria.destination) ?? null);
+    quietSearchKey.current = searchCriteriaKey(criteria);
+    runSearch(criteria);
+    try {
+      const found = await queryClient.fetchQuery(flightSearchQuery(criteria));
+      return { ok: true, message: describeSearchOutcome(criteria, found), itineraries: found.itineraries };
+    } catch (err) {
+      return { ok: false, message: `The flight search failed: ${err instanceof Error ? err.message : 'the service could not be reached'}.` };
+    }
+  });
+
   const handleSearch = () => {
-    if (!searchCriteria.origin || !searchCriteria.destination) {
+    const problem = validateCriteria(searchCriteria);
+    if (problem) {
       toast({
         title: "Missing Information",
-        description: "Please enter both origin and destination.",
+        description: problem,
         variant: "destructive"
       });
       return;
     }
 
-    // AI Analysis announcement
-    const analysisMessage = `AI Flight Sage analyzing routes from ${searchCriteria.origin} to ${searchCriteria.destination}. 
-    Optimizing for ${searchCriteria.priorities.cost > 70 ? 'cost efficiency' : ''} 
-    ${searchCriteria.priorities.safety > 80 ? 'maximum safety' : ''} 
-    ${searchCriteria.priorities.time > 70 ? 'speed' : ''}. 
-    Found ${mockSearchResults.length} optimal routes with real-time weather and traffic analysis.`;
+    // Multi-city criteria keep origin, destination and date in step with the legs
+    const legs = searchCriteria.legs ?? [];
+    const criteria: SearchCriteria = searchCriteria.tripType === 'multicity'
+      ? {
+          ...searchCriteria,
+          origin: legs[0].origin,
+          destination: legs[legs.length - 1].destination,
+          departureDate: legs[0].departureDate,
+          returnDate: ''
+        }
+      : { ...searchCriteria, legs: undefined };
+
+    runSearch(criteria);
+  };
+
+  // A fare matrix cell re-runs the detailed search for its dates
+  const handleFareSelect = (departureDate: string, returnDate?: string) => {
+    if (!submittedCriteria) return;
+    const criteria = { ...submittedCriteria, departureDate, returnDate: returnDate ?? submittedCriteria.returnDate };
+    setSearchCriteria(criteria);
+    runSearch(criteria);
+  };
+
+  const setTripType = (tripType: SearchCriteria['tripType']) => {
+    setSearchCriteria(prev => ({
+      ...prev,
+      tripType,
+      // Start a multi-city trip from whatever one-way route was already entered
+      legs: tripType === 'multicity' && !prev.legs?.length
+        ? [
+            { origin: prev.origin, destination: prev.destination, departureDate: prev.departureDate },
+            { origin: prev.destination, destination: '', departureDate: '' }
+          ]
+        : prev.legs
+    }));
+  };
+
+  const updateLeg = (index: number, patch: Partial<SearchLeg>) => {
+    setSearchCriteria(prev => ({
+      ...prev,
+      legs: (prev.legs ?? []).map((leg, i) => i === index ? { ...leg, ...patch } : leg)
+    }));
+  };
+
+  const addLeg = () => {
+    setSearchCriteria(prev => {
+      const legs = prev.legs ?? [];
+      const last = legs[legs.length - 1];
+      return { ...prev, legs: [...legs, { origin: last?.destination ?? '', destination: '', departureDate: '' }] };
+    });
+  };
+
+  const removeLeg = (index: number) => {
+    setSearchCriteria(prev => ({ ...prev, legs: (prev.legs ?? []).filter((_, i) => i !== index) }));
+  };
+
+  // Announce results once the provider responds (cached responses included)
+  useEffect(() => {
+    if (!submittedCriteria || !dataUpdatedAt) return;
+    const quiet = quietSearchKey.current === searchCriteriaKey(submittedCriteria);
+    quietSearchKey.current = null;
+
+    const analysisMessage = `AI Flight Sage analyzing routes from ${submittedCriteria.origin} to ${submittedCriteria.destination}. 
+    Optimizing for ${submittedCriteria.priorities.cost > 70 ? 'cost efficiency' : ''} 
+    ${submittedCriteria.priorities.safety > 80 ? 'maximum safety' : ''} 
+    ${submittedCriteria.priorities.time > 70 ? 'speed' : ''}. 
+    Found ${search?.itineraries.length ?? 0} optimal routes with real-time weather and traffic analysis.`;
 
     // Text-to-speech announcement
-    if ('speechSynthesis' in window) {
+    if (!quiet && 'speechSynthesis' in window) {
       const utterance = new SpeechSynthesisUtterance(analysisMessage);
       utterance.rate = 0.9;
       utterance.pitch = 1;
       speechSynthesis.speak(utterance);
     }
 
-    // Calculate AI scores for each result
-    const resultsWithScores = mockSearchResults.map(flight => ({
-      ...flight,
-      score: calculateAIScore(flight, searchCriteria.priorities)
-    })).sort((a, b) => b.score - a.score);
-
-    setSearchResults(resultsWithScores);
-    setShowResults(true);
-    onSearch?.(searchCriteria);
-
     toast({
       title: "AI Analysis Complete",
-      description: `Found ${resultsWithScores.length} optimized flight options.`
+      description: `Found ${search?.itineraries.length ?? 0} optimized flight options.`
     });
-  };
+  }, [dataUpdatedAt, submittedCriteria, search, toast]);
 
-  const handleResultSelect = (result: FlightResult) => {
-    const selectionMessage = `Selected ${result.airline} flight ${result.flight}. 
-    Departure ${result.departure}, arrival ${result.arrival}. 
-    Price $${result.price}. ${result.stops === 0 ? 'Direct flight' : `${result.stops} stops`}. 
+  useEffect(() => {
+    if (!searchError) return;
+    toast({
+      title: "Flight Search Failed",
+      description: searchError instanceof Error ? searchError.message : "Unable to reach the flight search service.",
+      variant: "destructive"
+    });
+  }, [searchError, toast]);
+
+  // Returns what it announces; a selection sent from elsewhere is left for the sender to say
+  const handleResultSelect = (result: Itinerary, announce = true): string => {
+    const legMessages = result.legs.map(leg =>
+      `${leg.airline} flight ${leg.flight}, departure ${formatLocalTime(leg.departure)}, arrival ${formatLocalTime(leg.arrival)}.`);
+    const selectionMessage = `Selected ${legMessages.join(' Then ')} 
+    Total price $${result.price}. ${result.stops === 0 ? 'All direct flights' : `${result.stops} stops in total`}. 
     AI optimization score: ${result.score} out of 100.`;
 
-    if ('speechSynthesis' in window) {
+    if (announce && 'speechSynthesis' in window) {
       const utterance = new SpeechSynthesisUtterance(selectionMessage);
       speechSynthesis.speak(utterance);
     }
@@ -227,8 +246,19 @@ const FlightSearchForm: React.FC<FlightSearchFormProps> = ({
     onResultSelect?.(result);
     toast({
       title: "Flight Selected",
-      description: `${result.airline} ${result.flight} - $${result.price}`
+      description: `${result.legs.map(leg => `${leg.airline} ${leg.flight}`).join(', ')} - $${result.price}`
     });
+    return selectionMessage.replace(/\s+/g, ' ');
+  };
+
+  useCommandHandler('select-result', async ({ itineraryId }) => {
+    const result = search?.itineraries.find(itinerary => itinerary.id === itineraryId);
+    if (!result) return { ok: false, message: "That flight isn't in the current results any more." };
+    return { ok: true, message: handleResultSelect(result, false) };
+  });
+
+  const updateFilters = (patch: Partial<SearchCriteria['filters']>) => {
+    setSearchCriteria(prev => ({ ...prev, filters: { ...prev.filters, ...patch } }));
   };
 
   const updatePriority = (key: keyof SearchCriteria['priorities'], value: number[]) => {
@@ -254,37 +284,19 @@ const FlightSearchForm: React.FC<FlightSearchFormProps> = ({
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          {/* Basic Search Fields */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
-              <Label htmlFor="origin">Origin</Label>
-              <Input
-                id="origin"
-                placeholder="e.g., JFK, New York"
-                value={searchCriteria.origin}
-                onChange={(e) => setSearchCriteria(prev => ({ ...prev, origin: e.target.value }))}
-              />
-            </div>
-            <div>
-              <Label htmlFor="destination">Destination</Label>
-              <Input
-                id="destination"
-                placeholder="e.g., LAX, Los Angeles"
-                value={searchCriteria.destination}
-                onChange={(e) => setSearchCriteria(prev => ({ ...prev, destination: e.target.value }))}
-              />
-            </div>
-          </div>
-
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
-              <Label htmlFor="departure">Departure Date</Label>
-              <Input
-                id="departure"
-                type="date"
-                value={searchCriteria.departureDate}
-                onChange={(e) => setSearchCriteria(prev => ({ ...prev, departureDate: e.target.value }))}
-              />
+              <Label htmlFor="tripType">Trip Type</Label>
+              <Select value={searchCriteria.tripType} onValueChange={(value) => setTripType(value as SearchCriteria['tripType'])}>
+                <SelectTrigger id="tripType">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="oneway">One-way</SelectItem>
+                  <SelectItem value="roundtrip">Round trip</SelectItem>
+                  <SelectItem value="multicity">Multi-city</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
             <div>
               <Label htmlFor="passengers">Passengers</Label>
@@ -318,6 +330,113 @@ const FlightSearchForm: React.FC<FlightSearchFormProps> = ({
             </div>
           </div>
 
+          {searchCriteria.tripType === 'multicity' ? (
+            /* Multi-city: an ordered list of legs */
+            <div className="space-y-3">
+              {(searchCriteria.legs ?? []).map((leg, index) => (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-[auto_1fr_1fr_auto_auto] gap-2 items-end">
+                  <span className="text-sm font-semibold pb-2 w-12">Leg {index + 1}</span>
+                  <div>
+                    <Label htmlFor={`leg-${index}-origin`} className="sr-only">Origin</Label>
+                    <PlaceCombobox
+                      id={`leg-${index}-origin`}
+                      placeholder="From"
+                      value={resolvePlace(leg.origin) ?? null}
+                      onChange={(place) => updateLeg(index, { origin: place?.code ?? '' })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`leg-${index}-destination`} className="sr-only">Destination</Label>
+                    <PlaceCombobox
+                      id={`leg-${index}-destination`}
+                      placeholder="To"
+                      value={resolvePlace(leg.destination) ?? null}
+                      onChange={(place) => updateLeg(index, { destination: place?.code ?? '' })}
+                    />
+                  </div>
+                  <Input
+                    type="date"
+                    aria-label={`Leg ${index + 1} date`}
+                    value={leg.departureDate}
+                    onChange={(e) => updateLeg(index, { departureDate: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Remove leg ${index + 1}`}
+                    disabled={(searchCriteria.legs?.length ?? 0) <= 2}
+                    onClick={() => removeLeg(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={addLeg}
+                disabled={(searchCriteria.legs?.length ?? 0) >= MAX_MULTI_CITY_LEGS}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Leg
+              </Button>
+            </div>
+          ) : (
+            <>
+              {/* Basic Search Fields */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="origin">Origin</Label>
+                  <PlaceCombobox
+                    id="origin"
+                    placeholder="e.g., JFK, New York"
+                    value={originPlace}
+                    onChange={(place) => {
+                      setOriginPlace(place);
+                      setSearchCriteria(prev => ({ ...prev, origin: place?.code ?? '' }));
+                    }}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="destination">Destination</Label>
+                  <PlaceCombobox
+                    id="destination"
+                    placeholder="e.g., LAX, Los Angeles"
+                    value={destinationPlace}
+                    onChange={(place) => {
+                      setDestinationPlace(place);
+                      setSearchCriteria(prev => ({ ...prev, destination: place?.code ?? '' }));
+                    }}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="departure">Departure Date</Label>
+                  <Input
+                    id="departure"
+                    type="date"
+                    value={searchCriteria.departureDate}
+                    onChange={(e) => setSearchCriteria(prev => ({ ...prev, departureDate: e.target.value }))}
+                  />
+                </div>
+                {searchCriteria.tripType === 'roundtrip' && (
+                  <div>
+                    <Label htmlFor="return">Return Date</Label>
+                    <Input
+                      id="return"
+                      type="date"
+                      min={searchCriteria.departureDate || undefined}
+                      value={searchCriteria.returnDate ?? ''}
+                      onChange={(e) => setSearchCriteria(prev => ({ ...prev, returnDate: e.target.value }))}
+                    />
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+
           <Separator />
 
           {/* AI Optimization Priorities */}
@@ -428,6 +547,7 @@ const FlightSearchForm: React.FC<FlightSearchFormProps> = ({
                   <div className="flex items-center space-x-2">
                     <Checkbox
                       id="flexibleDates"
+                      disabled={searchCriteria.tripType === 'multicity'}
                       checked={searchCriteria.filters.flexibleDates}
                       onCheckedChange={(checked) => 
                         setSearchCriteria(prev => ({
@@ -443,8 +563,62 @@ const FlightSearchForm: React.FC<FlightSearchFormProps> = ({
             </div>
           </div>
 
-          <Button onClick={handleSearch} className="w-full" disabled={isSearching} size="lg">
-            {isSearching ? (
+          <Separator />
+
+          {/* Result Filters */}
+          <div>
+            <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+              <Filter className="h-4 w-4 text-primary" />
+              Filters
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="maxLayovers">Stops per Flight</Label>
+                <Select
+                  value={searchCriteria.filters.maxLayovers.toString()}
+                  onValueChange={(value) => updateFilters({ maxLayovers: parseInt(value) })}
+                >
+                  <SelectTrigger id="maxLayovers">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0">Nonstop only</SelectItem>
+                    <SelectItem value="1">Up to 1 stop</SelectItem>
+                    <SelectItem value="2">Up to 2 stops</SelectItem>
+                    <SelectItem value="3">Up to 3 stops</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="maxDuration">Max Flight Duration</Label>
+                <Select
+                  value={searchCriteria.filters.maxDuration}
+                  onValueChange={(value) => updateFilters({ maxDuration: value })}
+                >
+                  <SelectTrigger id="maxDuration">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {['06:00', '08:00', '12:00', '16:00', '24:00', '36:00'].map(duration => (
+                      <SelectItem key={duration} value={duration}>{parseInt(duration)} hours</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="preferredAirlines">Airlines</Label>
+                <AirlinePicker
+                  id="preferredAirlines"
+                  options={search?.airlines ?? []}
+                  value={searchCriteria.filters.preferredAirlines}
+                  onChange={(preferredAirlines) => updateFilters({ preferredAirlines })}
+                />
+              </div>
+            </div>
+          </div>
+
+          <Button onClick={handleSearch} className="w-full" disabled={isSearching || isFetching} size="lg">
+            {isSearching || isFetching ? (
               <>
                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
                 AI Analyzing Routes...
@@ -456,82 +630,60 @@ const FlightSearchForm: React.FC<FlightSearchFormProps> = ({
               </>
             )}
           </Button>
+
+          {/* Watches what was searched, not unsubmitted edits in the form */}
+          {submittedCriteria && (
+            <WatchSearchDialog
+              criteria={submittedCriteria}
+              lowestPrice={searchResults.length > 0 ? Math.min(...searchResults.map(result => result.price)) : null}
+            />
+          )}
         </CardContent>
       </Card>
 
+      {searchError && !isFetching && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            {searchError instanceof Error ? searchError.message : 'Flight search failed.'}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {supportsFareMatrix(submittedCriteria) && (
+        <FareMatrix
+          matrix={fareMatrix}
+          isFetching={isFetchingMatrix}
+          selectedDeparture={submittedCriteria.departureDate}
+          selectedReturn={submittedCriteria.returnDate}
+          onSelect={handleFareSelect}
+        />
+      )}
+
+      {submittedCriteria && fareTrends && fareTrends.length > 0 && (
+        <FareTrendPanel trends={fareTrends} tripType={submittedCriteria.tripType} />
+      )}
+
       {/* Search Results */}
-      {showResults && searchResults.length > 0 && (
+      {submittedCriteria && !isFetching && !searchError && searchResults.length === 0 && (
         <Card>
-          <CardHeader>
-            <CardTitle>AI-Optimized Flight Results</CardTitle>
-            <CardDescription>
-              Ranked by your preferences with real-time data analysis
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              {searchResults.map((result) => (
-                <Card key={result.id} className="cursor-pointer hover:shadow-md transition-shadow"
-                      onClick={() => handleResultSelect(result)}>
-                  <CardContent className="pt-4">
-                    <div className="flex justify-between items-start mb-4">
-                      <div>
-                        <h3 className="font-semibold text-lg">{result.airline}</h3>
-                        <p className="text-sm text-muted-foreground font-mono">{result.flight}</p>
-                      </div>
-                      <div className="text-right">
-                        <p className="text-2xl font-bold text-primary">${result.price}</p>
-                        <Badge variant={result.score >= 90 ? 'default' : result.score >= 75 ? 'secondary' : 'outline'}>
-                          AI Score: {result.score}
-                        </Badge>
-                      </div>
-                    </div>
-
-                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
-                      <div>
-                        <p className="text-sm text-muted-foreground">Route</p>
-                        <p className="font-semibold">{result.route.join(' → ')}</p>
-                      </div>
-                      <div>
-                        <p className="text-sm text-muted-foreground">Departure</p>
-                        <p className="font-semibold">{result.departure}</p>
-                      </div>
-                      <div>
-                        <p className="text-sm text-muted-foreground">Arrival</p>
-                        <p className="font-semibold">{result.arrival}</p>
-                      </div>
-                      <div>
-                        <p className="text-sm text-muted-foreground">Duration</p>
-                        <p className="font-semibold">{result.duration}</p>
-                      </div>
-                    </div>
-
-                    <div className="flex flex-wrap gap-2 mb-3">
-                      {result.stops === 0 ? (
-                        <Badge variant="default">Direct Flight</Badge>
-                      ) : (
-                        <Badge variant="secondary">{result.stops} Stop{result.stops > 1 ? 's' : ''}</Badge>
-                      )}
-                      <Badge variant="outline">Safety: {result.safetyRating}/5</Badge>
-                      <Badge variant="outline">On-time: {result.onTimePerformance}%</Badge>
-                      <Badge variant={result.weather === 'favorable' ? 'default' : 
-                              result.weather === 'caution' ? 'secondary' : 'destructive'}>
-                        Weather: {result.weather}
-                      </Badge>
-                    </div>
-
-                    {result.layovers.length > 0 && (
-                      <p className="text-sm text-muted-foreground">
-                        Layovers: {result.layovers.join(', ')}
-                      </p>
-                    )}
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
+          <CardContent className="pt-6 text-center text-muted-foreground">
+            {search && search.total > 0
+              ? `All ${search.total} itineraries from ${submittedCriteria.origin} to ${submittedCriteria.destination} were removed by your filters.`
+              : `No itineraries found from ${submittedCriteria.origin} to ${submittedCriteria.destination}.`}
+            {filterOutcomes.length > 0 && (
+              <span className="flex flex-wrap justify-center gap-2 mt-3">
+                {filterOutcomes.map(outcome => (
+                  <Badge key={outcome.filter} variant="outline">{outcome.label}: {outcome.removed} removed</Badge>
+                ))}
+              </span>
+            )}
           </CardContent>
         </Card>
       )}
+
+      {search && submittedCriteria && searchResults.length > 0 && (
+        <FlightResults search={search} criteria={submittedCriteria} onSelect={handleResultSelect} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { checkFlightConnections, type ConnectionCheck } from '@/lib/connections';
+import type { FlightResult } from '@/lib/flight-search';
+import { describeArrival, formatDayOffset, formatDuration, formatLocalDate, formatLocalTime } from '@/lib/flight-time';
+
+interface ItineraryLegProps {
+  leg: FlightResult;
+  // "Outbound", "Return", "Leg 2"...
+  label: string;
+}
+
+const withTerminal = (time: string, terminal?: string) => terminal ? `${time}, terminal ${terminal}` : time;
+
+const ConnectionRow: React.FC<{ check: ConnectionCheck }> = ({ check }) => {
+  const { connection } = check;
+  return (
+    <li className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="font-medium">Connect at {connection.airport}</span>
+      <span className="text-muted-foreground">
+        arrive {withTerminal(formatLocalTime(connection.arrival), connection.arrivalTerminal)}
+        {' → '}depart {withTerminal(formatLocalTime(connection.departure), connection.departureTerminal)}
+      </span>
+      <span>{formatDuration(check.minutes)}</span>
+      <span className="text-xs text-muted-foreground">
+        minimum {formatDuration(check.minimumMinutes)}{check.international ? ', international' : ''}{check.terminalChange ? ', terminal change' : ''}
+      </span>
+      {check.status === 'illegal' && <Badge variant="destructive">Below minimum connection time</Badge>}
+      {check.status === 'risky' && <Badge variant="secondary">Tight connection</Badge>}
+      {check.overnight && <Badge variant="outline">Overnight layover</Badge>}
+    </li>
+  );
+};
+
+// One flight of an itinerary: routing, local times and connections
+const ItineraryLeg: React.FC<ItineraryLegProps> = ({ leg, label }) => {
+  const arrivalDay = describeArrival(leg.departure, leg.arrival);
+  const connections = checkFlightConnections(leg);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-semibold">{label}</span>
+        <span className="text-muted-foreground">{formatLocalDate(leg.departure)}</span>
+        <span className="text-muted-foreground">·</span>
+        <span>{leg.airline}</span>
+        <span className="font-mono text-muted-foreground">{leg.flight}</span>
+        {leg.stops === 0 ? (
+          <Badge variant="default">Direct</Badge>
+        ) : (
+          <Badge variant="secondary">{leg.stops} Stop{leg.stops > 1 ? 's' : ''}</Badge>
+        )}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <p className="text-sm text-muted-foreground">Route</p>
+          <p className="font-semibold">{leg.route.join(' → ')}</p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">Departure</p>
+          <p className="font-semibold">{formatLocalTime(leg.departure)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">Arrival</p>
+          <p className="font-semibold">
+            {formatLocalTime(leg.arrival)}
+            {arrivalDay.dayOffset !== 0 && <sup className="ml-0.5 text-xs text-muted-foreground">{formatDayOffset(arrivalDay.dayOffset)}</sup>}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">Duration</p>
+          <p className="font-semibold">{formatDuration(leg.durationMinutes)}</p>
+        </div>
+      </div>
+      {connections.length > 0 && (
+        <ul className="space-y-1 border-l-2 pl-3">
+          {connections.map((check, index) => <ConnectionRow key={`${check.connection.airport}-${index}`} check={check} />)}
+        </ul>
+      )}
+      {arrivalDay.label && (
+        <Badge variant="outline" className={arrivalDay.crossesDateLine ? 'border-amber-500 text-amber-700 dark:text-amber-300' : undefined}>
+          {arrivalDay.label}
+        </Badge>
+      )}
+    </div>
+  );
+};
+
+export default ItineraryLeg;
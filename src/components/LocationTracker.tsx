@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -15,57 +15,37 @@ import {
   Satellite
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-
-interface LocationData {
-  latitude: number;
-  longitude: number;
-  altitude?: number;
-  heading?: number;
-  speed?: number;
-  accuracy: number;
-  timestamp: Date;
-}
-
-interface NearbyAirport {
-  id: string;
-  name: string;
-  code: string;
-  distance: number;
-  bearing: number;
-  type: 'major' | 'regional' | 'airstrip';
-  frequencies: {
-    tower?: string;
-    ground?: string;
-    approach?: string;
-  };
-  runways: Array<{
-    number: string;
-    length: number;
-    surface: string;
-  }>;
-}
-
-interface NavigationAid {
-  id: string;
-  name: string;
-  type: 'VOR' | 'NDB' | 'ILS' | 'GPS';
-  frequency: string;
-  distance: number;
-  bearing: number;
-}
+import { useCommandHandler } from '@/hooks/use-command-bus';
+import {
+  convertDistance,
+  formatCoordinates,
+  formatDistance,
+  type DistanceUnit
+} from '@/lib/geodesy';
+import { getAirportRepository, toNearbyAirport, type NearbyAirport } from '@/lib/airports';
+import type { LocationData } from '@/lib/app-state';
+import { getNavaidRepository, isVorFamily, type NavigationAid } from '@/lib/navaids';
+
+const SPOKEN_DISTANCE_UNITS: Record<DistanceUnit, string> = {
+  km: 'kilometers',
+  nm: 'nautical miles',
+  sm: 'miles'
+};
 
 interface LocationTrackerProps {
   onLocationUpdate?: (location: LocationData) => void;
   onNearbyAirportsFound?: (airports: NearbyAirport[]) => void;
   showNavigationAids?: boolean;
   autoUpdate?: boolean;
+  distanceUnit?: DistanceUnit;
 }
 
 const LocationTracker: React.FC<LocationTrackerProps> = ({
   onLocationUpdate,
   onNearbyAirportsFound,
   showNavigationAids = true,
-  autoUpdate = true
+  autoUpdate = true,
+  distanceUnit = 'km'
 }) => {
   const { toast } = useToast();
   const [location, setLocation] = useState<LocationData | null>(null);
@@ -74,6 +54,16 @@ const LocationTracker: React.FC<LocationTrackerProps> = ({
   const [isTracking, setIsTracking] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [watchId, setWatchId] = useState<number | null>(null);
+  // Read by the command handler, which may run before a render has caught up
+  const trackingRef = useRef(false);
+  // Commands waiting on the next fix, called with it or with the error message
+  const fixWaiters = useRef<Array<(fix: LocationData | string) => void>>([]);
+
+  const takeFixWaiters = () => {
+    const waiters = fixWaiters.current;
+    fixWaiters.current = [];
+    return waiters;
+  };
 
   const startTracking = () => {
     if (!navigator.geolocation) {
@@ -87,6 +77,7 @@ const LocationTracker: React.FC<LocationTrackerProps> = ({
     }
 
     setIsTracking(true);
+    trackingRef.current = true;
     setError(null);
 
     const options = {
@@ -115,8 +106,10 @@ const LocationTracker: React.FC<LocationTrackerProps> = ({
         findNavigationAids(locationData);
       }
 
-      // Voice announcement
-      announceLocation(locationData);
+      // A fix someone asked for is theirs to report
+      const waiters = takeFixWaiters();
+      waiters.forEach(resolve => resolve(locationData));
+      if (waiters.length === 0) announceLocation(locationData);
     };
 
     const errorCallback = (error: GeolocationPositionError) => {
@@ -136,6 +129,8 @@ const LocationTracker: React.FC<LocationTrackerProps> = ({
 
       setError(errorMessage);
       setIsTracking(false);
+      trackingRef.current = false;
+      takeFixWaiters().forEach(resolve => resolve(errorMessage));
       
       toast({
         title: "Location Error",
@@ -158,132 +153,31 @@ const LocationTracker: React.FC<LocationTrackerProps> = ({
       setWatchId(null);
     }
     setIsTracking(false);
+    trackingRef.current = false;
   };
 
   const findNearbyAirports = (currentLocation: LocationData) => {
-    // Mock nearby airports data (in production, use aviation database APIs)
-    const mockAirports: NearbyAirport[] = [
-      {
-        id: '1',
-        name: 'John F. Kennedy International Airport',
-        code: 'KJFK',
-        distance: calculateDistance(currentLocation.latitude, currentLocation.longitude, 40.6413, -73.7781),
-        bearing: calculateBearing(currentLocation.latitude, currentLocation.longitude, 40.6413, -73.7781),
-        type: 'major',
-        frequencies: {
-          tower: '119.1',
-          ground: '121.9',
-          approach: '125.25'
-        },
-        runways: [
-          { number: '04L/22R', length: 3682, surface: 'Asphalt' },
-          { number: '04R/22L', length: 2560, surface: 'Asphalt' }
-        ]
-      },
-      {
-        id: '2',
-        name: 'La Guardia Airport',
-        code: 'KLGA',
-        distance: calculateDistance(currentLocation.latitude, currentLocation.longitude, 40.7769, -73.8740),
-        bearing: calculateBearing(currentLocation.latitude, currentLocation.longitude, 40.7769, -73.8740),
-        type: 'major',
-        frequencies: {
-          tower: '118.7',
-          ground: '121.7'
-        },
-        runways: [
-          { number: '04/22', length: 2134, surface: 'Asphalt' }
-        ]
-      },
-      {
-        id: '3',
-        name: 'Westchester County Airport',
-        code: 'KHPN',
-        distance: calculateDistance(currentLocation.latitude, currentLocation.longitude, 41.0670, -73.7076),
-        bearing: calculateBearing(currentLocation.latitude, currentLocation.longitude, 41.0670, -73.7076),
-        type: 'regional',
-        frequencies: {
-          tower: '119.4'
-        },
-        runways: [
-          { number: '16/34', length: 1676, surface: 'Asphalt' }
-        ]
-      }
-    ];
+    const position: [number, number] = [currentLocation.latitude, currentLocation.longitude];
+    const closest = getAirportRepository()
+      .nearest(position, 5)
+      .map(({ airport }) => toNearbyAirport(airport, position));
 
-    // Sort by distance and take closest 5
-    const sortedAirports = mockAirports
-      .sort((a, b) => a.distance - b.distance)
-      .slice(0, 5);
-
-    setNearbyAirports(sortedAirports);
-    onNearbyAirportsFound?.(sortedAirports);
+    setNearbyAirports(closest);
+    onNearbyAirportsFound?.(closest);
   };
 
   const findNavigationAids = (currentLocation: LocationData) => {
-    // Mock navigation aids data
-    const mockNavAids: NavigationAid[] = [
-      {
-        id: '1',
-        name: 'Kennedy VOR',
-        type: 'VOR',
-        frequency: '115.9',
-        distance: calculateDistance(currentLocation.latitude, currentLocation.longitude, 40.6413, -73.7781),
-        bearing: calculateBearing(currentLocation.latitude, currentLocation.longitude, 40.6413, -73.7781)
-      },
-      {
-        id: '2',
-        name: 'LaGuardia ILS',
-        type: 'ILS',
-        frequency: '111.1',
-        distance: calculateDistance(currentLocation.latitude, currentLocation.longitude, 40.7769, -73.8740),
-        bearing: calculateBearing(currentLocation.latitude, currentLocation.longitude, 40.7769, -73.8740)
-      }
-    ];
-
-    setNavigationAids(mockNavAids.sort((a, b) => a.distance - b.distance));
-  };
-
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371; // Earth's radius in km
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-              Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-              Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
-  };
-
-  const calculateBearing = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const lat1Rad = lat1 * Math.PI / 180;
-    const lat2Rad = lat2 * Math.PI / 180;
-    
-    const y = Math.sin(dLon) * Math.cos(lat2Rad);
-    const x = Math.cos(lat1Rad) * Math.sin(lat2Rad) - Math.sin(lat1Rad) * Math.cos(lat2Rad) * Math.cos(dLon);
-    
-    let bearing = Math.atan2(y, x) * 180 / Math.PI;
-    return (bearing + 360) % 360;
-  };
-
-  const formatCoordinates = (lat: number, lon: number): string => {
-    const latDir = lat >= 0 ? 'N' : 'S';
-    const lonDir = lon >= 0 ? 'E' : 'W';
-    const latDeg = Math.floor(Math.abs(lat));
-    const latMin = ((Math.abs(lat) - latDeg) * 60).toFixed(3);
-    const lonDeg = Math.floor(Math.abs(lon));
-    const lonMin = ((Math.abs(lon) - lonDeg) * 60).toFixed(3);
-    
-    return `${latDeg}°${latMin}'${latDir} ${lonDeg}°${lonMin}'${lonDir}`;
+    // Geolocation reports altitude in meters; reception ranges are worked in feet
+    const altitudeFt = currentLocation.altitude !== undefined ? currentLocation.altitude * 3.28084 : null;
+    setNavigationAids(getNavaidRepository().inRange([currentLocation.latitude, currentLocation.longitude], altitudeFt));
   };
 
   const announceLocation = (locationData: LocationData) => {
     if ('speechSynthesis' in window) {
-      const coordinates = formatCoordinates(locationData.latitude, locationData.longitude);
+      const coordinates = formatCoordinates([locationData.latitude, locationData.longitude], 'dm');
       const announcement = `GPS position acquired. Current location: ${coordinates}. 
         ${locationData.altitude ? `Altitude: ${Math.round(locationData.altitude)} meters. ` : ''}
-        ${nearbyAirports.length > 0 ? `Nearest airport: ${nearbyAirports[0].name} at ${nearbyAirports[0].distance.toFixed(1)} kilometers.` : ''}`;
+        ${nearbyAirports.length > 0 ? `Nearest airport: ${nearbyAirports[0].name} at ${convertDistance(nearbyAirports[0].distance, distanceUnit).toFixed(1)} ${SPOKEN_DISTANCE_UNITS[distanceUnit]}.` : ''}`;
 
       const utterance = new SpeechSynthesisUtterance(announcement);
       utterance.rate = 0.9;
@@ -311,6 +205,26 @@ const LocationTracker: React.FC<LocationTrackerProps> = ({
     };
   }, []);
 
+  const describePosition = (fix: LocationData): string => {
+    const position: [number, number] = [fix.latitude, fix.longitude];
+    const [nearest] = getAirportRepository().nearest(position, 1).map(({ airport }) => toNearbyAirport(airport, position));
+    return `You're at ${formatCoordinates(position, 'dm')}${fix.altitude ? `, ${Math.round(fix.altitude)} meters up` : ''}.` +
+      (nearest ? ` The nearest airport is ${nearest.name}, ${convertDistance(nearest.distance, distanceUnit).toFixed(1)} ${SPOKEN_DISTANCE_UNITS[distanceUnit]} away.` : '');
+  };
+
+  // Registered after auto-start, so a command arriving on mount waits for that fix rather than starting another watch
+  useCommandHandler('track-location', async () => {
+    if (!navigator.geolocation) return { ok: false, message: "This browser doesn't support GPS tracking." };
+    if (trackingRef.current && location) return { ok: true, message: describePosition(location) };
+
+    const fix = new Promise<LocationData | string>(resolve => fixWaiters.current.push(resolve));
+    if (!trackingRef.current) startTracking();
+    const result = await fix;
+    return typeof result === 'string'
+      ? { ok: false, message: `I couldn't get your position: ${result.toLowerCase()}.` }
+      : { ok: true, message: describePosition(result) };
+  });
+
   return (
     <div className="space-y-4">
       <Card>
@@ -374,11 +288,14 @@ const LocationTracker: React.FC<LocationTrackerProps> = ({
                         <span className="font-semibold">Current Position</span>
                       </div>
                       <p className="text-sm font-mono">
-                        {formatCoordinates(location.latitude, location.longitude)}
+                        {formatCoordinates([location.latitude, location.longitude], 'dm')}
                       </p>
                       <p className="text-xs text-muted-foreground mt-1">
                         Decimal: {location.latitude.toFixed(6)}, {location.longitude.toFixed(6)}
                       </p>
+                      <p className="text-xs text-muted-foreground font-mono">
+                        ICAO: {formatCoordinates([location.latitude, location.longitude], 'icao')}
+                      </p>
                     </CardContent>
                   </Card>
 
@@ -443,7 +360,7 @@ const LocationTracker: React.FC<LocationTrackerProps> = ({
                         <p className="text-sm text-muted-foreground font-mono">{airport.code}</p>
                       </div>
                       <div className="text-right">
-                        <p className="text-sm font-semibold">{airport.distance.toFixed(1)} km</p>
+                        <p className="text-sm font-semibold">{formatDistance(airport.distance, distanceUnit)}</p>
                         <p className="text-xs text-muted-foreground">{Math.round(airport.bearing)}° bearing</p>
                       </div>
                     </div>
@@ -495,12 +412,16 @@ const LocationTracker: React.FC<LocationTrackerProps> = ({
                 <div key={aid.id} className="flex justify-between items-center p-2 border rounded">
                   <div>
                     <span className="font-semibold text-sm">{aid.name}</span>
+                    <span className="ml-2 font-mono text-xs text-muted-foreground">{aid.ident}</span>
                     <Badge variant="outline" className="ml-2 text-xs">{aid.type}</Badge>
+                    <p className="text-xs text-muted-foreground">
+                      {isVorFamily(aid.type) ? 'Radial' : 'From'} {aid.radial.toString().padStart(3, '0')}° · range {Math.round(aid.rangeNm)} nm
+                    </p>
                   </div>
                   <div className="text-right text-sm">
                     <p className="font-mono">{aid.frequency}</p>
                     <p className="text-xs text-muted-foreground">
-                      {aid.distance.toFixed(1)}km @ {Math.round(aid.bearing)}°
+                      {formatDistance(aid.distance, distanceUnit)} @ {Math.round(aid.bearing)}°T
                     </p>
                   </div>
                 </div>
@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Building2, Check, ChevronsUpDown, Plane } from 'lucide-react';
+import { searchPlaces, type Place } from '@/lib/places';
+import { cn } from '@/lib/utils';
+
+interface PlaceComboboxProps {
+  id?: string;
+  value: Place | null;
+  onChange: (place: Place | null) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+const placeKey = (place: Place) => `${place.kind}:${place.code}`;
+
+/**
+ * Airport / metro area picker. Suggestions come from the bundled airport
+ * database, so the selection always carries a code and coordinates.
+ */
+const PlaceCombobox: React.FC<PlaceComboboxProps> = ({
+  id,
+  value,
+  onChange,
+  placeholder = 'Select airport or city',
+  className
+}) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+
+  const suggestions = useMemo(() => searchPlaces(query, 10), [query]);
+  const metros = suggestions.filter(place => place.kind === 'metro');
+  const airports = suggestions.filter(place => place.kind === 'airport');
+
+  const select = (place: Place) => {
+    onChange(value && placeKey(value) === placeKey(place) ? null : place);
+    setOpen(false);
+    setQuery('');
+  };
+
+  const renderItem = (place: Place) => (
+    <CommandItem key={placeKey(place)} value={placeKey(place)} onSelect={() => select(place)}>
+      {place.kind === 'metro' ? <Building2 className="h-4 w-4" /> : <Plane className="h-4 w-4" />}
+      <span className="font-mono font-semibold w-10">{place.code}</span>
+      <div className="flex-1 min-w-0">
+        <p className="truncate">{place.kind === 'metro' ? `${place.city} – all airports` : place.name}</p>
+        <p className="text-xs text-muted-foreground truncate">
+          {place.kind === 'metro' ? place.airportCodes.join(', ') : `${place.city}, ${place.country}`}
+        </p>
+      </div>
+      <Check className={cn('h-4 w-4', value && placeKey(value) === placeKey(place) ? 'opacity-100' : 'opacity-0')} />
+    </CommandItem>
+  );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn('w-full justify-between font-normal', className)}
+        >
+          {value ? (
+            <span className="truncate">
+              <span className="font-mono font-semibold mr-2">{value.code}</span>
+              {value.kind === 'metro' ? `${value.city} – all airports` : value.name}
+            </span>
+          ) : (
+            <span className="text-muted-foreground">{placeholder}</span>
+          )}
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] min-w-[320px] p-0" align="start">
+        {/* Ranking is done by the airport repository, so cmdk's own filter is off */}
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="City, airport name or code..." value={query} onValueChange={setQuery} />
+          <CommandList>
+            <CommandEmpty>
+              {query.trim() ? 'No matching airports.' : 'Start typing to search airports and cities.'}
+            </CommandEmpty>
+            {metros.length > 0 && <CommandGroup heading="Metro areas">{metros.map(renderItem)}</CommandGroup>}
+            {airports.length > 0 && <CommandGroup heading="Airports">{airports.map(renderItem)}</CommandGroup>}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default PlaceCombobox;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CloudRain, Loader2 } from 'lucide-react';
+import { useAppState } from '@/hooks/use-app-state';
+import { routeEndStations } from '@/lib/app-state';
+
+const stationLabel = (index: number, count: number): string => {
+  if (count === 1) return 'Destination';
+  if (index === 0) return 'Departure';
+  return index === count - 1 ? 'Arrival' : `Stop ${index}`;
+};
+
+/**
+ * Latest decoded report for each end of the active route. The provider fetches
+ * them; this only reads the shared store.
+ */
+const RouteWeatherPanel: React.FC = () => {
+  const { state } = useAppState();
+  const stations = routeEndStations(state.route);
+  if (stations.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CloudRain className="h-5 w-5 text-primary" />
+          Route Weather
+        </CardTitle>
+        <CardDescription>
+          {state.selectedItinerary
+            ? `${state.selectedItinerary.legs.map(leg => `${leg.airline} ${leg.flight}`).join(', ')} · ${state.route?.places.map(p => p.code).join(' → ')}`
+            : state.route?.places.map(p => p.code).join(' → ')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {stations.map((station, index) => {
+            const entry = state.weather[station];
+            const weather = entry?.data;
+            return (
+              <div key={station} className="p-3 border rounded-lg space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold">
+                    {stationLabel(index, stations.length)} · <span className="font-mono">{station}</span>
+                  </span>
+                  {weather?.flightCategory && <Badge variant="outline" className="font-mono">{weather.flightCategory}</Badge>}
+                </div>
+                {(!entry || entry.status === 'loading') && !weather && (
+                  <p className="text-sm text-muted-foreground flex items-center gap-2">
+                    <Loader2 className="h-4 w-4 animate-spin" /> Loading report...
+                  </p>
+                )}
+                {entry?.status === 'error' && !weather && (
+                  <p className="text-sm text-destructive">{entry.error}</p>
+                )}
+                {weather && (
+                  <>
+                    <p className="text-sm capitalize">{weather.description}, {weather.temperature}°C</p>
+                    <p className="text-xs text-muted-foreground">
+                      Wind {weather.windDirection === null ? 'VRB' : `${weather.windDirection.toString().padStart(3, '0')}°`} {weather.windSpeed} km/h
+                      {weather.windGust ? ` gusting ${weather.windGust}` : ''} · Visibility {weather.visibility} km
+                    </p>
+                    <p className="font-mono text-xs text-muted-foreground break-all">{weather.metar.raw}</p>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RouteWeatherPanel;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { Progress } from '@/components/ui/progress';
+import { formatDuration } from '@/lib/flight-time';
+import { topFactors, type FactorScore, type ScoreBreakdown as ScoreBreakdownData } from '@/lib/scoring';
+
+interface ScoreBreakdownProps {
+  breakdown: ScoreBreakdownData;
+  score: number;
+  // 1-based position in the results; #1 gets a short "why" summary
+  rank?: number;
+}
+
+const formatFactorValue = ({ factor, value }: FactorScore): string => {
+  switch (factor) {
+    case 'cost': return `$${value}`;
+    case 'time': return formatDuration(value);
+    case 'safety': return `${value}/5`;
+    case 'comfort': return `${Math.round(value)}/100`;
+    case 'layovers': return `${value} connection${value === 1 ? '' : 's'}`;
+  }
+};
+
+const formatPoints = (points: number) => `${points >= 0 ? '+' : ''}${points.toFixed(1)}`;
+
+// Per-factor contributions to an itinerary's score
+const ScoreBreakdown: React.FC<ScoreBreakdownProps> = ({ breakdown, score, rank }) => {
+  const leaders = topFactors(breakdown);
+
+  return (
+    <div className="space-y-3">
+      {rank === 1 && leaders.length > 0 && (
+        <p className="text-sm">
+          <span className="font-semibold">Why this ranked #1:</span>{' '}
+          strongest on {leaders.map(factor => factor.label.toLowerCase()).join(' and ')} for your priorities.
+        </p>
+      )}
+      <div className="space-y-2">
+        {breakdown.factors.map(factor => (
+          <div key={factor.factor} className="grid grid-cols-[7rem_1fr_auto] items-center gap-3 text-sm">
+            <div>
+              <p className="font-medium">{factor.label}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatFactorValue(factor)} · weight {Math.round(factor.weight * 100)}%
+              </p>
+            </div>
+            <Progress
+              value={factor.normalized * 100}
+              className="h-2"
+              aria-label={`${factor.label}: ${Math.round(factor.normalized * 100)}% of the best in these results`}
+            />
+            <span className="font-mono text-xs w-12 text-right">{formatPoints(factor.points)}</span>
+          </div>
+        ))}
+        {breakdown.adjustments.map(adjustment => (
+          <div key={adjustment.label} className="flex justify-between text-sm">
+            <span className="text-muted-foreground">{adjustment.label}</span>
+            <span className="font-mono text-xs w-12 text-right">{formatPoints(adjustment.points)}</span>
+          </div>
+        ))}
+        <div className="flex justify-between border-t pt-2 text-sm font-semibold">
+          <span>Score</span>
+          <span className="font-mono">{score}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScoreBreakdown;
@@ -2,48 +2,79 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Mic, MicOff, Volume2, VolumeX, MessageCircle, Plane, Navigation } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Mic, MicOff, Volume2, VolumeX, MessageCircle, Plane, Navigation, Send, ListOrdered } from 'lucide-react';
+import type { Locale } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
+import { useCommandBus } from '@/hooks/use-command-bus';
+import type { AppCommand } from '@/lib/command-bus';
+import { createDialogueState, describeDraft, recordOutcome, respondToUtterance, type DialogueState } from '@/lib/voice-dialogue';
+import { RESULTS_PER_PAGE } from '@/lib/result-readout';
+import { LOW_CONFIDENCE, type ParsedUtterance } from '@/lib/voice-parser';
 
-interface VoiceCommand {
-  command: string;
-  intent: 'search' | 'navigate' | 'weather' | 'location' | 'emergency' | 'general';
-  parameters?: Record<string, any>;
-  confidence: number;
+// A recognized utterance with its intent, slots and confidence
+export type VoiceCommand = ParsedUtterance;
+
+// Searches, weather, directions and position requests go out on the command bus, and what
+// their handlers report back is said once it's known
+interface VoiceInterfaceProps {
+  onCommand?: (command: VoiceCommand) => void;
+  // Clock and locale spoken dates are resolved against
+  now?: () => Date;
+  dateLocale?: Locale;
+  // How many search results are read out at a time
+  resultsPerPage?: number;
 }
 
-interface VoiceResponse {
+// How long after the assistant stops talking its voice may still come back through the microphone
+const ECHO_WINDOW_MS = 1500;
+// Share of what's heard that has to be the assistant's own words to count as an echo
+const ECHO_OVERLAP = 0.8;
+// Characters past the last word boundary that may already have been heard
+const BOUNDARY_SLACK = 20;
+
+interface Speech {
   text: string;
-  action?: string;
-  data?: any;
+  // How far into the text the engine has got, where it reports word boundaries
+  reached: number | null;
+  endedAt: number | null;
 }
 
-interface VoiceInterfaceProps {
-  onCommand?: (command: VoiceCommand) => void;
-  onFlightSearch?: (criteria: any) => void;
-  onLocationRequest?: () => void;
-  onNavigationHelp?: (destination: string) => void;
-}
+// Only what's been said so far can come back, so "next" spoken over a readout that ends in "say next" still counts
+const saidSoFar = ({ text, reached, endedAt }: Speech) =>
+  endedAt !== null || reached === null ? text : text.slice(0, reached + BOUNDARY_SLACK);
+
+const spokenWords = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+
+// Recognizers pick up the assistant's own voice, never quite word for word
+const isEcho = (heard: string, said: string): boolean => {
+  const words = spokenWords(heard);
+  const saying = new Set(spokenWords(said));
+  return words.length > 0 && words.filter(word => saying.has(word)).length / words.length >= ECHO_OVERLAP;
+};
 
 const VoiceInterface: React.FC<VoiceInterfaceProps> = ({
   onCommand,
-  onFlightSearch,
-  onLocationRequest,
-  onNavigationHelp
+  now = () => new Date(),
+  dateLocale,
+  resultsPerPage
 }) => {
   const { toast } = useToast();
+  const bus = useCommandBus();
   const [isListening, setIsListening] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [transcript, setTranscript] = useState('');
-  const [conversation, setConversation] = useState<Array<{
-    type: 'user' | 'ai';
-    message: string;
-    timestamp: Date;
-  }>>([]);
+  const [dialogue, setDialogue] = useState<DialogueState>(createDialogueState);
+  const [lastCommand, setLastCommand] = useState<VoiceCommand | null>(null);
+  const [typedCommand, setTypedCommand] = useState('');
   const [isSupported, setIsSupported] = useState(false);
   
   const recognitionRef = useRef<any>(null);
   const synthesisRef = useRef<SpeechSynthesis | null>(null);
+  // Recognition callbacks are bound once, so they read the dialogue from here
+  const dialogueRef = useRef(dialogue);
+  // What the assistant is saying, or last said and when it stopped
+  const speechRef = useRef<Speech | null>(null);
 
   useEffect(() => {
     // Check for speech recognition support
@@ -72,21 +103,31 @@ const VoiceInterface: React.FC<VoiceInterfaceProps> = ({
       recognition.onresult = (event) => {
         let finalTranscript = '';
         let interimTranscript = '';
+        // Some engines report 0 when they don't estimate confidence
+        let asrConfidence = 1;
         
         for (let i = event.resultIndex; i < event.results.length; i++) {
           const transcript = event.results[i][0].transcript;
           if (event.results[i].isFinal) {
             finalTranscript += transcript;
+            if (event.results[i][0].confidence > 0) asrConfidence = Math.min(asrConfidence, event.results[i][0].confidence);
           } else {
             interimTranscript += transcript;
           }
         }
         
-        setTranscript(finalTranscript || interimTranscript);
+        const heard = finalTranscript || interimTranscript;
+        if (!heard.trim()) return;
+
+        // Talking over the assistant cuts it off; its own voice coming back is ignored
+        const speech = speechRef.current;
+        if (speech && (speech.endedAt === null || Date.now() - speech.endedAt < ECHO_WINDOW_MS) && isEcho(heard, saidSoFar(speech))) return;
+        if (speech?.endedAt === null) stopSpeaking();
+
+        setTranscript(heard);
         
         if (finalTranscript) {
-          processVoiceCommand(finalTranscript);
-          addToConversation('user', finalTranscript);
+          processVoiceCommand(finalTranscript, asrConfidence);
         }
       };
       
@@ -121,202 +162,51 @@ const VoiceInterface: React.FC<VoiceInterfaceProps> = ({
     };
   }, []);
 
-  const processVoiceCommand = (command: string): VoiceCommand => {
-    const lowerCommand = command.toLowerCase();
-    let intent: VoiceCommand['intent'] = 'general';
-    let parameters: Record<string, any> = {};
-    let confidence = 0.8;
-
-    // Flight search patterns
-    if (lowerCommand.includes('find flights') || lowerCommand.includes('search flights') || 
-        lowerCommand.includes('book flight') || lowerCommand.includes('fly to')) {
-      intent = 'search';
-      
-      // Extract destination
-      const toMatch = lowerCommand.match(/(?:to|fly to)\s+([a-zA-Z\s]+?)(?:\s|$)/);
-      const fromMatch = lowerCommand.match(/(?:from)\s+([a-zA-Z\s]+?)(?:\s+to|$)/);
-      
-      if (toMatch) parameters.destination = toMatch[1].trim();
-      if (fromMatch) parameters.origin = fromMatch[1].trim();
-      
-      // Extract date patterns
-      const dateMatch = lowerCommand.match(/(?:on|for)\s+(today|tomorrow|next week|this weekend|\d{1,2}\/\d{1,2})/);
-      if (dateMatch) parameters.date = dateMatch[1];
-      
-      // Extract preferences
-      if (lowerCommand.includes('cheap') || lowerCommand.includes('cheapest')) {
-        parameters.priority = 'cost';
-      } else if (lowerCommand.includes('fast') || lowerCommand.includes('quick')) {
-        parameters.priority = 'time';
-      } else if (lowerCommand.includes('direct') || lowerCommand.includes('non-stop')) {
-        parameters.directFlight = true;
-      }
-      
-      confidence = 0.9;
-    }
-    
-    // Location/navigation patterns
-    else if (lowerCommand.includes('where am i') || lowerCommand.includes('current location') ||
-             lowerCommand.includes('my location')) {
-      intent = 'location';
-      confidence = 0.95;
-    }
-    
-    // Navigation patterns
-    else if (lowerCommand.includes('navigate to') || lowerCommand.includes('route to') ||
-             lowerCommand.includes('directions to')) {
-      intent = 'navigate';
-      const toMatch = lowerCommand.match(/(?:navigate to|route to|directions to)\s+([a-zA-Z\s]+)/);
-      if (toMatch) parameters.destination = toMatch[1].trim();
-      confidence = 0.9;
-    }
-    
-    // Weather patterns
-    else if (lowerCommand.includes('weather') || lowerCommand.includes('forecast')) {
-      intent = 'weather';
-      const locationMatch = lowerCommand.match(/weather\s+(?:in|at|for)\s+([a-zA-Z\s]+)/);
-      if (locationMatch) parameters.location = locationMatch[1].trim();
-      confidence = 0.85;
-    }
-    
-    // Emergency patterns
-    else if (lowerCommand.includes('emergency') || lowerCommand.includes('help') ||
-             lowerCommand.includes('lost') || lowerCommand.includes('mayday')) {
-      intent = 'emergency';
-      confidence = 1.0;
-    }
-
-    const voiceCommand: VoiceCommand = {
-      command,
-      intent,
-      parameters,
-      confidence
-    };
+  const processVoiceCommand = (command: string, asrConfidence = 1): VoiceCommand => {
+    const result = respondToUtterance(dialogueRef.current, command, { asrConfidence, now: now(), locale: dateLocale, resultsPerPage });
+    dialogueRef.current = result.state;
+    setDialogue(result.state);
+    setLastCommand(result.command);
 
-    // Process the command
-    handleVoiceCommand(voiceCommand);
-    onCommand?.(voiceCommand);
+    speak(result.reply);
+    if (result.action && result.action.type !== 'emergency') runAppCommand(result.action);
+    onCommand?.(result.command);
 
-    return voiceCommand;
+    return result.command;
   };
 
-  const handleVoiceCommand = (command: VoiceCommand) => {
-    let response: VoiceResponse;
-
-    switch (command.intent) {
-      case 'search':
-        response = handleFlightSearch(command);
-        break;
-      case 'location':
-        response = handleLocationRequest(command);
-        break;
-      case 'navigate':
-        response = handleNavigationRequest(command);
-        break;
-      case 'weather':
-        response = handleWeatherRequest(command);
-        break;
-      case 'emergency':
-        response = handleEmergencyRequest(command);
-        break;
-      default:
-        response = {
-          text: "I understand you said: " + command.command + ". How can I help you with flight planning, navigation, or weather information?",
-        };
-    }
-
-    addToConversation('ai', response.text);
-    speak(response.text);
+  // Says how it went after the acknowledgement, rather than cutting it off
+  const runAppCommand = async (command: AppCommand) => {
+    const outcome = await bus.dispatch(command);
+    const result = recordOutcome(dialogueRef.current, outcome, { now: now(), locale: dateLocale, resultsPerPage });
+    dialogueRef.current = result.state;
+    setDialogue(result.state);
+    speak(result.reply, false);
   };
 
-  const handleFlightSearch = (command: VoiceCommand): VoiceResponse => {
-    const { parameters } = command;
-    
-    if (parameters?.destination) {
-      // Trigger flight search
-      const searchCriteria = {
-        origin: parameters.origin || '',
-        destination: parameters.destination,
-        departureDate: parameters.date || '',
-        priority: parameters.priority || 'balanced'
-      };
-      
-      onFlightSearch?.(searchCriteria);
-      
-      return {
-        text: `Searching for flights to ${parameters.destination}${parameters.origin ? ` from ${parameters.origin}` : ''}. 
-              ${parameters.priority ? `Optimizing for ${parameters.priority}.` : ''} 
-              I'll show you the best options with real-time pricing and weather conditions.`,
-        action: 'flight_search',
-        data: searchCriteria
-      };
-    } else {
-      return {
-        text: "I'd be happy to help you find flights. Please specify your destination. For example, say 'Find flights to New York' or 'Search flights from Los Angeles to Miami'.",
-      };
-    }
-  };
-
-  const handleLocationRequest = (command: VoiceCommand): VoiceResponse => {
-    onLocationRequest?.();
-    
-    return {
-      text: "Accessing your current location using GPS. I'll show your position on the map along with nearby airports and navigation aids.",
-      action: 'get_location'
-    };
-  };
-
-  const handleNavigationRequest = (command: VoiceCommand): VoiceResponse => {
-    const { parameters } = command;
-    
-    if (parameters?.destination) {
-      onNavigationHelp?.(parameters.destination);
-      
-      return {
-        text: `Calculating optimal route to ${parameters.destination}. I'll provide turn-by-turn navigation with real-time weather conditions and airspace information.`,
-        action: 'navigation',
-        data: { destination: parameters.destination }
-      };
-    } else {
-      return {
-        text: "I can help you navigate. Please specify your destination. For example, say 'Navigate to JFK Airport' or 'Route to Los Angeles'.",
-      };
-    }
-  };
-
-  const handleWeatherRequest = (command: VoiceCommand): VoiceResponse => {
-    const { parameters } = command;
-    const location = parameters?.location || 'your current area';
-    
-    return {
-      text: `Checking current weather conditions for ${location}. I'll provide visibility, wind conditions, and flight safety recommendations.`,
-      action: 'weather',
-      data: { location }
-    };
-  };
-
-  const handleEmergencyRequest = (command: VoiceCommand): VoiceResponse => {
-    return {
-      text: `Emergency mode activated. I'm here to help. Please state your situation clearly. 
-            I can provide nearest airport locations, emergency frequencies, and direct you to safety.
-            If this is a real emergency, contact air traffic control on 121.5 MHz immediately.`,
-      action: 'emergency'
-    };
-  };
-
-  const speak = (text: string) => {
+  const speak = (text: string, interrupt = true) => {
     if (synthesisRef.current && 'speechSynthesis' in window) {
       // Stop any current speech
-      speechSynthesis.cancel();
+      if (interrupt) speechSynthesis.cancel();
       
       const utterance = new SpeechSynthesisUtterance(text);
       utterance.rate = 0.9;
       utterance.pitch = 1;
       utterance.volume = 1;
       
-      utterance.onstart = () => setIsSpeaking(true);
-      utterance.onend = () => setIsSpeaking(false);
-      utterance.onerror = () => setIsSpeaking(false);
+      const finish = () => {
+        if (speechRef.current?.text === text) speechRef.current = { ...speechRef.current, endedAt: Date.now() };
+        setIsSpeaking(false);
+      };
+      utterance.onstart = () => {
+        speechRef.current = { text, reached: null, endedAt: null };
+        setIsSpeaking(true);
+      };
+      utterance.onboundary = (event) => {
+        if (speechRef.current?.text === text) speechRef.current = { ...speechRef.current, reached: event.charIndex };
+      };
+      utterance.onend = finish;
+      utterance.onerror = finish;
       
       speechSynthesis.speak(utterance);
     }
@@ -335,21 +225,24 @@ const VoiceInterface: React.FC<VoiceInterfaceProps> = ({
     }
   };
 
+  // Typed commands go through the same parser as spoken ones
+  const submitTypedCommand = (event: React.FormEvent) => {
+    event.preventDefault();
+    const text = typedCommand.trim();
+    if (!text) return;
+    setTranscript(text);
+    processVoiceCommand(text);
+    setTypedCommand('');
+  };
+
   const stopSpeaking = () => {
     if (synthesisRef.current) {
       speechSynthesis.cancel();
+      if (speechRef.current) speechRef.current = { ...speechRef.current, endedAt: Date.now() };
       setIsSpeaking(false);
     }
   };
 
-  const addToConversation = (type: 'user' | 'ai', message: string) => {
-    setConversation(prev => [...prev, {
-      type,
-      message,
-      timestamp: new Date()
-    }]);
-  };
-
   if (!isSupported) {
     return (
       <Card>
@@ -414,6 +307,18 @@ const VoiceInterface: React.FC<VoiceInterfaceProps> = ({
               </Button>
             </div>
 
+            <form onSubmit={submitTypedCommand} className="flex gap-2">
+              <Input
+                value={typedCommand}
+                onChange={(e) => setTypedCommand(e.target.value)}
+                placeholder="Or type a command, e.g. flights to Denver next Friday"
+                aria-label="Type a command"
+              />
+              <Button type="submit" variant="outline" disabled={!typedCommand.trim()}>
+                <Send className="h-4 w-4" />
+              </Button>
+            </form>
+
             {/* Status */}
             <div className="flex gap-2">
               {isListening && (
@@ -436,6 +341,35 @@ const VoiceInterface: React.FC<VoiceInterfaceProps> = ({
                 <p className="text-sm">
                   <strong>You said:</strong> {transcript}
                 </p>
+                {lastCommand?.text === transcript && (
+                  <div className="flex gap-2 mt-2">
+                    <Badge variant="outline">{lastCommand.intent}</Badge>
+                    <Badge variant={lastCommand.confidence < LOW_CONFIDENCE ? 'destructive' : 'secondary'}>
+                      {Math.round(lastCommand.confidence * 100)}% confident
+                    </Badge>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Search being put together over several turns */}
+            {dialogue.stage !== 'idle' && dialogue.stage !== 'reading-results' && (
+              <div className="p-3 border rounded-lg text-sm flex items-start gap-2">
+                <Plane className="h-4 w-4 mt-0.5 text-primary" />
+                <span>{describeDraft(dialogue.draft, { now: now(), locale: dateLocale })}</span>
+              </div>
+            )}
+
+            {/* Results being read out */}
+            {dialogue.results && (
+              <div className="p-3 border rounded-lg text-sm flex items-start gap-2">
+                <ListOrdered className="h-4 w-4 mt-0.5 text-primary" />
+                <span>
+                  Reading options {dialogue.results.offset + 1} to{' '}
+                  {Math.min(dialogue.results.offset + (resultsPerPage ?? RESULTS_PER_PAGE), dialogue.results.itineraries.length)}{' '}
+                  of {dialogue.results.itineraries.length}. Say "next", "repeat", "tell me more about option two", "cheapest one"
+                  or "book the first one".
+                </span>
               </div>
             )}
 
@@ -456,23 +390,23 @@ const VoiceInterface: React.FC<VoiceInterfaceProps> = ({
       </Card>
 
       {/* Conversation History */}
-      {conversation.length > 0 && (
+      {dialogue.turns.length > 0 && (
         <Card>
           <CardHeader>
             <CardTitle className="text-lg">Conversation History</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-3 max-h-60 overflow-y-auto">
-              {conversation.slice(-5).map((item, index) => (
-                <div key={index} className={`flex ${item.type === 'user' ? 'justify-end' : 'justify-start'}`}>
+              {dialogue.turns.slice(-6).map((turn, index) => (
+                <div key={index} className={`flex ${turn.speaker === 'user' ? 'justify-end' : 'justify-start'}`}>
                   <div className={`max-w-[80%] p-3 rounded-lg ${
-                    item.type === 'user' 
+                    turn.speaker === 'user' 
                       ? 'bg-primary text-primary-foreground' 
                       : 'bg-muted'
                   }`}>
-                    <p className="text-sm">{item.message}</p>
+                    <p className="text-sm">{turn.text}</p>
                     <p className="text-xs opacity-70 mt-1">
-                      {item.timestamp.toLocaleTimeString()}
+                      {new Date(turn.at).toLocaleTimeString()}
                     </p>
                   </div>
                 </div>
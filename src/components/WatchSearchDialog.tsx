@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BellPlus, BellRing } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useFareWatches } from '@/hooks/use-fare-watch';
+import type { SearchCriteria } from '@/lib/flight-search';
+import { describeWatchedSearch, FARE_WATCH_INTERVALS } from '@/lib/fare-watch';
+import { searchCriteriaKey } from '@/lib/search-params';
+
+interface WatchSearchDialogProps {
+  criteria: SearchCriteria;
+  // Lowest fare currently shown, used to suggest a target
+  lowestPrice?: number | null;
+}
+
+const DEFAULT_DROP_PERCENT = 10;
+
+const parseOptionalNumber = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+// "Watch this search": saves the criteria with alert thresholds and a re-check interval
+const WatchSearchDialog: React.FC<WatchSearchDialogProps> = ({ criteria, lowestPrice }) => {
+  const { toast } = useToast();
+  const { watches, addWatch } = useFareWatches();
+  const [open, setOpen] = useState(false);
+  const [targetPrice, setTargetPrice] = useState('');
+  const [dropPercent, setDropPercent] = useState(String(DEFAULT_DROP_PERCENT));
+  const [intervalMinutes, setIntervalMinutes] = useState(String(FARE_WATCH_INTERVALS[0].minutes));
+
+  const key = searchCriteriaKey(criteria);
+  const alreadyWatched = watches.some(watch => searchCriteriaKey(watch.criteria) === key);
+
+  const openDialog = (next: boolean) => {
+    // Suggest a target 10% under what the search shows now
+    if (next && lowestPrice) setTargetPrice(String(Math.floor(lowestPrice * 0.9)));
+    setOpen(next);
+  };
+
+  const save = () => {
+    const target = parseOptionalNumber(targetPrice);
+    const drop = parseOptionalNumber(dropPercent);
+    if (target === null && drop === null) {
+      toast({ title: 'Nothing to watch for', description: 'Set a target price, a percentage drop, or both.', variant: 'destructive' });
+      return;
+    }
+    addWatch(criteria, { intervalMinutes: parseInt(intervalMinutes, 10), targetPrice: target, dropPercent: drop === null ? null : Math.min(drop, 99) });
+    toast({ title: 'Watching fares', description: `${describeWatchedSearch(criteria)} will be re-checked while the app is open.` });
+    setOpen(false);
+  };
+
+  if (alreadyWatched) {
+    return (
+      <Button variant="outline" className="w-full" disabled>
+        <BellRing className="h-4 w-4 mr-2" />
+        Watching this search
+      </Button>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={openDialog}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full">
+          <BellPlus className="h-4 w-4 mr-2" />
+          Watch this search
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Watch fares</DialogTitle>
+          <DialogDescription>{describeWatchedSearch(criteria)}</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="watchTarget">Alert when the lowest fare is at or under ($)</Label>
+            <Input id="watchTarget" type="number" min={1} value={targetPrice} onChange={(e) => setTargetPrice(e.target.value)} placeholder="No target" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="watchDrop">Alert when it drops by (%)</Label>
+            <Input id="watchDrop" type="number" min={1} max={99} value={dropPercent} onChange={(e) => setDropPercent(e.target.value)} placeholder="No drop alert" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="watchInterval">Check</Label>
+            <Select value={intervalMinutes} onValueChange={setIntervalMinutes}>
+              <SelectTrigger id="watchInterval">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FARE_WATCH_INTERVALS.map(option => (
+                  <SelectItem key={option.minutes} value={String(option.minutes)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={save}>Watch</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WatchSearchDialog;
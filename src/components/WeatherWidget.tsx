@@ -18,23 +18,17 @@ import {
   Volume2
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import axios from 'axios';
-
-interface WeatherData {
-  location: string;
-  temperature: number;
-  description: string;
-  humidity: number;
-  windSpeed: number;
-  windDirection: number;
-  visibility: number;
-  pressure: number;
-  cloudCover: number;
-  conditions: 'clear' | 'cloudy' | 'rainy' | 'stormy' | 'foggy';
-  flightSafety: 'excellent' | 'good' | 'caution' | 'poor' | 'dangerous';
-  alerts: string[];
-  timestamp: Date;
-}
+import { useCommandHandler } from '@/hooks/use-command-bus';
+import { useLatest } from '@/hooks/use-latest';
+import { getAirportRepository } from '@/lib/airports';
+import {
+  decodeWeatherReports,
+  findNearestStation,
+  getDefaultWeatherSource,
+  toStationId,
+  type WeatherData,
+  type WeatherSource
+} from '@/lib/weather-source';
 
 interface FlightConditions {
   visibility: 'excellent' | 'good' | 'limited' | 'poor';
@@ -45,13 +39,30 @@ interface FlightConditions {
 
 interface WeatherWidgetProps {
   location?: string;
+  source?: WeatherSource;
   autoUpdate?: boolean;
   showFlightAnalysis?: boolean;
   onWeatherUpdate?: (weather: WeatherData) => void;
 }
 
+const defaultWeatherSource = getDefaultWeatherSource();
+
+// A short spoken summary, for reports asked for on the command bus
+const describeWeather = (weather: WeatherData): string =>
+  `${weather.location}: ${weather.description}, ${weather.temperature} degrees, ` +
+  `wind ${weather.windSpeed} kilometers per hour${weather.windGust ? ` gusting ${weather.windGust}` : ''}. ` +
+  `${weather.flightCategory ? `${weather.flightCategory} conditions, ` : ''}${weather.flightSafety} for flying.` +
+  `${weather.alerts.length > 0 ? ` ${weather.alerts.join('. ')}.` : ''}`;
+
+// The current position, or null when it's unavailable or refused
+const currentPosition = (): Promise<GeolocationPosition | null> => new Promise(resolve => {
+  if (!navigator.geolocation) resolve(null);
+  else navigator.geolocation.getCurrentPosition(resolve, () => resolve(null));
+});
+
 const WeatherWidget: React.FC<WeatherWidgetProps> = ({
   location: initialLocation,
+  source = defaultWeatherSource,
   autoUpdate = true,
   showFlightAnalysis = true,
   onWeatherUpdate
@@ -90,152 +101,109 @@ const WeatherWidget: React.FC<WeatherWidgetProps> = ({
     }
   };
 
-  // Fetch weather by coordinates
-  const fetchWeatherByCoords = async (lat: number, lon: number) => {
+  // Decode the station's latest METAR/TAF and update the display
+  const loadStationWeather = async (station: string, label?: string, announce = true): Promise<WeatherData> => {
+    const reports = await source.getReports(station);
+    if (!reports) {
+      throw new Error(`No weather report available for ${station.toUpperCase()}`);
+    }
+
+    const weatherData = decodeWeatherReports(reports, label);
+    setWeather(weatherData);
+    setFlightConditions(analyzeFlightConditions(weatherData));
+    setLastUpdate(new Date());
+    onWeatherUpdate?.(weatherData);
+
+    // Voice announcement
+    if (announce) announceWeather(weatherData);
+    return weatherData;
+  };
+
+  // Fetch weather from the reporting station nearest to the coordinates
+  const fetchWeatherByCoords = async (lat: number, lon: number, announce = true): Promise<WeatherData | null> => {
     setIsLoading(true);
     setError(null);
 
     try {
-      // Mock API call - in production, use real weather API like OpenWeatherMap
-      const mockWeatherData = generateMockWeather(`${lat.toFixed(2)}, ${lon.toFixed(2)}`);
-      
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      setWeather(mockWeatherData);
-      setFlightConditions(analyzeFlightConditions(mockWeatherData));
-      setLastUpdate(new Date());
-      onWeatherUpdate?.(mockWeatherData);
-
-      // Voice announcement
-      announceWeather(mockWeatherData);
-
+      const station = findNearestStation(lat, lon, await source.listStations());
+      if (!station) {
+        throw new Error(`No reporting station near ${lat.toFixed(2)}, ${lon.toFixed(2)}`);
+      }
+      setLocation(station);
+      return await loadStationWeather(station, `${station} (nearest to ${lat.toFixed(2)}, ${lon.toFixed(2)})`, announce);
     } catch (err) {
-      setError('Failed to fetch weather data');
+      const message = err instanceof Error ? err.message : 'Failed to fetch weather data';
+      setError(message);
       toast({
         title: "Weather Error",
-        description: "Unable to fetch weather data. Using mock data.",
+        description: message,
         variant: "destructive"
       });
+      return null;
     } finally {
       setIsLoading(false);
     }
   };
 
-  // Fetch weather by location name
-  const fetchWeatherByLocation = async (locationName: string) => {
+  // Fetch weather by airport code (ICAO or IATA) or city name
+  const fetchWeatherByLocation = async (locationName: string, announce = true): Promise<WeatherData | null> => {
     if (!locationName.trim()) {
       toast({
         title: "Invalid Location",
-        description: "Please enter a valid location name.",
+        description: "Please enter an airport code or city name.",
         variant: "destructive"
       });
-      return;
+      return null;
     }
 
     setIsLoading(true);
     setError(null);
 
     try {
-      // Mock API call - in production, use real weather API
-      const mockWeatherData = generateMockWeather(locationName);
-      
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      setWeather(mockWeatherData);
-      setFlightConditions(analyzeFlightConditions(mockWeatherData));
-      setLastUpdate(new Date());
-      onWeatherUpdate?.(mockWeatherData);
-
-      // Voice announcement
-      announceWeather(mockWeatherData);
-
+      return await loadStationWeather(locationName, undefined, announce);
     } catch (err) {
-      setError('Failed to fetch weather data');
+      const message = err instanceof Error ? err.message : 'Failed to fetch weather data';
+      setError(message);
       toast({
         title: "Weather Error",
         description: "Unable to fetch weather data for " + locationName,
         variant: "destructive"
       });
+      return null;
     } finally {
       setIsLoading(false);
     }
   };
 
-  // Generate mock weather data (replace with real API in production)
-  const generateMockWeather = (locationName: string): WeatherData => {
-    const conditions = ['clear', 'cloudy', 'rainy', 'stormy', 'foggy'] as const;
-    const randomCondition = conditions[Math.floor(Math.random() * conditions.length)];
-    
-    const temperature = Math.floor(Math.random() * 40) - 5; // -5 to 35°C
-    const windSpeed = Math.floor(Math.random() * 50); // 0-50 km/h
-    const visibility = Math.floor(Math.random() * 20) + 1; // 1-20 km
-    
-    const alerts: string[] = [];
-    let flightSafety: WeatherData['flightSafety'] = 'excellent';
-    
-    if (randomCondition === 'stormy') {
-      alerts.push('Thunderstorm Warning');
-      flightSafety = 'dangerous';
-    } else if (randomCondition === 'foggy' || visibility < 5) {
-      alerts.push('Low Visibility Warning');
-      flightSafety = 'poor';
-    } else if (windSpeed > 30) {
-      alerts.push('High Wind Warning');
-      flightSafety = 'caution';
-    } else if (randomCondition === 'rainy') {
-      flightSafety = 'good';
-    }
-
-    return {
-      location: locationName,
-      temperature,
-      description: getWeatherDescription(randomCondition),
-      humidity: Math.floor(Math.random() * 80) + 20,
-      windSpeed,
-      windDirection: Math.floor(Math.random() * 360),
-      visibility,
-      pressure: Math.floor(Math.random() * 100) + 950,
-      cloudCover: Math.floor(Math.random() * 100),
-      conditions: randomCondition,
-      flightSafety,
-      alerts,
-      timestamp: new Date()
-    };
-  };
-
-  const getWeatherDescription = (condition: string): string => {
-    const descriptions = {
-      clear: 'Clear skies',
-      cloudy: 'Partly cloudy',
-      rainy: 'Light rain',
-      stormy: 'Thunderstorms',
-      foggy: 'Foggy conditions'
-    };
-    return descriptions[condition as keyof typeof descriptions] || 'Unknown';
-  };
-
   const analyzeFlightConditions = (weather: WeatherData): FlightConditions => {
+    const { metar } = weather;
+    const codes = metar.weather.flatMap(w => [w.descriptor, ...w.phenomena]);
+    const windKt = metar.wind?.speedKt ?? 0;
+    const gustKt = metar.wind?.gustKt ?? windKt;
+    const visibilitySm = metar.visibilitySm ?? 10;
+    const precipitation = codes.some(code => ['DZ', 'RA', 'SN', 'SG', 'PL', 'GR', 'GS', 'IC', 'UP'].includes(code));
+    const visibleMoisture = precipitation || metar.ceilingFt !== null ||
+      (weather.dewpoint !== null && weather.temperature - weather.dewpoint <= 3);
+
     let visibility: FlightConditions['visibility'] = 'excellent';
     let turbulence: FlightConditions['turbulence'] = 'none';
     let icing: FlightConditions['icing'] = 'none';
     
-    // Analyze visibility
-    if (weather.visibility < 3) visibility = 'poor';
-    else if (weather.visibility < 8) visibility = 'limited';
-    else if (weather.visibility < 15) visibility = 'good';
+    // Analyze visibility (statute miles, flight category thresholds)
+    if (visibilitySm < 1) visibility = 'poor';
+    else if (visibilitySm < 3) visibility = 'limited';
+    else if (visibilitySm <= 5) visibility = 'good';
     
-    // Analyze turbulence
-    if (weather.windSpeed > 40) turbulence = 'severe';
-    else if (weather.windSpeed > 25) turbulence = 'moderate';
-    else if (weather.windSpeed > 15) turbulence = 'light';
+    // Analyze turbulence from sustained wind, gusts and convective activity
+    if (codes.includes('TS') || windKt >= 30 || gustKt >= 40) turbulence = 'severe';
+    else if (windKt >= 20 || gustKt >= 28) turbulence = 'moderate';
+    else if (windKt >= 12 || gustKt - windKt >= 10) turbulence = 'light';
     
-    // Analyze icing conditions
-    if (weather.temperature < 0 && weather.humidity > 80) {
-      icing = weather.temperature < -10 ? 'severe' : 'moderate';
-    } else if (weather.temperature < 5 && weather.humidity > 90) {
-      icing = 'light';
+    // Analyze icing: freezing precipitation, or visible moisture near/below freezing
+    if (codes.includes('FZ')) {
+      icing = 'severe';
+    } else if (visibleMoisture && weather.temperature <= 2 && weather.temperature >= -20) {
+      icing = precipitation || weather.temperature <= -10 ? 'moderate' : 'light';
     }
 
     let recommendation = '';
@@ -248,6 +216,9 @@ const WeatherWidget: React.FC<WeatherWidgetProps> = ({
     } else {
       recommendation = 'Good conditions for flight operations.';
     }
+    if (weather.flightCategory && weather.flightCategory !== 'VFR') {
+      recommendation += ` ${weather.flightCategory} conditions reported${weather.ceiling !== null ? `, ceiling ${weather.ceiling} ft` : ''}.`;
+    }
 
     return { visibility, turbulence, icing, recommendation };
   };
@@ -257,7 +228,8 @@ const WeatherWidget: React.FC<WeatherWidgetProps> = ({
       const announcement = `Weather update for ${weatherData.location}. 
         Temperature ${weatherData.temperature} degrees celsius. 
         ${weatherData.description}. 
-        Wind ${weatherData.windSpeed} kilometers per hour. 
+        Wind ${weatherData.windDirection !== null ? `from ${weatherData.windDirection} degrees at ` : ''}${weatherData.windSpeed} kilometers per hour${weatherData.windGust ? `, gusting ${weatherData.windGust}` : ''}. 
+        ${weatherData.ceiling !== null ? `Ceiling ${weatherData.ceiling} feet. ` : ''}
         Visibility ${weatherData.visibility} kilometers. 
         Flight safety assessment: ${weatherData.flightSafety}.
         ${weatherData.alerts.length > 0 ? 'Weather alerts: ' + weatherData.alerts.join(', ') : ''}`;
@@ -290,6 +262,30 @@ const WeatherWidget: React.FC<WeatherWidgetProps> = ({
     }
   };
 
+  // Load a station handed in from outside (e.g. /weather/KJFK) unless it's already showing
+  const latest = useLatest({ weather, fetchWeatherByLocation });
+  useEffect(() => {
+    const shown = latest.current.weather;
+    if (!initialLocation || (shown && toStationId(initialLocation) === shown.station)) return;
+    setLocation(initialLocation);
+    latest.current.fetchWeatherByLocation(initialLocation);
+  }, [initialLocation, latest]);
+
+  // Reports asked for on the command bus are summed up for the sender instead of announced here.
+  // Airports are looked up by their ICAO station; anything else is tried as typed
+  useCommandHandler('weather', async ({ location: code }) => {
+    if (!code) {
+      const position = await currentPosition();
+      if (!position) return { ok: false, message: "I couldn't get your position to check the weather there. Try naming an airport." };
+      const report = await fetchWeatherByCoords(position.coords.latitude, position.coords.longitude, false);
+      return report ? { ok: true, message: describeWeather(report) } : { ok: false, message: "I couldn't find a weather report near you." };
+    }
+    const station = getAirportRepository().getByCode(code)?.icao ?? code;
+    setLocation(station);
+    const report = await fetchWeatherByLocation(station, false);
+    return report ? { ok: true, message: describeWeather(report) } : { ok: false, message: `I couldn't get a weather report for ${code}.` };
+  });
+
   // Auto-update effect
   useEffect(() => {
     if (autoUpdate && weather) {
@@ -323,7 +319,7 @@ const WeatherWidget: React.FC<WeatherWidgetProps> = ({
                 <Label htmlFor="location-input">Location</Label>
                 <Input
                   id="location-input"
-                  placeholder="Enter city or airport code"
+                  placeholder="Enter airport code or city (e.g. KJFK, London)"
                   value={location}
                   onChange={(e) => setLocation(e.target.value)}
                   onKeyDown={(e) => {
@@ -388,9 +384,14 @@ const WeatherWidget: React.FC<WeatherWidgetProps> = ({
                   </div>
                   <div className="text-right">
                     <p className="text-3xl font-bold">{weather.temperature}°C</p>
-                    <Badge variant={getSafetyBadgeVariant(weather.flightSafety)}>
-                      {weather.flightSafety} conditions
-                    </Badge>
+                    <div className="flex gap-1 justify-end">
+                      {weather.flightCategory && (
+                        <Badge variant="outline" className="font-mono">{weather.flightCategory}</Badge>
+                      )}
+                      <Badge variant={getSafetyBadgeVariant(weather.flightSafety)}>
+                        {weather.flightSafety} conditions
+                      </Badge>
+                    </div>
                   </div>
                 </div>
 
@@ -398,8 +399,12 @@ const WeatherWidget: React.FC<WeatherWidgetProps> = ({
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                   <div className="text-center">
                     <Wind className="h-4 w-4 mx-auto mb-1 text-muted-foreground" />
-                    <p className="text-sm font-semibold">{weather.windSpeed} km/h</p>
-                    <p className="text-xs text-muted-foreground">Wind Speed</p>
+                    <p className="text-sm font-semibold">
+                      {weather.windSpeed} km/h{weather.windGust ? ` G${weather.windGust}` : ''}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Wind {weather.windDirection !== null ? `${weather.windDirection.toString().padStart(3, '0')}°` : 'VRB'}
+                    </p>
                   </div>
                   <div className="text-center">
                     <Eye className="h-4 w-4 mx-auto mb-1 text-muted-foreground" />
@@ -416,6 +421,58 @@ const WeatherWidget: React.FC<WeatherWidgetProps> = ({
                     <p className="text-sm font-semibold">{weather.pressure} hPa</p>
                     <p className="text-xs text-muted-foreground">Pressure</p>
                   </div>
+                  <div className="text-center">
+                    <Cloud className="h-4 w-4 mx-auto mb-1 text-muted-foreground" />
+                    <p className="text-sm font-semibold">{weather.ceiling !== null ? `${weather.ceiling} ft` : 'None'}</p>
+                    <p className="text-xs text-muted-foreground">Ceiling</p>
+                  </div>
+                  <div className="text-center">
+                    <Plane className="h-4 w-4 mx-auto mb-1 text-muted-foreground" />
+                    <p className="text-sm font-semibold">{weather.altimeter !== null ? weather.altimeter.toFixed(2) : '—'} inHg</p>
+                    <p className="text-xs text-muted-foreground">Altimeter</p>
+                  </div>
+                  <div className="text-center">
+                    <Thermometer className="h-4 w-4 mx-auto mb-1 text-muted-foreground" />
+                    <p className="text-sm font-semibold">{weather.dewpoint !== null ? `${weather.dewpoint}°C` : '—'}</p>
+                    <p className="text-xs text-muted-foreground">Dewpoint</p>
+                  </div>
+                  <div className="text-center">
+                    <CloudRain className="h-4 w-4 mx-auto mb-1 text-muted-foreground" />
+                    <p className="text-sm font-semibold">
+                      {weather.presentWeather.length > 0 ? weather.presentWeather.join(', ') : 'None'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">Present Weather</p>
+                  </div>
+                </div>
+
+                {/* Raw reports */}
+                <div className="space-y-2">
+                  <p className="text-xs font-mono p-2 bg-muted rounded break-words">{weather.metar.raw}</p>
+                  {weather.taf && (
+                    <div className="text-xs space-y-1">
+                      <p className="font-semibold">Forecast (TAF)</p>
+                      {weather.taf.periods.map((period, index) => (
+                        <div key={index} className="flex justify-between items-center p-2 border rounded">
+                          <span className="font-mono">
+                            {period.change === 'PROB' ? `PROB${period.probability}` : period.change}{' '}
+                            {period.from?.toISOString().slice(8, 13).replace('T', ' ')}Z
+                            {period.to ? ` – ${period.to.toISOString().slice(8, 13).replace('T', ' ')}Z` : ''}
+                          </span>
+                          <span className="flex gap-1">
+                            {period.weather.map(w => (
+                              <Badge key={w.raw} variant="outline" className="font-mono">{w.raw}</Badge>
+                            ))}
+                            {period.flightCategory && (
+                              <Badge variant="secondary" className="font-mono">{period.flightCategory}</Badge>
+                            )}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {weather.tafError && (
+                    <p className="text-xs text-muted-foreground">Forecast (TAF) couldn't be decoded: {weather.tafError}</p>
+                  )}
                 </div>
 
                 {/* Alerts */}
@@ -0,0 +1,44 @@
+import { useContext, useMemo } from 'react';
+import {
+  AppStateContext,
+  routeFromCodes,
+  type LocationData
+} from '@/lib/app-state';
+import type { SearchCriteria } from '@/lib/flight-search';
+import { itineraryRoute, itineraryStops, type Itinerary } from '@/lib/itineraries';
+import type { WeatherData } from '@/lib/weather-source';
+
+export const useAppState = () => {
+  const context = useContext(AppStateContext);
+  if (!context) {
+    throw new Error('useAppState must be used within an AppStateProvider');
+  }
+  const { state, dispatch } = context;
+
+  const actions = useMemo(() => ({
+    updatePosition: (position: LocationData) => dispatch({ type: 'position/updated', position }),
+    submitSearch: (criteria: SearchCriteria) => {
+      const codes = criteria.tripType === 'multicity' && criteria.legs?.length
+        ? [criteria.legs[0].origin, ...criteria.legs.map(leg => leg.destination)]
+        : criteria.tripType === 'roundtrip'
+          ? [criteria.origin, criteria.destination, criteria.origin]
+          : [criteria.origin, criteria.destination];
+      dispatch({ type: 'search/submitted', criteria, route: routeFromCodes(codes, 'search', codes) });
+    },
+    // Draws the itinerary's own routing, connections included
+    selectFlight: (itinerary: Itinerary) => dispatch({
+      type: 'flight/selected',
+      itinerary,
+      route: routeFromCodes(itineraryRoute(itinerary), 'flight', itineraryStops(itinerary))
+    }),
+    clearFlight: () => dispatch({ type: 'flight/cleared' }),
+    setDestination: (destination: string) => {
+      const route = routeFromCodes([destination], 'voice');
+      if (route) dispatch({ type: 'route/set', route });
+      return route !== null;
+    },
+    recordWeather: (weather: WeatherData) => dispatch({ type: 'weather/loaded', station: weather.station, data: weather })
+  }), [dispatch]);
+
+  return { state, ...actions };
+};
@@ -0,0 +1,20 @@
+import { useContext, useEffect } from 'react';
+import { useLatest } from '@/hooks/use-latest';
+import { CommandBusContext, type AppCommandType, type CommandHandler } from '@/lib/command-bus';
+
+export const useCommandBus = () => {
+  const bus = useContext(CommandBusContext);
+  if (!bus) {
+    throw new Error('useCommandBus must be used within a CommandBusProvider');
+  }
+  return bus;
+};
+
+// Handles a command type while mounted, always with the latest handler so it sees current state.
+// Outside a CommandBusProvider it does nothing, so components still work on their own
+export const useCommandHandler = <T extends AppCommandType>(type: T, handler: CommandHandler<T>) => {
+  const bus = useContext(CommandBusContext);
+  const handlerRef = useLatest(handler);
+
+  useEffect(() => bus?.register(type, command => handlerRef.current(command)), [bus, type, handlerRef]);
+};
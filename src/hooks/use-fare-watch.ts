@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { FareWatchContext } from '@/lib/fare-watch';
+
+export const useFareWatches = () => {
+  const context = useContext(FareWatchContext);
+  if (!context) {
+    throw new Error('useFareWatches must be used within a FareWatchProvider');
+  }
+  return context;
+};
@@ -0,0 +1,62 @@
+import { keepPreviousData, queryOptions, useQuery } from '@tanstack/react-query';
+import {
+  getDefaultFlightSearchProvider,
+  type FlightSearchProvider,
+  type SearchCriteria
+} from '@/lib/flight-search';
+import { searchFareMatrix, supportsFareMatrix } from '@/lib/fare-matrix';
+import { getFareHistoryStore, loadFareTrends, withFareHistory } from '@/lib/fare-history';
+import { searchItineraries } from '@/lib/itineraries';
+
+// Every response is logged to the fare history on its way through
+const defaultProvider = withFareHistory(getDefaultFlightSearchProvider());
+
+export const flightSearchKeys = {
+  all: ['flight-search'] as const,
+  search: (providerId: string, criteria: SearchCriteria | null) =>
+    [...flightSearchKeys.all, providerId, criteria] as const,
+  fareMatrix: (providerId: string, criteria: SearchCriteria | null) =>
+    [...flightSearchKeys.all, providerId, 'fare-matrix', criteria] as const,
+  fareTrends: (criteria: SearchCriteria | null, updatedAt: number) =>
+    [...flightSearchKeys.all, 'fare-trends', criteria, updatedAt] as const
+};
+
+// The search as a query, for awaiting it outside a component (fetchQuery shares the cached result)
+export function flightSearchQuery(criteria: SearchCriteria | null, provider: FlightSearchProvider = defaultProvider) {
+  return queryOptions({
+    queryKey: flightSearchKeys.search(provider.id, criteria),
+    queryFn: ({ signal }) => searchItineraries(provider, criteria as SearchCriteria, signal),
+    staleTime: 5 * 60 * 1000,
+    retry: 1
+  });
+}
+
+// Runs the search only once criteria have been submitted; identical criteria hit the cache.
+// Resolves to scored itineraries, best first, whatever the trip type
+export function useFlightSearch(criteria: SearchCriteria | null, provider: FlightSearchProvider = defaultProvider) {
+  return useQuery({ ...flightSearchQuery(criteria, provider), enabled: criteria !== null });
+}
+
+// Cheapest fare for each date pair around the search; only runs when flexible dates are on.
+// The previous grid stays up while a re-centred one loads
+export function useFareMatrix(criteria: SearchCriteria | null, provider: FlightSearchProvider = defaultProvider) {
+  return useQuery({
+    queryKey: flightSearchKeys.fareMatrix(provider.id, criteria),
+    queryFn: ({ signal }) => searchFareMatrix(provider, criteria as SearchCriteria, signal),
+    enabled: supportsFareMatrix(criteria),
+    placeholderData: keepPreviousData,
+    staleTime: 5 * 60 * 1000,
+    retry: 1
+  });
+}
+
+// Logged fare history and forecast for each leg of a search. Pass the search's
+// dataUpdatedAt so the trend reloads once that search has been logged
+export function useFareTrends(criteria: SearchCriteria | null, updatedAt = 0) {
+  return useQuery({
+    queryKey: flightSearchKeys.fareTrends(criteria, updatedAt),
+    queryFn: () => loadFareTrends(getFareHistoryStore(), criteria as SearchCriteria),
+    enabled: criteria !== null,
+    placeholderData: keepPreviousData
+  });
+}
@@ -0,0 +1,8 @@
+import { useRef } from 'react';
+
+// A ref to the value from the latest render, for effects that read it but shouldn't re-run when it changes
+export const useLatest = <T>(value: T) => {
+  const ref = useRef(value);
+  ref.current = value;
+  return ref;
+};
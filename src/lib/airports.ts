@@ -0,0 +1,354 @@
+import airportsCsv from '@/data/airports.csv?raw';
+import runwaysCsv from '@/data/runways.csv?raw';
+import frequenciesCsv from '@/data/airport-frequencies.csv?raw';
+import { parseCsv, parseCsvNumber } from '@/lib/csv';
+import { haversineDistance, initialBearing, type LatLng } from '@/lib/geodesy';
+import { createSpatialIndex } from '@/lib/spatial-index';
+import { isValidTimeZone, timeZoneFromLongitude } from '@/lib/time-zones';
+
+// OurAirports `type` column; closed airports are dropped on import
+export type AirportKind =
+  | 'large_airport'
+  | 'medium_airport'
+  | 'small_airport'
+  | 'heliport'
+  | 'seaplane_base'
+  | 'balloonport';
+
+export interface RunwayRecord {
+  leIdent: string;
+  heIdent: string;
+  lengthFt: number | null;
+  widthFt: number | null;
+  surface: string;
+  lighted: boolean;
+}
+
+export interface FrequencyRecord {
+  type: string; // TWR, GND, APP, ATIS, CTAF...
+  description: string;
+  frequencyMhz: number;
+}
+
+export interface AirportRecord {
+  ident: string;
+  icao: string | null;
+  iata: string | null;
+  name: string;
+  kind: AirportKind;
+  lat: number;
+  lng: number;
+  elevationFt: number | null;
+  // IANA zone; a nautical Etc/GMT zone from the longitude when the data has none
+  timeZone: string;
+  country: string;
+  region: string;
+  municipality: string;
+  scheduledService: boolean;
+  keywords: string[];
+  runways: RunwayRecord[];
+  frequencies: FrequencyRecord[];
+}
+
+// Shape FlightMap draws and reports on selection
+export interface Airport {
+  id: string;
+  name: string;
+  code: string;
+  lat: number;
+  lng: number;
+  type: 'major' | 'regional' | 'airstrip';
+  facilities: string[];
+}
+
+// Shape LocationTracker lists, relative to the current fix
+export interface NearbyAirport {
+  id: string;
+  name: string;
+  code: string;
+  distance: number;
+  bearing: number;
+  type: 'major' | 'regional' | 'airstrip';
+  frequencies: {
+    tower?: string;
+    ground?: string;
+    approach?: string;
+  };
+  runways: Array<{
+    number: string;
+    length: number;
+    surface: string;
+  }>;
+}
+
+export interface AirportMatch {
+  airport: AirportRecord;
+  score: number; // 0..1
+}
+
+export interface AirportSearchOptions {
+  limit?: number;
+  kinds?: AirportKind[];
+}
+
+export interface NearestAirportOptions {
+  maxDistanceKm?: number;
+  kinds?: AirportKind[];
+}
+
+export interface AirportRepository {
+  all: () => AirportRecord[];
+  getByIcao: (code: string) => AirportRecord | undefined;
+  getByIata: (code: string) => AirportRecord | undefined;
+  // ICAO or IATA, whichever the code looks like
+  getByCode: (code: string) => AirportRecord | undefined;
+  // Whole value as a code, then any embedded code ("New York (JFK)"), then the best fuzzy match
+  resolve: (value: string) => AirportRecord | undefined;
+  search: (query: string, options?: AirportSearchOptions) => AirportMatch[];
+  nearest: (point: LatLng, k?: number, options?: NearestAirportOptions) => Array<{ airport: AirportRecord; distance: number }>;
+}
+
+const groupByAirport = <T>(rows: Record<string, string>[], map: (row: Record<string, string>) => T | null) => {
+  const groups = new Map<string, T[]>();
+  rows.forEach(row => {
+    const value = map(row);
+    if (!value) return;
+    const ident = row.airport_ident;
+    groups.set(ident, [...(groups.get(ident) ?? []), value]);
+  });
+  return groups;
+};
+
+/**
+ * Builds airport records from OurAirports exports (airports.csv, runways.csv,
+ * airport-frequencies.csv). Columns are matched by header name, so a full
+ * export and a trimmed one both work. OurAirports has no time zones; an extra
+ * `timezone` column supplies them.
+ */
+export const parseAirports = (airports: string, runways = '', frequencies = ''): AirportRecord[] => {
+  const runwaysByAirport = groupByAirport<RunwayRecord>(parseCsv(runways), row =>
+    row.closed === '1' ? null : {
+      leIdent: row.le_ident,
+      heIdent: row.he_ident,
+      lengthFt: parseCsvNumber(row.length_ft),
+      widthFt: parseCsvNumber(row.width_ft),
+      surface: row.surface,
+      lighted: row.lighted === '1'
+    });
+  const frequenciesByAirport = groupByAirport<FrequencyRecord>(parseCsv(frequencies), row => {
+    const frequencyMhz = parseCsvNumber(row.frequency_mhz);
+    return frequencyMhz === null ? null : { type: row.type.toUpperCase(), description: row.description, frequencyMhz };
+  });
+
+  return parseCsv(airports).flatMap(row => {
+    const lat = parseCsvNumber(row.latitude_deg);
+    const lng = parseCsvNumber(row.longitude_deg);
+    if (row.type === 'closed' || lat === null || lng === null) return [];
+    const icao = [row.ident, row.gps_code].find(code => /^[A-Z]{4}$/.test(code)) ?? null;
+
+    return [{
+      ident: row.ident,
+      icao,
+      iata: /^[A-Z]{3}$/.test(row.iata_code) ? row.iata_code : null,
+      name: row.name,
+      kind: row.type as AirportKind,
+      lat,
+      lng,
+      elevationFt: parseCsvNumber(row.elevation_ft),
+      timeZone: row.timezone && isValidTimeZone(row.timezone) ? row.timezone : timeZoneFromLongitude(lng),
+      country: row.iso_country,
+      region: row.iso_region,
+      municipality: row.municipality,
+      scheduledService: row.scheduled_service === 'yes',
+      keywords: row.keywords ? row.keywords.split(',').map(k => k.trim()).filter(Boolean) : [],
+      runways: runwaysByAirport.get(row.ident) ?? [],
+      frequencies: frequenciesByAirport.get(row.ident) ?? []
+    }];
+  });
+};
+
+// Case, accent and punctuation insensitive form used for matching
+export const normalizeSearchText = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const KIND_BOOST: Partial<Record<AirportKind, number>> = {
+  large_airport: 0.02,
+  medium_airport: 0.01
+};
+
+interface SearchEntry {
+  airport: AirportRecord;
+  codes: string[];
+  primary: string[]; // name and municipality
+  keywords: string[];
+  tokens: string[];
+}
+
+const toSearchEntry = (airport: AirportRecord): SearchEntry => {
+  const primary = [airport.name, airport.municipality].map(normalizeSearchText).filter(Boolean);
+  const keywords = airport.keywords.map(normalizeSearchText).filter(Boolean);
+  return {
+    airport,
+    codes: [airport.iata, airport.icao, airport.ident].filter(Boolean).map(code => code.toLowerCase()),
+    primary,
+    keywords,
+    tokens: [...new Set([...primary, ...keywords].flatMap(field => field.split(' ')))]
+  };
+};
+
+// Tiered so exact codes beat names, names beat keywords, prefixes beat substrings and typos come last
+const scoreEntry = (entry: SearchEntry, query: string, queryTokens: string[]): number => {
+  if (entry.codes.includes(query)) return 1;
+  if (entry.primary.includes(query)) return 0.95;
+  if (entry.keywords.includes(query)) return 0.9;
+  if (entry.primary.some(field => field.startsWith(query))) return 0.85;
+  if (entry.keywords.some(field => field.startsWith(query))) return 0.8;
+  if (queryTokens.every(token => entry.tokens.some(t => t.startsWith(token)))) return 0.75;
+  if ([...entry.primary, ...entry.keywords].some(field => field.includes(query))) return 0.65;
+
+  const similarity = queryTokens.reduce((sum, token) => {
+    const best = entry.tokens.reduce((max, candidate) => {
+      const length = Math.max(token.length, candidate.length);
+      return Math.max(max, 1 - editDistance(token, candidate) / length);
+    }, 0);
+    return sum + best;
+  }, 0) / queryTokens.length;
+  return similarity >= 0.7 ? 0.6 * similarity : 0;
+};
+
+export const createAirportRepository = (records: AirportRecord[]): AirportRepository => {
+  const byIcao = new Map<string, AirportRecord>();
+  const byIata = new Map<string, AirportRecord>();
+  records.forEach(airport => {
+    if (airport.icao) byIcao.set(airport.icao, airport);
+    byIcao.set(airport.ident, airport);
+    if (airport.iata) byIata.set(airport.iata, airport);
+  });
+  const entries = records.map(toSearchEntry);
+  const index = createSpatialIndex(records, airport => [airport.lat, airport.lng]);
+
+  const getByCode = (code: string) => {
+    const upper = code.trim().toUpperCase();
+    return upper.length === 3 ? byIata.get(upper) : byIcao.get(upper);
+  };
+
+  const search = (query: string, options: AirportSearchOptions = {}): AirportMatch[] => {
+    const normalized = normalizeSearchText(query);
+    if (!normalized) return [];
+    const queryTokens = normalized.split(' ');
+    return entries
+      .filter(entry => !options.kinds || options.kinds.includes(entry.airport.kind))
+      .map(entry => {
+        const score = scoreEntry(entry, normalized, queryTokens);
+        return { airport: entry.airport, score: score > 0 ? Math.min(1, score + (KIND_BOOST[entry.airport.kind] ?? 0)) : 0 };
+      })
+      .filter(match => match.score > 0)
+      .sort((a, b) => b.score - a.score || a.airport.name.localeCompare(b.airport.name))
+      .slice(0, options.limit ?? 10);
+  };
+
+  return {
+    all: () => records,
+    getByIcao: code => byIcao.get(code.trim().toUpperCase()),
+    getByIata: code => byIata.get(code.trim().toUpperCase()),
+    getByCode,
+    resolve: value => getByCode(value)
+      ?? (value.match(/\b[A-Z]{3,4}\b/g) ?? []).map(getByCode).find(Boolean)
+      ?? search(value, { limit: 1 })[0]?.airport,
+    search,
+    nearest: (point, k = 5, options = {}) =>
+      index.nearest(point, k, {
+        maxDistanceKm: options.maxDistanceKm,
+        filter: options.kinds ? airport => options.kinds.includes(airport.kind) : undefined
+      }).map(({ item, distance }) => ({ airport: item, distance }))
+  };
+};
+
+let bundledRepository: AirportRepository | null = null;
+
+// Parsed on first use from the CSVs bundled under src/data
+export const getAirportRepository = (): AirportRepository => {
+  bundledRepository ??= createAirportRepository(parseAirports(airportsCsv, runwaysCsv, frequenciesCsv));
+  return bundledRepository;
+};
+
+const SURFACE_LABELS: Array<[RegExp, string]> = [
+  [/^(ASP|ASPH|BIT)/i, 'Asphalt'],
+  [/^(CON|PEM)/i, 'Concrete'],
+  [/^(TURF|GRS|GRASS)/i, 'Grass'],
+  [/^(GRE|GRV|GRAVEL)/i, 'Gravel'],
+  [/^(WATER|WAT)/i, 'Water']
+];
+
+const describeSurface = (surface: string): string =>
+  SURFACE_LABELS.find(([pattern]) => pattern.test(surface))?.[1] ?? (surface || 'Unknown');
+
+export const toAirportType = (kind: AirportKind): Airport['type'] =>
+  kind === 'large_airport' ? 'major' : kind === 'medium_airport' ? 'regional' : 'airstrip';
+
+// 119.1 -> "119.1", 128.725 -> "128.725", 135 -> "135.0"
+export const formatFrequency = (mhz: number): string => {
+  const text = String(Number(mhz.toFixed(3)));
+  return text.includes('.') ? text : mhz.toFixed(1);
+};
+
+const findFrequency = (airport: AirportRecord, ...types: string[]) => {
+  const match = airport.frequencies.find(f => types.includes(f.type));
+  return match ? formatFrequency(match.frequencyMhz) : undefined;
+};
+
+export const toAirport = (airport: AirportRecord): Airport => {
+  const types = new Set(airport.frequencies.map(f => f.type));
+  const longest = Math.max(0, ...airport.runways.map(r => r.lengthFt ?? 0));
+  const facilities = [
+    types.has('TWR') && 'Control Tower',
+    (types.has('APP') || types.has('DEP')) && 'Approach Control',
+    types.has('ATIS') && 'ATIS',
+    types.has('CTAF') && !types.has('TWR') && 'CTAF',
+    airport.scheduledService && 'Scheduled Service',
+    longest > 0 && `Longest Runway ${longest.toLocaleString()} ft`
+  ].filter((facility): facility is string => Boolean(facility));
+
+  return {
+    id: airport.ident,
+    name: airport.name,
+    code: airport.iata ?? airport.ident,
+    lat: airport.lat,
+    lng: airport.lng,
+    type: toAirportType(airport.kind),
+    facilities
+  };
+};
+
+export const toNearbyAirport = (airport: AirportRecord, from: LatLng): NearbyAirport => ({
+  id: airport.ident,
+  name: airport.name,
+  code: airport.icao ?? airport.ident,
+  distance: haversineDistance(from, [airport.lat, airport.lng]),
+  bearing: initialBearing(from, [airport.lat, airport.lng]),
+  type: toAirportType(airport.kind),
+  frequencies: {
+    tower: findFrequency(airport, 'TWR', 'CTAF', 'UNIC'),
+    ground: findFrequency(airport, 'GND'),
+    approach: findFrequency(airport, 'APP', 'DEP')
+  },
+  runways: [...airport.runways]
+    .sort((a, b) => (b.lengthFt ?? 0) - (a.lengthFt ?? 0))
+    .map(runway => ({
+      number: `${runway.leIdent}/${runway.heIdent}`,
+      length: Math.round((runway.lengthFt ?? 0) * 0.3048),
+      surface: describeSurface(runway.surface)
+    }))
+});
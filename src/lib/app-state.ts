@@ -0,0 +1,126 @@
+import { createContext, type Dispatch } from 'react';
+import { getAirportRepository } from '@/lib/airports';
+import type { SearchCriteria } from '@/lib/flight-search';
+import type { Itinerary } from '@/lib/itineraries';
+import type { LatLng } from '@/lib/geodesy';
+import { resolvePlace, type Place } from '@/lib/places';
+import type { WindVector } from '@/lib/route-planning';
+import type { WeatherData } from '@/lib/weather-source';
+
+export interface LocationData {
+  latitude: number;
+  longitude: number;
+  altitude?: number; // meters
+  heading?: number;
+  speed?: number;
+  accuracy: number;
+  timestamp: Date;
+}
+
+// Origin, any connections, destination. A single place means "destination only"
+export interface ActiveRoute {
+  source: 'search' | 'flight' | 'voice';
+  places: Place[];
+  // Where the trip actually stops (round trip: out and back); defaults to the first and last place
+  stops?: Place[];
+}
+
+export interface WeatherEntry {
+  status: 'loading' | 'ready' | 'error';
+  data: WeatherData | null;
+  error: string | null;
+  updatedAt: number | null;
+}
+
+export interface AppState {
+  position: LocationData | null;
+  searchCriteria: SearchCriteria | null;
+  selectedItinerary: Itinerary | null;
+  route: ActiveRoute | null;
+  // Keyed by ICAO reporting station
+  weather: Record<string, WeatherEntry>;
+}
+
+export type AppAction =
+  | { type: 'position/updated'; position: LocationData }
+  | { type: 'search/submitted'; criteria: SearchCriteria; route: ActiveRoute | null }
+  | { type: 'flight/selected'; itinerary: Itinerary; route: ActiveRoute | null }
+  | { type: 'flight/cleared' }
+  | { type: 'route/set'; route: ActiveRoute | null }
+  | { type: 'weather/requested'; station: string }
+  | { type: 'weather/loaded'; station: string; data: WeatherData }
+  | { type: 'weather/failed'; station: string; error: string };
+
+export const initialAppState: AppState = {
+  position: null,
+  searchCriteria: null,
+  selectedItinerary: null,
+  route: null,
+  weather: {}
+};
+
+const setWeather = (state: AppState, station: string, entry: Partial<WeatherEntry>): AppState => ({
+  ...state,
+  weather: {
+    ...state.weather,
+    [station]: { status: 'loading', data: null, error: null, updatedAt: null, ...state.weather[station], ...entry }
+  }
+});
+
+export const appReducer = (state: AppState, action: AppAction): AppState => {
+  switch (action.type) {
+    case 'position/updated':
+      return { ...state, position: action.position };
+    case 'search/submitted':
+      return { ...state, searchCriteria: action.criteria, selectedItinerary: null, route: action.route ?? state.route };
+    case 'flight/selected':
+      return { ...state, selectedItinerary: action.itinerary, route: action.route ?? state.route };
+    case 'flight/cleared':
+      return { ...state, selectedItinerary: null };
+    case 'route/set':
+      return { ...state, route: action.route };
+    case 'weather/requested':
+      // Keep showing the previous report while a refresh is in flight
+      return setWeather(state, action.station, { status: 'loading', error: null });
+    case 'weather/loaded':
+      return setWeather(state, action.station, { status: 'ready', data: action.data, error: null, updatedAt: Date.now() });
+    case 'weather/failed':
+      return setWeather(state, action.station, { status: 'error', error: action.error });
+    default:
+      return state;
+  }
+};
+
+/**
+ * Builds a route from airport/metro codes or free text. Returns null unless
+ * every entry resolves, so a half-known route never replaces a good one.
+ */
+export const routeFromCodes = (codes: string[], source: ActiveRoute['source'], stopCodes?: string[]): ActiveRoute | null => {
+  const places = codes.map(resolvePlace);
+  if (places.length === 0 || places.some(place => !place)) return null;
+  const stops = stopCodes?.map(resolvePlace).filter(Boolean);
+  return stops?.length ? { source, places, stops } : { source, places };
+};
+
+export const routePoints = (route: ActiveRoute | null): LatLng[] =>
+  route ? route.places.map(place => [place.lat, place.lng] as LatLng) : [];
+
+// ICAO stations for each stop (first and last place by default); a metro area reports from its first airport
+export const routeEndStations = (route: ActiveRoute | null): string[] => {
+  if (!route) return [];
+  const ends = route.stops ?? (route.places.length > 1 ? [route.places[0], route.places[route.places.length - 1]] : route.places);
+  const stations = ends
+    .map(place => getAirportRepository().getByCode(place.airportCodes[0] ?? place.code)?.icao)
+    .filter(Boolean);
+  return [...new Set(stations)];
+};
+
+// Surface wind in the departure station's latest report; null for a destination-only route, no report yet or variable wind
+export const departureWind = (route: ActiveRoute | null, weather: AppState['weather']): WindVector | null => {
+  const stations = routeEndStations(route);
+  if (stations.length < 2) return null;
+  const wind = weather[stations[0]]?.data?.metar.wind;
+  return wind && wind.direction !== null ? { direction: wind.direction, speedKt: wind.speedKt } : null;
+};
+
+export const AppStateContext = createContext<{ state: AppState; dispatch: Dispatch<AppAction> } | null>(null);
@@ -0,0 +1,106 @@
+import { createContext } from 'react';
+import type { SearchCriteria } from '@/lib/flight-search';
+import type { Itinerary } from '@/lib/itineraries';
+
+/**
+ * Typed commands from the voice assistant to the parts of the app that carry
+ * them out. Each kind has one handler, registered by the component that owns
+ * the feature while it's mounted. Dispatching usually brings that
+ * component's tab up, so a command sent before its handler exists waits for
+ * it to mount. Handlers report what actually happened, which is what the
+ * assistant then says.
+ */
+
+export type AppCommand =
+  | { type: 'search'; criteria: SearchCriteria }
+  // One of the results of the last search, as if it had been clicked
+  | { type: 'select-result'; itineraryId: string }
+  // An airport code, or null for wherever the user is
+  | { type: 'weather'; location: string | null }
+  | { type: 'navigate'; destination: string }
+  | { type: 'track-location' };
+
+export type AppCommandType = AppCommand['type'];
+
+export type AppCommandOf<T extends AppCommandType> = Extract<AppCommand, { type: T }>;
+
+export interface CommandOutcome {
+  ok: boolean;
+  // A sentence to say back
+  message: string;
+  // What a search found, best first, for the assistant to read out
+  itineraries?: Itinerary[];
+}
+
+export type CommandHandler<T extends AppCommandType> = (command: AppCommandOf<T>) => Promise<CommandOutcome>;
+
+export interface CommandBus {
+  dispatch: (command: AppCommand) => Promise<CommandOutcome>;
+  // Replaces any handler already registered for the type; returns the unregister function
+  register: <T extends AppCommandType>(type: T, handler: CommandHandler<T>) => () => void;
+  // Told of every command as it's dispatched, before it's handled
+  subscribe: (listener: (command: AppCommand) => void) => () => void;
+}
+
+export interface CommandBusOptions {
+  // How long a command waits for its handler to mount
+  handlerWaitMs?: number;
+}
+
+const HANDLER_WAIT_MS = 5000;
+
+const COMMAND_NAMES: Record<AppCommandType, string> = {
+  search: 'flight search',
+  'select-result': 'results list',
+  weather: 'weather report',
+  navigate: 'map',
+  'track-location': 'GPS tracker'
+};
+
+export const createCommandBus = ({ handlerWaitMs = HANDLER_WAIT_MS }: CommandBusOptions = {}): CommandBus => {
+  const handlers = new Map<AppCommandType, (command: AppCommand) => Promise<CommandOutcome>>();
+  // Commands waiting for their handler, as callbacks that run them
+  const waiting = new Map<AppCommandType, Array<() => void>>();
+  const listeners = new Set<(command: AppCommand) => void>();
+
+  const run = (command: AppCommand): Promise<CommandOutcome> =>
+    handlers.get(command.type)(command).catch(error => ({
+      ok: false,
+      message: error instanceof Error ? error.message : `The ${COMMAND_NAMES[command.type]} ran into a problem.`
+    }));
+
+  return {
+    dispatch: (command) => {
+      listeners.forEach(listener => listener(command));
+      if (handlers.has(command.type)) return run(command);
+
+      return new Promise(resolve => {
+        const start = () => {
+          window.clearTimeout(timer);
+          resolve(run(command));
+        };
+        const timer = window.setTimeout(() => {
+          waiting.set(command.type, (waiting.get(command.type) ?? []).filter(entry => entry !== start));
+          resolve({ ok: false, message: `The ${COMMAND_NAMES[command.type]} isn't available right now.` });
+        }, handlerWaitMs);
+        waiting.set(command.type, [...(waiting.get(command.type) ?? []), start]);
+      });
+    },
+    register: (type, handler) => {
+      const entry = handler as (command: AppCommand) => Promise<CommandOutcome>;
+      handlers.set(type, entry);
+      const ready = waiting.get(type) ?? [];
+      waiting.delete(type);
+      ready.forEach(start => start());
+      return () => {
+        if (handlers.get(type) === entry) handlers.delete(type);
+      };
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
+
+export const CommandBusContext = createContext<CommandBus | null>(null);
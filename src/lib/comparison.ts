@@ -0,0 +1,116 @@
+import { checkFlightConnections } from '@/lib/connections';
+import { formatDuration } from '@/lib/flight-time';
+import { itineraryWeather, weatherSeverity, type Itinerary } from '@/lib/itineraries';
+import { averageOnTime } from '@/lib/result-order';
+
+export const MAX_COMPARED_ITINERARIES = 4;
+
+export interface ComparisonCell {
+  display: string;
+  // Best value in its row; ties are all best, and a row where every value ties has none
+  best: boolean;
+}
+
+export interface ComparisonRow {
+  key: string;
+  label: string;
+  // One per compared itinerary, in the order given
+  cells: ComparisonCell[];
+}
+
+interface RowSpec {
+  key: string;
+  label: string;
+  display: (itinerary: Itinerary) => string;
+  // Omitted for rows with no better or worse value, like aircraft
+  measure?: (itinerary: Itinerary) => number;
+  higherIsBetter?: boolean;
+}
+
+// "LHR 1h 15m" per connection, with MCT problems noted; codes alone when the provider gave no times
+const describeConnections = (itinerary: Itinerary): string => {
+  const connections = itinerary.legs.flatMap((leg, legIndex) => {
+    const checks = checkFlightConnections(leg, legIndex);
+    return leg.layovers.map((code, index) => {
+      const check = checks[index];
+      if (!check) return code;
+      const note = check.status !== 'ok' ? ` (${check.status})` : check.overnight ? ' (overnight)' : '';
+      return `${code} ${formatDuration(check.minutes)}${note}`;
+    });
+  });
+  return connections.length > 0 ? connections.join(', ') : 'Direct';
+};
+
+const ROWS: RowSpec[] = [
+  { key: 'price', label: 'Price', display: itinerary => `$${itinerary.price}`, measure: itinerary => itinerary.price },
+  {
+    key: 'duration',
+    label: 'Total time',
+    display: itinerary => formatDuration(itinerary.durationMinutes),
+    measure: itinerary => itinerary.durationMinutes
+  },
+  { key: 'layovers', label: 'Layovers', display: describeConnections, measure: itinerary => itinerary.stops },
+  {
+    key: 'aircraft',
+    label: 'Aircraft',
+    display: itinerary => [...new Set(itinerary.legs.map(leg => leg.aircraft))].join(', ')
+  },
+  {
+    key: 'safety',
+    label: 'Safety rating',
+    display: itinerary => `${Math.min(...itinerary.legs.map(leg => leg.safetyRating))}/5`,
+    measure: itinerary => Math.min(...itinerary.legs.map(leg => leg.safetyRating)),
+    higherIsBetter: true
+  },
+  {
+    key: 'onTime',
+    label: 'On-time',
+    display: itinerary => `${Math.round(averageOnTime(itinerary))}%`,
+    measure: averageOnTime,
+    higherIsBetter: true
+  },
+  {
+    key: 'weather',
+    label: 'Weather',
+    display: itineraryWeather,
+    measure: itinerary => weatherSeverity(itineraryWeather(itinerary))
+  },
+  { key: 'score', label: 'AI score', display: itinerary => `${itinerary.score}`, measure: itinerary => itinerary.score, higherIsBetter: true }
+];
+
+const toRow = ({ key, label, display, measure, higherIsBetter = false }: RowSpec, itineraries: Itinerary[]): ComparisonRow => {
+  const values = measure ? itineraries.map(measure) : [];
+  const best = higherIsBetter ? Math.max(...values) : Math.min(...values);
+  const allTied = values.every(value => value === values[0]);
+  return {
+    key,
+    label,
+    cells: itineraries.map((itinerary, index) => ({
+      display: display(itinerary),
+      best: !!measure && !allTied && values[index] === best
+    }))
+  };
+};
+
+/**
+ * Row-per-attribute comparison of the given itineraries, followed by one row
+ * per score factor showing the points it contributed. Itineraries must come
+ * from the same search for the score rows to be comparable.
+ */
+export const compareItineraries = (itineraries: Itinerary[]): ComparisonRow[] => {
+  if (itineraries.length === 0) return [];
+
+  const factorRows: RowSpec[] = itineraries[0].breakdown.factors.map(({ factor, label }) => {
+    const points = (itinerary: Itinerary) =>
+      itinerary.breakdown.factors.find(entry => entry.factor === factor)?.points ?? 0;
+    return {
+      key: `factor-${factor}`,
+      label: `${label} points`,
+      display: itinerary => points(itinerary).toFixed(1),
+      measure: itinerary => Math.round(points(itinerary) * 10) / 10,
+      higherIsBetter: true
+    };
+  });
+
+  return [...ROWS, ...factorRows].map(spec => toRow(spec, itineraries));
+};
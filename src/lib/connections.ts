@@ -0,0 +1,132 @@
+import minimumConnectTimesCsv from '@/data/minimum-connect-times.csv?raw';
+import { getAirportRepository } from '@/lib/airports';
+import { parseCsv, parseCsvNumber } from '@/lib/csv';
+import type { FlightConnection, FlightResult } from '@/lib/flight-search';
+import { toInstant } from '@/lib/flight-time';
+import type { Itinerary } from '@/lib/itineraries';
+
+/**
+ * Layover checks against minimum connection times (MCT): the shortest gap an
+ * airport allows between an arriving and a departing flight. A connection
+ * under the MCT is illegal (the airline won't protect it); one with less than
+ * RISKY_BUFFER_MINUTES to spare is risky.
+ */
+
+export interface MinimumConnectTime {
+  airport: string;
+  domestic: number;
+  // Used when either flight crosses a border
+  international: number;
+  // Added when the two flights use different terminals
+  terminalChange: number;
+  terminals: string[];
+}
+
+export type ConnectionStatus = 'ok' | 'risky' | 'illegal';
+
+export interface ConnectionCheck {
+  connection: FlightConnection;
+  // Index of the itinerary leg (flight) the connection belongs to
+  legIndex: number;
+  minutes: number;
+  minimumMinutes: number;
+  international: boolean;
+  terminalChange: boolean;
+  status: ConnectionStatus;
+  // A long wait through the small hours, so the traveller needs somewhere to sleep
+  overnight: boolean;
+}
+
+const RISKY_BUFFER_MINUTES = 30;
+// Shortest wait through the night that counts as an overnight layover
+const OVERNIGHT_LAYOVER_MINUTES = 5 * 60;
+// Landing before this local hour counts as overnight even though the date doesn't change
+const SMALL_HOURS_END = 5;
+const MINUTE_MS = 60 * 1000;
+
+// For airports missing from the table
+export const DEFAULT_MINIMUM_CONNECT_TIME: Omit<MinimumConnectTime, 'airport'> = {
+  domestic: 60,
+  international: 90,
+  terminalChange: 30,
+  terminals: []
+};
+
+const STATUS_SEVERITY: ConnectionStatus[] = ['ok', 'risky', 'illegal'];
+
+/**
+ * Reads the MCT table: one row per airport with `iata_code`,
+ * `domestic_minutes`, `international_minutes`, `terminal_change_minutes` and
+ * a space-separated `terminals` list.
+ */
+export const parseMinimumConnectTimes = (text: string): MinimumConnectTime[] =>
+  parseCsv(text).flatMap(row => {
+    const domestic = parseCsvNumber(row.domestic_minutes);
+    const international = parseCsvNumber(row.international_minutes);
+    if (!row.iata_code || domestic === null || international === null) return [];
+    return [{
+      airport: row.iata_code.toUpperCase(),
+      domestic,
+      international,
+      terminalChange: parseCsvNumber(row.terminal_change_minutes) ?? DEFAULT_MINIMUM_CONNECT_TIME.terminalChange,
+      terminals: row.terminals ? row.terminals.split(' ').filter(Boolean) : []
+    }];
+  });
+
+let bundledTable: Map<string, MinimumConnectTime> | null = null;
+
+// Parsed on first use from the CSV bundled under src/data
+export const getMinimumConnectTime = (airport: string): MinimumConnectTime => {
+  bundledTable ??= new Map(parseMinimumConnectTimes(minimumConnectTimesCsv).map(entry => [entry.airport, entry]));
+  return bundledTable.get(airport.toUpperCase()) ?? { airport, ...DEFAULT_MINIMUM_CONNECT_TIME };
+};
+
+const countryOf = (code: string | undefined) => code ? getAirportRepository().getByCode(code)?.country : undefined;
+
+// Crosses a border arriving or leaving; airports missing from the data count as domestic
+const isInternational = (from: string | undefined, via: string, to: string | undefined): boolean => {
+  const [origin, hub, destination] = [countryOf(from), countryOf(via), countryOf(to)];
+  return (!!origin && !!hub && origin !== hub) || (!!hub && !!destination && hub !== destination);
+};
+
+const localDate = (iso: string) => iso.slice(0, 10);
+const localHour = (iso: string) => parseInt(iso.slice(11, 13), 10);
+
+export const checkConnection = (
+  connection: FlightConnection,
+  from: string | undefined,
+  to: string | undefined,
+  legIndex = 0
+): ConnectionCheck => {
+  const mct = getMinimumConnectTime(connection.airport);
+  const minutes = Math.round((toInstant(connection.departure).getTime() - toInstant(connection.arrival).getTime()) / MINUTE_MS);
+  const international = isInternational(from, connection.airport, to);
+  const terminalChange = !!connection.arrivalTerminal && !!connection.departureTerminal &&
+    connection.arrivalTerminal !== connection.departureTerminal;
+  const minimumMinutes = (international ? mct.international : mct.domestic) + (terminalChange ? mct.terminalChange : 0);
+
+  return {
+    connection,
+    legIndex,
+    minutes,
+    minimumMinutes,
+    international,
+    terminalChange,
+    status: minutes < minimumMinutes ? 'illegal' : minutes < minimumMinutes + RISKY_BUFFER_MINUTES ? 'risky' : 'ok',
+    overnight: minutes >= OVERNIGHT_LAYOVER_MINUTES &&
+      (localDate(connection.departure) > localDate(connection.arrival) || localHour(connection.arrival) < SMALL_HOURS_END)
+  };
+};
+
+// Every connection of one flight, in order; none when the provider didn't report them
+export const checkFlightConnections = (flight: FlightResult, legIndex = 0): ConnectionCheck[] =>
+  (flight.connections ?? []).map((connection, index) =>
+    checkConnection(connection, flight.route[index], flight.route[index + 2], legIndex));
+
+export const checkItineraryConnections = (itinerary: Itinerary): ConnectionCheck[] =>
+  itinerary.legs.flatMap((leg, legIndex) => checkFlightConnections(leg, legIndex));
+
+// The worst status among the checks; 'ok' when there are none
+export const worstConnectionStatus = (checks: ConnectionCheck[]): ConnectionStatus =>
+  checks.reduce<ConnectionStatus>((worst, check) =>
+    STATUS_SEVERITY.indexOf(check.status) > STATUS_SEVERITY.indexOf(worst) ? check.status : worst, 'ok');
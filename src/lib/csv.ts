@@ -0,0 +1,54 @@
+/**
+ * Minimal RFC 4180 reader: quoted fields, doubled quotes and embedded
+ * newlines. Rows are keyed by the header line; blank lines are skipped.
+ */
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter(r => r.length > 1 || r[0] !== '');
+  if (!header) return [];
+  return body.map(values =>
+    Object.fromEntries(header.map((name, index) => [name, values[index] ?? '']))
+  );
+};
+
+// Empty or missing cells become null rather than 0
+export const parseCsvNumber = (value: string | undefined): number | null => {
+  if (!value || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
@@ -0,0 +1,227 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { FlightResult, FlightSearchProvider, SearchCriteria, SearchLeg } from '@/lib/flight-search';
+import { searchLegs } from '@/lib/itineraries';
+
+/**
+ * Every provider response, boiled down to its lowest fare and logged per
+ * route and departure date in IndexedDB. Providers answer one leg at a time,
+ * so a round trip logs its outbound and return separately.
+ */
+
+export interface FareObservation {
+  // See fareRouteKey
+  routeKey: string;
+  origin: string;
+  destination: string;
+  departureDate: string;
+  cabin: SearchCriteria['class'];
+  observedAt: number;
+  lowestPrice: number;
+  resultCount: number;
+}
+
+export interface FareHistoryStore {
+  record: (observation: FareObservation) => Promise<void>;
+  // Oldest first
+  list: (routeKey: string) => Promise<FareObservation[]>;
+}
+
+export interface DailyFare {
+  // yyyy-MM-dd, local to the browser
+  day: string;
+  lowestPrice: number;
+}
+
+export type FareTrendDirection = 'rise' | 'fall' | 'stable' | 'unknown';
+
+export interface FareForecast {
+  direction: FareTrendDirection;
+  confidence: 'low' | 'medium' | 'high';
+  // Where the trend puts the lowest fare by departure, looking no further ahead than the history reaches back
+  projectedPrice: number | null;
+  daysToDeparture: number;
+  reason: string;
+}
+
+// One searched leg's history and outlook
+export interface FareTrend {
+  leg: SearchLeg;
+  daily: DailyFare[];
+  forecast: FareForecast;
+}
+
+const DB_NAME = 'flight-sage';
+const DB_VERSION = 1;
+const OBSERVATIONS = 'fare-observations';
+
+// Only this much recent history feeds the trend
+const TREND_WINDOW_DAYS = 21;
+const MIN_TREND_DAYS = 3;
+// Projected moves smaller than this count as stable
+const STABLE_BAND = 0.03;
+// With no usable trend, fares this close to departure are assumed to be climbing
+const CLOSE_IN_DAYS = 21;
+
+export const fareRouteKey = (origin: string, destination: string, departureDate: string, cabin: SearchCriteria['class']): string =>
+  `${origin.toUpperCase()}-${destination.toUpperCase()}|${departureDate}|${cabin}`;
+
+// null for undated searches and empty responses, which say nothing about a date's fare
+export const toFareObservation = (criteria: SearchCriteria, results: FlightResult[], observedAt = Date.now()): FareObservation | null => {
+  if (!criteria.departureDate || results.length === 0) return null;
+  return {
+    routeKey: fareRouteKey(criteria.origin, criteria.destination, criteria.departureDate, criteria.class),
+    origin: criteria.origin.toUpperCase(),
+    destination: criteria.destination.toUpperCase(),
+    departureDate: criteria.departureDate,
+    cabin: criteria.class,
+    observedAt,
+    lowestPrice: Math.min(...results.map(result => result.price)),
+    resultCount: results.length
+  };
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openDatabase = (factory: IDBFactory): Promise<IDBDatabase> => {
+  const request = factory.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(OBSERVATIONS, { autoIncrement: true });
+    store.createIndex('routeKey', 'routeKey');
+  };
+  return requestResult(request);
+};
+
+export const createIndexedDbFareHistoryStore = (factory: IDBFactory): FareHistoryStore => {
+  let database: Promise<IDBDatabase> | null = null;
+  const db = () => (database ??= openDatabase(factory));
+
+  return {
+    record: async (observation) => {
+      const transaction = (await db()).transaction(OBSERVATIONS, 'readwrite');
+      await requestResult(transaction.objectStore(OBSERVATIONS).add(observation));
+    },
+    list: async (routeKey) => {
+      const index = (await db()).transaction(OBSERVATIONS).objectStore(OBSERVATIONS).index('routeKey');
+      const observations = await requestResult(index.getAll(routeKey)) as FareObservation[];
+      return observations.sort((a, b) => a.observedAt - b.observedAt);
+    }
+  };
+};
+
+// For environments without IndexedDB; history lasts as long as the page
+export const createMemoryFareHistoryStore = (): FareHistoryStore => {
+  const observations: FareObservation[] = [];
+  return {
+    record: async (observation) => { observations.push(observation); },
+    list: async (routeKey) => observations.filter(observation => observation.routeKey === routeKey)
+  };
+};
+
+let bundledStore: FareHistoryStore | null = null;
+
+export const getFareHistoryStore = (): FareHistoryStore => {
+  bundledStore ??= typeof indexedDB !== 'undefined'
+    ? createIndexedDbFareHistoryStore(indexedDB)
+    : createMemoryFareHistoryStore();
+  return bundledStore;
+};
+
+/**
+ * Wraps a provider so each response is logged as it's returned. Logging runs
+ * in the background and failures are swallowed; history is never worth
+ * delaying or failing a search over.
+ */
+export const withFareHistory = (provider: FlightSearchProvider, store: FareHistoryStore = getFareHistoryStore()): FlightSearchProvider => ({
+  id: provider.id,
+  search: async (criteria, signal) => {
+    const results = await provider.search(criteria, signal);
+    const observation = toFareObservation(criteria, results);
+    if (observation) store.record(observation).catch(() => undefined);
+    return results;
+  }
+});
+
+// Cheapest observation per calendar day, oldest first
+export const dailyLowestFares = (observations: FareObservation[]): DailyFare[] => {
+  const byDay = new Map<string, number>();
+  observations.forEach(({ observedAt, lowestPrice }) => {
+    const day = format(observedAt, 'yyyy-MM-dd');
+    byDay.set(day, Math.min(byDay.get(day) ?? Infinity, lowestPrice));
+  });
+  return [...byDay.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, lowestPrice]) => ({ day, lowestPrice }));
+};
+
+/**
+ * A least-squares line through the recent daily lowest fares, projected
+ * toward departure. Confidence follows how well the line fits and how many
+ * days it rests on. Without enough history, close-in departures fall back to
+ * the usual pattern of fares climbing in the last few weeks.
+ */
+export const forecastFare = (daily: DailyFare[], departureDate: string, now = new Date()): FareForecast => {
+  const daysToDeparture = differenceInCalendarDays(parseISO(departureDate), now);
+  if (daysToDeparture <= 0) {
+    return { direction: 'unknown', confidence: 'low', projectedPrice: null, daysToDeparture, reason: 'This departure date has passed.' };
+  }
+
+  const recent = daily.filter(entry => differenceInCalendarDays(now, parseISO(entry.day)) <= TREND_WINDOW_DAYS);
+  if (recent.length < MIN_TREND_DAYS) {
+    return daysToDeparture <= CLOSE_IN_DAYS
+      ? {
+        direction: 'rise',
+        confidence: 'low',
+        projectedPrice: null,
+        daysToDeparture,
+        reason: `Not enough history for a trend yet, but fares usually climb in the last ${CLOSE_IN_DAYS} days before departure.`
+      }
+      : {
+        direction: 'unknown',
+        confidence: 'low',
+        projectedPrice: null,
+        daysToDeparture,
+        reason: `Needs fares from at least ${MIN_TREND_DAYS} different days to spot a trend.`
+      };
+  }
+
+  const origin = parseISO(recent[0].day);
+  const points = recent.map(entry => ({ x: differenceInCalendarDays(parseISO(entry.day), origin), y: entry.lowestPrice }));
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  const sxy = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+  const syy = points.reduce((sum, p) => sum + (p.y - meanY) ** 2, 0);
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  // A flat series fits a flat line perfectly
+  const rSquared = syy > 0 && sxx > 0 ? (sxy * sxy) / (sxx * syy) : 1;
+
+  const latest = recent[recent.length - 1].lowestPrice;
+  const horizon = Math.min(daysToDeparture, Math.max(1, points[points.length - 1].x));
+  const projectedPrice = Math.max(0, Math.round(latest + slope * horizon));
+  const change = latest > 0 ? projectedPrice / latest - 1 : 0;
+  const direction: FareTrendDirection = change > STABLE_BAND ? 'rise' : change < -STABLE_BAND ? 'fall' : 'stable';
+  const confidence = rSquared >= 0.6 && recent.length >= 7 ? 'high' : rSquared >= 0.3 ? 'medium' : 'low';
+  const perDay = `${slope >= 0 ? '+' : '−'}$${Math.abs(slope).toFixed(Math.abs(slope) < 1 ? 2 : 0)}/day`;
+
+  return {
+    direction,
+    confidence,
+    projectedPrice,
+    daysToDeparture,
+    reason: slope === 0
+      ? `Lowest fare has held at $${latest} over the last ${recent.length} days with data.`
+      : `Lowest fare has moved ${perDay} over the last ${recent.length} days with data; about $${projectedPrice} in ${horizon} day${horizon === 1 ? '' : 's'} if that holds.`
+  };
+};
+
+// History and forecast for each dated leg of a search
+export const loadFareTrends = (store: FareHistoryStore, criteria: SearchCriteria, now = new Date()): Promise<FareTrend[]> =>
+  Promise.all(searchLegs(criteria)
+    .filter(leg => leg.departureDate)
+    .map(async leg => {
+      const daily = dailyLowestFares(await store.list(fareRouteKey(leg.origin, leg.destination, leg.departureDate, criteria.class)));
+      return { leg, daily, forecast: forecastFare(daily, leg.departureDate, now) };
+    }));
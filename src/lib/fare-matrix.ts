@@ -0,0 +1,77 @@
+import { addDays, format, parseISO, isValid } from 'date-fns';
+import type { FlightResult, FlightSearchProvider, SearchCriteria } from '@/lib/flight-search';
+import { combineLegResults, searchLeg } from '@/lib/itineraries';
+
+// Days either side of the requested dates covered by "Flexible Dates"
+export const FLEX_DAYS = 3;
+
+export interface FareCell {
+  departureDate: string;
+  // Absent for one-way searches
+  returnDate?: string;
+  // Cheapest itinerary for the date pair; null when nothing connects (or the return is before departure)
+  price: number | null;
+}
+
+export interface FareMatrix {
+  departureDates: string[];
+  // Empty for one-way searches, which get a single row
+  returnDates: string[];
+  // One row per departure date, one column per return date
+  rows: FareCell[][];
+  cheapest: FareCell | null;
+}
+
+// The ±FLEX_DAYS window around a yyyy-MM-dd date
+export const flexibleDates = (date: string): string[] => {
+  const center = parseISO(date);
+  if (!isValid(center)) return [];
+  return Array.from({ length: FLEX_DAYS * 2 + 1 }, (_, i) => format(addDays(center, i - FLEX_DAYS), 'yyyy-MM-dd'));
+};
+
+// Only plain one-way and round-trip searches with their dates filled in get a matrix
+export const supportsFareMatrix = (criteria: SearchCriteria | null): boolean =>
+  !!criteria && criteria.filters.flexibleDates && !!criteria.departureDate &&
+  (criteria.tripType === 'oneway' || (criteria.tripType === 'roundtrip' && !!criteria.returnDate));
+
+// Cheapest itinerary that survives the search filters
+const cheapestPrice = (legResults: FlightResult[][], criteria: SearchCriteria): number | null => {
+  const itineraries = combineLegResults(legResults, criteria.priorities, criteria.filters);
+  return itineraries.length > 0 ? Math.min(...itineraries.map(itinerary => itinerary.price)) : null;
+};
+
+/**
+ * Prices every date pair in the flexible window. Each leg is searched once per
+ * date (7 + 7 searches for a round trip rather than 49) and the pairs are
+ * combined locally.
+ */
+export const searchFareMatrix = async (
+  provider: FlightSearchProvider,
+  criteria: SearchCriteria,
+  signal?: AbortSignal
+): Promise<FareMatrix> => {
+  const departureDates = flexibleDates(criteria.departureDate);
+  const returnDates = criteria.tripType === 'roundtrip' && criteria.returnDate ? flexibleDates(criteria.returnDate) : [];
+
+  const [outbound, inbound] = await Promise.all([
+    Promise.all(departureDates.map(departureDate =>
+      searchLeg(provider, criteria, { origin: criteria.origin, destination: criteria.destination, departureDate }, signal))),
+    Promise.all(returnDates.map(departureDate =>
+      searchLeg(provider, criteria, { origin: criteria.destination, destination: criteria.origin, departureDate }, signal)))
+  ]);
+
+  const rows = departureDates.map((departureDate, i): FareCell[] => returnDates.length === 0
+    ? [{ departureDate, price: cheapestPrice([outbound[i]], criteria) }]
+    : returnDates.map((returnDate, j) => ({
+        departureDate,
+        returnDate,
+        price: returnDate < departureDate
+          ? null
+          : cheapestPrice([outbound[i], inbound[j]], criteria)
+      })));
+
+  const cheapest = rows.flat().reduce<FareCell | null>((best, cell) =>
+    cell.price !== null && (best === null || cell.price < (best.price as number)) ? cell : best, null);
+
+  return { departureDates, returnDates, rows, cheapest };
+};
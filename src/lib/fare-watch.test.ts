@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SEARCH_CRITERIA, type SearchCriteria } from '@/lib/flight-search';
+import { createFareWatch, isFareWatchDue, isFareWatchExpired, recordFare } from '@/lib/fare-watch';
+
+// Tuesday 13 October 2026, mid-morning
+const NOW = new Date(2026, 9, 13, 10, 30).getTime();
+const HOUR = 60 * 60 * 1000;
+
+const watchFor = (criteria: Partial<SearchCriteria>) =>
+  createFareWatch({ ...DEFAULT_SEARCH_CRITERIA, origin: 'JFK', destination: 'LHR', ...criteria }, { intervalMinutes: 60, targetPrice: 500, dropPercent: 10 }, NOW - 48 * HOUR);
+
+describe('isFareWatchDue', () => {
+  it('is due before its first check and once its interval has passed', () => {
+    const watch = watchFor({ departureDate: '2026-11-02' });
+    expect(isFareWatchDue(watch, NOW)).toBe(true);
+    const checked = recordFare(watch, 620, NOW - 30 * 60 * 1000).watch;
+    expect(isFareWatchDue(checked, NOW)).toBe(false);
+    expect(isFareWatchDue(checked, NOW + 30 * 60 * 1000)).toBe(true);
+  });
+
+  it('stops once the first leg has departed', () => {
+    const watch = recordFare(watchFor({ departureDate: '2026-10-12' }), 620, NOW - 2 * HOUR).watch;
+    expect(isFareWatchExpired(watch, NOW)).toBe(true);
+    expect(isFareWatchDue(watch, NOW)).toBe(false);
+  });
+
+  it('keeps checking through the departure day', () => {
+    const watch = watchFor({ departureDate: '2026-10-13' });
+    expect(isFareWatchExpired(watch, NOW)).toBe(false);
+    expect(isFareWatchDue(watch, NOW)).toBe(true);
+  });
+
+  it('dates a multi-city watch by its first leg', () => {
+    const watch = watchFor({
+      tripType: 'multicity',
+      departureDate: '',
+      legs: [
+        { origin: 'JFK', destination: 'LHR', departureDate: '2026-10-12' },
+        { origin: 'LHR', destination: 'JFK', departureDate: '2026-10-20' }
+      ]
+    });
+    expect(isFareWatchExpired(watch, NOW)).toBe(true);
+  });
+
+  it('never ends a watch without a departure date', () => {
+    expect(isFareWatchExpired(watchFor({ departureDate: '' }), NOW)).toBe(false);
+  });
+});
+
+describe('recordFare', () => {
+  it('sets a baseline, then alerts on crossing the target and on a drop', () => {
+    const first = recordFare(watchFor({ departureDate: '2026-11-02' }), 620, NOW);
+    expect(first.alerts).toEqual([]);
+    expect(first.watch.referencePrice).toBe(620);
+
+    const second = recordFare(first.watch, 480, NOW + HOUR);
+    expect(second.alerts).toEqual([
+      { kind: 'target', price: 480, threshold: 500 },
+      { kind: 'drop', price: 480, threshold: 620 }
+    ]);
+    // Still under the target: no second target alert
+    expect(recordFare(second.watch, 470, NOW + 2 * HOUR).alerts).toEqual([]);
+  });
+});
@@ -0,0 +1,175 @@
+import { createContext } from 'react';
+import { format } from 'date-fns';
+import type { FlightSearchProvider, SearchCriteria } from '@/lib/flight-search';
+import { searchItineraries } from '@/lib/itineraries';
+
+/**
+ * Saved searches that are re-run on a schedule while the app is open. Each
+ * check records the lowest fare (after the search's own filters) and can raise
+ * an alert when it falls below the target price, or drops by the set
+ * percentage from the highest fare seen since the last drop alert.
+ */
+
+export interface FarePoint {
+  checkedAt: number;
+  // null when the search found nothing that passed its filters
+  lowestPrice: number | null;
+}
+
+export interface FareWatch {
+  id: string;
+  criteria: SearchCriteria;
+  createdAt: number;
+  intervalMinutes: number;
+  targetPrice: number | null;
+  dropPercent: number | null;
+  // Oldest first, capped at MAX_FARE_HISTORY
+  history: FarePoint[];
+  // Drops are measured from here: the highest fare since the last drop alert
+  referencePrice: number | null;
+  // Whether the last fare was at or under the target, so the alert fires once per crossing
+  belowTarget: boolean;
+  lastCheckedAt: number | null;
+  lastError: string | null;
+}
+
+export type FareWatchSettings = Pick<FareWatch, 'intervalMinutes' | 'targetPrice' | 'dropPercent'>;
+
+export interface FareAlert {
+  kind: 'target' | 'drop';
+  price: number;
+  // Target price, or the reference the drop was measured from
+  threshold: number;
+}
+
+export interface FareCheckResult {
+  watch: FareWatch;
+  alerts: FareAlert[];
+}
+
+export interface FareWatchStore {
+  load: () => FareWatch[];
+  save: (watches: FareWatch[]) => void;
+}
+
+export const FARE_WATCH_INTERVALS: Array<{ minutes: number; label: string }> = [
+  { minutes: 60, label: 'Every hour' },
+  { minutes: 6 * 60, label: 'Every 6 hours' },
+  { minutes: 24 * 60, label: 'Daily' }
+];
+
+export const MAX_FARE_HISTORY = 500;
+const STORAGE_KEY = 'flight-sage.fare-watches';
+
+// localStorage by default; a store that can't read or write keeps the watches in memory only
+export const createLocalFareWatchStore = (storage: Storage | null = typeof window !== 'undefined' ? window.localStorage : null): FareWatchStore => ({
+  load: () => {
+    try {
+      const parsed = JSON.parse(storage?.getItem(STORAGE_KEY) ?? '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  },
+  save: (watches) => {
+    try {
+      storage?.setItem(STORAGE_KEY, JSON.stringify(watches));
+    } catch {
+      // Quota or privacy mode; the watches still work for this session
+    }
+  }
+});
+
+export const createFareWatch = (criteria: SearchCriteria, settings: FareWatchSettings, now = Date.now()): FareWatch => ({
+  id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  criteria,
+  createdAt: now,
+  ...settings,
+  history: [],
+  referencePrice: null,
+  belowTarget: false,
+  lastCheckedAt: null,
+  lastError: null
+});
+
+// The first leg's departure date, yyyy-MM-dd, or null for a search without one
+export const watchedDepartureDate = (criteria: SearchCriteria): string | null =>
+  (criteria.tripType === 'multicity' && criteria.legs?.length ? criteria.legs[0].departureDate : criteria.departureDate) || null;
+
+// Ended once its first leg's departure day is over; there is nothing left to book
+export const isFareWatchExpired = (watch: FareWatch, now = Date.now()): boolean => {
+  const departure = watchedDepartureDate(watch.criteria);
+  return departure !== null && departure < format(now, 'yyyy-MM-dd');
+};
+
+export const isFareWatchDue = (watch: FareWatch, now = Date.now()): boolean =>
+  !isFareWatchExpired(watch, now) &&
+  (watch.lastCheckedAt === null || now - watch.lastCheckedAt >= watch.intervalMinutes * 60 * 1000);
+
+/**
+ * Folds one observed lowest fare into the watch and returns any alerts it
+ * triggers. The first observation only sets the baseline.
+ */
+export const recordFare = (watch: FareWatch, lowestPrice: number | null, now = Date.now()): FareCheckResult => {
+  const history = [...watch.history, { checkedAt: now, lowestPrice }].slice(-MAX_FARE_HISTORY);
+  const checked = { ...watch, history, lastCheckedAt: now, lastError: null };
+  if (lowestPrice === null) return { watch: checked, alerts: [] };
+
+  const alerts: FareAlert[] = [];
+  const belowTarget = watch.targetPrice !== null && lowestPrice <= watch.targetPrice;
+  if (belowTarget && !watch.belowTarget) {
+    alerts.push({ kind: 'target', price: lowestPrice, threshold: watch.targetPrice as number });
+  }
+
+  let referencePrice = Math.max(watch.referencePrice ?? lowestPrice, lowestPrice);
+  if (watch.dropPercent !== null && watch.referencePrice !== null &&
+      lowestPrice <= watch.referencePrice * (1 - watch.dropPercent / 100)) {
+    alerts.push({ kind: 'drop', price: lowestPrice, threshold: watch.referencePrice });
+    referencePrice = lowestPrice;
+  }
+
+  return { watch: { ...checked, referencePrice, belowTarget }, alerts };
+};
+
+// Runs the watched search once; failures are kept on the watch rather than thrown
+export const checkFareWatch = async (
+  provider: FlightSearchProvider,
+  watch: FareWatch,
+  now = Date.now(),
+  signal?: AbortSignal
+): Promise<FareCheckResult> => {
+  try {
+    const { itineraries } = await searchItineraries(provider, watch.criteria, signal);
+    const lowest = itineraries.length > 0 ? Math.min(...itineraries.map(itinerary => itinerary.price)) : null;
+    return recordFare(watch, lowest, now);
+  } catch (err) {
+    return {
+      watch: { ...watch, lastCheckedAt: now, lastError: err instanceof Error ? err.message : 'Fare check failed' },
+      alerts: []
+    };
+  }
+};
+
+// "JFK → LHR · 10 Jun – 17 Jun" style summary of what a watch covers
+export const describeWatchedSearch = (criteria: SearchCriteria): string => {
+  if (criteria.tripType === 'multicity' && criteria.legs?.length) {
+    return `${[criteria.legs[0].origin, ...criteria.legs.map(leg => leg.destination)].join(' → ')} · from ${criteria.legs[0].departureDate}`;
+  }
+  const arrow = criteria.tripType === 'roundtrip' ? '⇄' : '→';
+  const dates = criteria.tripType === 'roundtrip' && criteria.returnDate
+    ? `${criteria.departureDate} – ${criteria.returnDate}`
+    : criteria.departureDate;
+  return `${criteria.origin} ${arrow} ${criteria.destination}${dates ? ` · ${dates}` : ''}`;
+};
+
+export interface FareWatchContextValue {
+  watches: FareWatch[];
+  // Watches being checked right now
+  checking: string[];
+  addWatch: (criteria: SearchCriteria, settings: FareWatchSettings) => FareWatch;
+  updateWatch: (id: string, settings: Partial<FareWatchSettings>) => void;
+  removeWatch: (id: string) => void;
+  checkNow: (id: string) => void;
+}
+
+export const FareWatchContext = createContext<FareWatchContextValue | null>(null);
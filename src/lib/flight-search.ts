@@ -0,0 +1,314 @@
+import axios from 'axios';
+import { format } from 'date-fns';
+import { getAirportRepository, type AirportRecord } from '@/lib/airports';
+import { haversineDistance, type LatLng } from '@/lib/geodesy';
+import { estimateFlightTime } from '@/lib/route-planning';
+import { getMinimumConnectTime } from '@/lib/connections';
+import { resolvePlace } from '@/lib/places';
+import { formatZonedIso, zoneOffsetMinutes, zonedWallTimeToInstant } from '@/lib/time-zones';
+
+// One flown segment of a trip: a one-way search has one, a round trip two
+export interface SearchLeg {
+  origin: string;
+  destination: string;
+  departureDate: string;
+}
+
+export interface SearchCriteria {
+  // For multi-city trips these mirror the first origin, last destination and first date
+  origin: string;
+  destination: string;
+  departureDate: string;
+  returnDate?: string;
+  passengers: number;
+  class: 'economy' | 'business' | 'first';
+  tripType: 'oneway' | 'roundtrip' | 'multicity';
+  // Ordered legs; only used when tripType is 'multicity'
+  legs?: SearchLeg[];
+  priorities: {
+    cost: number;
+    time: number;
+    safety: number;
+    comfort: number;
+    layovers: number;
+  };
+  filters: {
+    maxLayovers: number;
+    maxDuration: string;
+    preferredAirlines: string[];
+    flexibleDates: boolean;
+    directFlights: boolean;
+  };
+}
+
+// Starting point for a new search form
+export const DEFAULT_SEARCH_CRITERIA: SearchCriteria = {
+  origin: '',
+  destination: '',
+  departureDate: '',
+  returnDate: '',
+  passengers: 1,
+  class: 'economy',
+  tripType: 'oneway',
+  priorities: {
+    cost: 70,
+    time: 60,
+    safety: 90,
+    comfort: 40,
+    layovers: 30
+  },
+  filters: {
+    maxLayovers: 2,
+    maxDuration: '12:00',
+    preferredAirlines: [],
+    flexibleDates: false,
+    directFlights: false
+  }
+};
+
+// A change of aircraft within one flight; times are formatted like FlightResult's
+export interface FlightConnection {
+  airport: string;
+  // Landing at the connecting airport, then taking off again
+  arrival: string;
+  departure: string;
+  arrivalTerminal?: string;
+  departureTerminal?: string;
+}
+
+export interface FlightResult {
+  id: string;
+  airline: string;
+  flight: string;
+  origin: string;
+  destination: string;
+  // ISO-8601 in each airport's local time with its UTC offset, e.g. 2025-06-10T07:15:00-04:00
+  departure: string;
+  arrival: string;
+  // Gate to gate, connections included
+  durationMinutes: number;
+  price: number;
+  stops: number;
+  // Connecting airport codes, in order
+  layovers: string[];
+  // The same connections with times and terminals; optional for providers that don't report them
+  connections?: FlightConnection[];
+  aircraft: string;
+  score: number;
+  safetyRating: number;
+  onTimePerformance: number;
+  route: string[];
+  weather: 'favorable' | 'caution' | 'warning';
+}
+
+// Providers answer one leg at a time; round trips and multi-city trips are assembled in itineraries.ts
+export interface FlightSearchProvider {
+  id: string;
+  search: (criteria: SearchCriteria, signal?: AbortSignal) => Promise<FlightResult[]>;
+}
+
+// Normalizes free-text input ("jfk", "New York") to a route code
+export const toRouteCode = (value: string): string => {
+  const trimmed = value.trim();
+  const code = trimmed.match(/\b([A-Za-z]{3})\b/);
+  if (code && trimmed.length <= 4) return code[1].toUpperCase();
+  return trimmed.replace(/[^A-Za-z]/g, '').slice(0, 3).toUpperCase();
+};
+
+// Small seeded PRNG so the same criteria always produce the same fixture fares
+const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const createRandom = (seed: number) => {
+  let state = seed || 1;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const FIXTURE_AIRLINES = [
+  { name: 'SkyLine Airways', prefix: 'SK' },
+  { name: 'Atlantic Express', prefix: 'AE' },
+  { name: 'Global Wings', prefix: 'GW' },
+  { name: 'Pacific Crest', prefix: 'PC' },
+  { name: 'Northern Star', prefix: 'NS' }
+];
+
+const FIXTURE_AIRCRAFT = ['Boeing 737-800', 'Airbus A320', 'Boeing 757', 'Airbus A321neo', 'Embraer E175'];
+
+// Connections are only offered through hubs that add at most this much distance
+const MAX_HUB_DETOUR = 1.3;
+// ...and that are far enough from either end to be worth a connection
+const MIN_HUB_SEPARATION_KM = 300;
+const MAX_FIXTURE_HUBS = 6;
+const TAXI_MINUTES = 20;
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+// Hubs are quiet 22:00-05:00 local; landing then means waiting for the 06:00 bank
+const QUIET_FROM_MINUTES = 22 * 60;
+const QUIET_UNTIL_MINUTES = 5 * 60;
+const MORNING_BANK_MINUTES = 6 * 60;
+
+const CLASS_MULTIPLIER: Record<SearchCriteria['class'], number> = {
+  economy: 1,
+  business: 2.8,
+  first: 4.5
+};
+
+const position = (airport: AirportRecord): LatLng => [airport.lat, airport.lng];
+
+// Large scheduled airports ranked by how little they lengthen the trip
+const findHubs = (origin: AirportRecord | undefined, destination: AirportRecord | undefined): AirportRecord[] => {
+  const candidates = getAirportRepository().all().filter(airport =>
+    airport.kind === 'large_airport' && airport.scheduledService && airport.iata &&
+    airport !== origin && airport !== destination);
+  if (!origin || !destination) return candidates.slice(0, MAX_FIXTURE_HUBS);
+
+  const direct = haversineDistance(position(origin), position(destination));
+  return candidates
+    .map(hub => ({
+      hub,
+      detour: (haversineDistance(position(origin), position(hub)) + haversineDistance(position(hub), position(destination))) / direct
+    }))
+    .filter(({ hub, detour }) => detour <= MAX_HUB_DETOUR &&
+      haversineDistance(position(origin), position(hub)) >= MIN_HUB_SEPARATION_KM &&
+      haversineDistance(position(hub), position(destination)) >= MIN_HUB_SEPARATION_KM)
+    .sort((a, b) => a.detour - b.detour)
+    .slice(0, MAX_FIXTURE_HUBS)
+    .map(({ hub }) => hub);
+};
+
+/**
+ * Deterministic offline provider. Endpoints and connecting hubs come from the
+ * airport database and block times from the great-circle track; fares are
+ * derived from a hash of the route, date and cabin, so repeated searches
+ * return identical results.
+ */
+export const createFixtureFlightSearchProvider = (options: { resultCount?: number } = {}): FlightSearchProvider => ({
+  id: 'fixture',
+  search: async (criteria) => {
+    // A metro code (NYC) expands to its airports; results then mix departures and arrivals across them
+    const originPlace = resolvePlace(criteria.origin);
+    const destinationPlace = resolvePlace(criteria.destination);
+    const toAirports = (codes: string[] = []) => codes.map(code => getAirportRepository().getByCode(code)).filter(Boolean);
+    const origins = toAirports(originPlace?.airportCodes);
+    const destinations = toAirports(destinationPlace?.airportCodes);
+    const originCode = originPlace?.code ?? toRouteCode(criteria.origin);
+    const destinationCode = destinationPlace?.code ?? toRouteCode(criteria.destination);
+    const random = createRandom(hashString(`${originCode}|${destinationCode}|${criteria.departureDate}|${criteria.class}`));
+    const resultCount = options.resultCount ?? 6;
+    // Undated searches are timed from today
+    const departureDate = criteria.departureDate || format(new Date(), 'yyyy-MM-dd');
+    const hubs = findHubs(origins[0], destinations[0]);
+    const blockMinutes = (from: AirportRecord | undefined, stops: AirportRecord[], to: AirportRecord | undefined) => from && to
+      ? estimateFlightTime([from, ...stops, to].map(position)).totalMinutes + TAXI_MINUTES * (stops.length + 1)
+      : null;
+    const baseMinutes = blockMinutes(origins[0], [], destinations[0]) ?? 90 + Math.floor(random() * 360);
+    const pick = (airports: AirportRecord[]) => airports[Math.floor(random() * airports.length)];
+
+    return Array.from({ length: resultCount }, (_, index) => {
+      const originAirport = pick(origins);
+      const destinationAirport = pick(destinations);
+      const origin = originAirport?.iata ?? originCode;
+      const destination = destinationAirport?.iata ?? destinationCode;
+      const airline = FIXTURE_AIRLINES[Math.floor(random() * FIXTURE_AIRLINES.length)];
+      const stops = hubs.length > 0 ? Math.min(2, Math.floor(random() * 3)) : 0;
+      // One connection per city, flown in order of distance from the origin
+      const connections = Array.from({ length: stops }, () => hubs[Math.floor(random() * hubs.length)])
+        .filter((hub, i, all) => all.findIndex(other => other.municipality === hub.municipality) === i)
+        .sort((a, b) => originAirport
+          ? haversineDistance(position(originAirport), position(a)) - haversineDistance(position(originAirport), position(b))
+          : 0);
+      const layovers = connections.map(hub => hub.iata);
+      // Local wall-clock departure at the origin, 05:00-21:45
+      const departureMinutes = (5 * 60) + Math.floor(random() * 17 * 4) * 15;
+      const departureInstant = zonedWallTimeToInstant(departureDate, departureMinutes, originAirport?.timeZone ?? 'UTC');
+
+      // Fly each segment in turn, waiting at every hub; connection times are deliberately uneven so some miss the MCT
+      const points = [originAirport, ...connections, destinationAirport];
+      const fallbackSegmentMinutes = Math.round((baseMinutes + layovers.length * 60) / (layovers.length + 1));
+      let clock = departureInstant.getTime();
+      const flightConnections = connections.map((hub, i): FlightConnection => {
+        clock += (blockMinutes(points[i], [], hub) ?? fallbackSegmentMinutes) * MINUTE_MS;
+        const landed = new Date(clock);
+        const localMinutes = (((landed.getTime() / MINUTE_MS + zoneOffsetMinutes(hub.timeZone, landed)) % DAY_MINUTES) + DAY_MINUTES) % DAY_MINUTES;
+        const quiet = localMinutes >= QUIET_FROM_MINUTES || localMinutes < QUIET_UNTIL_MINUTES;
+        clock += (quiet
+          ? (MORNING_BANK_MINUTES + Math.floor(random() * 8) * 15 - Math.round(localMinutes) + DAY_MINUTES) % DAY_MINUTES
+          : 35 + Math.floor(random() * 150)) * MINUTE_MS;
+        const terminals = getMinimumConnectTime(hub.iata).terminals;
+        const arrivalTerminal = terminals.length > 0 ? terminals[Math.floor(random() * terminals.length)] : undefined;
+        const departureTerminal = terminals.length > 0 && random() < 0.4
+          ? terminals[Math.floor(random() * terminals.length)]
+          : arrivalTerminal;
+        return {
+          airport: hub.iata,
+          arrival: formatZonedIso(landed, hub.timeZone),
+          departure: formatZonedIso(new Date(clock), hub.timeZone),
+          arrivalTerminal,
+          departureTerminal
+        };
+      });
+      clock += (blockMinutes(points[points.length - 2], [], destinationAirport) ?? fallbackSegmentMinutes) * MINUTE_MS;
+      const arrivalInstant = new Date(clock);
+      const durationMinutes = Math.round((arrivalInstant.getTime() - departureInstant.getTime()) / MINUTE_MS);
+      const basePrice = 120 + baseMinutes * 0.6 - layovers.length * 40 + random() * 150;
+      const weatherRoll = random();
+
+      return {
+        id: `${originCode}-${destinationCode}-${index + 1}`,
+        airline: airline.name,
+        flight: `${airline.prefix}-${1000 + Math.floor(random() * 9000)}`,
+        origin,
+        destination,
+        departure: formatZonedIso(departureInstant, originAirport?.timeZone ?? 'UTC'),
+        arrival: formatZonedIso(arrivalInstant, destinationAirport?.timeZone ?? 'UTC'),
+        durationMinutes,
+        price: Math.round(Math.max(79, basePrice) * CLASS_MULTIPLIER[criteria.class]),
+        stops: layovers.length,
+        layovers,
+        connections: flightConnections,
+        aircraft: FIXTURE_AIRCRAFT[Math.floor(random() * FIXTURE_AIRCRAFT.length)],
+        score: 0,
+        safetyRating: Math.round((4 + random()) * 10) / 10,
+        onTimePerformance: 70 + Math.floor(random() * 28),
+        route: [origin, ...layovers, destination],
+        weather: weatherRoll > 0.85 ? 'warning' : weatherRoll > 0.6 ? 'caution' : 'favorable'
+      };
+    });
+  }
+});
+
+/**
+ * HTTP provider. POSTs the criteria to `${baseUrl}/flights/search` and expects
+ * either a `FlightResult[]` or `{ results: FlightResult[] }` in response.
+ */
+export const createHttpFlightSearchProvider = (baseUrl: string): FlightSearchProvider => ({
+  id: `http:${baseUrl}`,
+  search: async (criteria, signal) => {
+    const response = await axios.post(`${baseUrl.replace(/\/$/, '')}/flights/search`, criteria, {
+      signal,
+      timeout: 15000
+    });
+    const results = Array.isArray(response.data) ? response.data : response.data?.results;
+    if (!Array.isArray(results)) {
+      throw new Error('Flight search service returned an unexpected response');
+    }
+    return results as FlightResult[];
+  }
+});
+
+// Uses VITE_FLIGHT_SEARCH_URL when set (e.g. a local stand-in server), fixtures otherwise
+export const getDefaultFlightSearchProvider = (): FlightSearchProvider => {
+  const baseUrl = import.meta.env.VITE_FLIGHT_SEARCH_URL;
+  return baseUrl ? createHttpFlightSearchProvider(baseUrl) : createFixtureFlightSearchProvider();
+};
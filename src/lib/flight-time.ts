@@ -0,0 +1,64 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+
+/**
+ * Display helpers for FlightResult times. Departure and arrival are ISO-8601
+ * strings in the airport's local time with its UTC offset, so the wall clock
+ * is read straight off the string and instants come from parsing it whole.
+ */
+
+const DAY_MINUTES = 24 * 60;
+// Offsets further apart than this mean the flight crossed the date line rather than just many zones
+const DATE_LINE_OFFSET_MINUTES = 12 * 60;
+
+// Airport-local wall clock as a Date whose fields date-fns formats directly
+const localWallClock = (iso: string): Date => parseISO(iso.slice(0, 19));
+
+// "+05:30" / "-04:00" / "Z" -> minutes east of UTC
+export const isoOffsetMinutes = (iso: string): number => {
+  const match = iso.match(/([+-])(\d{2}):?(\d{2})$/);
+  if (!match) return 0;
+  return (match[1] === '-' ? -1 : 1) * (parseInt(match[2], 10) * 60 + parseInt(match[3], 10));
+};
+
+export const toInstant = (iso: string): Date => parseISO(iso);
+
+// "07:15" in the airport's own time
+export const formatLocalTime = (iso: string, pattern = 'HH:mm'): string => format(localWallClock(iso), pattern);
+
+export const formatLocalDate = (iso: string, pattern = 'EEE d MMM'): string => format(localWallClock(iso), pattern);
+
+// 465 -> "7h 45m"; a day or more -> "1d 2h 5m"
+export const formatDuration = (minutes: number): string => {
+  const days = Math.floor(minutes / DAY_MINUTES);
+  const rest = minutes % DAY_MINUTES;
+  const time = `${Math.floor(rest / 60)}h ${rest % 60}m`;
+  return days > 0 ? `${days}d ${time}` : time;
+};
+
+export interface ArrivalDay {
+  // Local arrival date minus local departure date
+  dayOffset: number;
+  overnight: boolean;
+  crossesDateLine: boolean;
+  // "Overnight · arrives Wed 11 Jun"; null when arriving the same local day
+  label: string | null;
+}
+
+export const describeArrival = (departure: string, arrival: string): ArrivalDay => {
+  const dayOffset = differenceInCalendarDays(localWallClock(arrival), localWallClock(departure));
+  const crossesDateLine = Math.abs(isoOffsetMinutes(arrival) - isoOffsetMinutes(departure)) > DATE_LINE_OFFSET_MINUTES;
+  const overnight = dayOffset > 0 && !crossesDateLine;
+  const arrives = `arrives ${formatLocalDate(arrival)}`;
+
+  let label: string | null = null;
+  // Always flagged: westbound over the line can land "before" it took off
+  if (crossesDateLine) label = `Crosses date line · ${arrives}`;
+  else if (overnight) label = `Overnight · ${arrives}`;
+  else if (dayOffset < 0) label = `Arrives ${formatLocalDate(arrival)}`;
+
+  return { dayOffset, overnight, crossesDateLine, label };
+};
+
+// 1 -> "+1", -1 -> "−1", 0 -> ""
+export const formatDayOffset = (dayOffset: number): string =>
+  dayOffset === 0 ? '' : `${dayOffset > 0 ? '+' : '−'}${Math.abs(dayOffset)}`;
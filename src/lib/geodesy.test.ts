@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import {
+  alongTrackDistance,
+  crossTrackDistance,
+  destinationPoint,
+  finalBearing,
+  formatCoordinates,
+  greatCircleWaypoints,
+  haversineDistance,
+  initialBearing,
+  parseCoordinates,
+  unwrapLongitudes,
+  vincentyDistance,
+  type CoordinateFormat,
+  type LatLng
+} from '@/lib/geodesy';
+
+const dms = (degrees: number, minutes: number, seconds: number) => degrees + minutes / 60 + seconds / 3600;
+
+// Land's End to John o' Groats, the worked example in Chris Veness's "Movable Type" geodesy scripts
+const LANDS_END: LatLng = [dms(50, 3, 59), -dms(5, 42, 53)];
+const JOHN_O_GROATS: LatLng = [dms(58, 38, 38), -dms(3, 4, 12)];
+
+const JFK: LatLng = [40.6413, -73.7781];
+const LHR: LatLng = [51.47, -0.4543];
+const SYD: LatLng = [-33.9461, 151.1772];
+const LAX: LatLng = [33.9425, -118.4081];
+
+describe('distances', () => {
+  it('matches the spherical reference distance', () => {
+    expect(haversineDistance(LANDS_END, JOHN_O_GROATS)).toBeCloseTo(968.9, 1);
+  });
+
+  it('matches Vincenty\'s own test line to the metre', () => {
+    // Flinders Peak to Buninyong: 54,972.271 m
+    const flindersPeak: LatLng = [-dms(37, 57, 3.7203), dms(144, 25, 29.5244)];
+    const buninyong: LatLng = [-dms(37, 39, 10.1561), dms(143, 55, 35.3839)];
+    expect(vincentyDistance(flindersPeak, buninyong)).toBeCloseTo(54.972271, 3);
+  });
+
+  it('measures long routes on the ellipsoid, where haversine drifts', () => {
+    // Reference values from GeographicLib
+    expect(vincentyDistance(JFK, LHR)).toBeCloseTo(5554.909, 1);
+    expect(vincentyDistance(SYD, LAX)).toBeCloseTo(12050.689, 1);
+
+    const spherical = haversineDistance(SYD, LAX);
+    expect(Math.abs(spherical - 12050.689)).toBeGreaterThan(5);
+    expect(Math.abs(spherical - 12050.689) / 12050.689).toBeLessThan(0.005);
+  });
+
+  it('converts units', () => {
+    expect(haversineDistance(LANDS_END, JOHN_O_GROATS, 'nm')).toBeCloseTo(968.9 / 1.852, 0);
+    expect(vincentyDistance(JFK, LHR, 'sm')).toBeCloseTo(5554.909 / 1.609344, 0);
+  });
+});
+
+describe('bearings', () => {
+  it('gives the initial and final course of the reference route', () => {
+    expect(initialBearing(LANDS_END, JOHN_O_GROATS)).toBeCloseTo(dms(9, 7, 11), 3);
+    expect(finalBearing(LANDS_END, JOHN_O_GROATS)).toBeCloseTo(dms(11, 16, 31), 3);
+  });
+
+  it('keeps bearings within 0-360', () => {
+    expect(initialBearing([0, 0], [0, -10])).toBeCloseTo(270, 6);
+    expect(initialBearing([10, 0], [0, 0])).toBeCloseTo(180, 6);
+  });
+});
+
+describe('destinationPoint', () => {
+  it('matches the reference destination', () => {
+    const [lat, lng] = destinationPoint([dms(53, 19, 14), -dms(1, 43, 47)], dms(96, 1, 18), 124.8);
+    expect(lat).toBeCloseTo(dms(53, 11, 18), 3);
+    expect(lng).toBeCloseTo(dms(0, 8, 0), 3);
+  });
+
+  it('inverts the distance and bearing between two points', () => {
+    const [lat, lng] = destinationPoint(JFK, initialBearing(JFK, LHR), haversineDistance(JFK, LHR));
+    expect(lat).toBeCloseTo(LHR[0], 6);
+    expect(lng).toBeCloseTo(LHR[1], 6);
+  });
+});
+
+describe('cross-track and along-track distance', () => {
+  // Eastbound along the equator; one degree of arc is 111.195 km
+  const start: LatLng = [0, 0];
+  const end: LatLng = [0, 90];
+
+  it('is negative left of course and positive right of it', () => {
+    expect(crossTrackDistance([1, 45], start, end)).toBeCloseTo(-111.195, 2);
+    expect(crossTrackDistance([-1, 45], start, end)).toBeCloseTo(111.195, 2);
+  });
+
+  it('measures progress along the path to the abeam point', () => {
+    expect(alongTrackDistance([1, 45], start, end)).toBeCloseTo(45 * 111.195, 0);
+    expect(alongTrackDistance([1, -10], start, end)).toBeCloseTo(-10 * 111.195, 0);
+  });
+
+  it('agrees with destinationPoint for a point abeam the track', () => {
+    const onTrack = destinationPoint(JFK, initialBearing(JFK, LHR), 2000);
+    const abeam = destinationPoint(onTrack, finalBearing(JFK, onTrack) + 90, 50);
+    expect(crossTrackDistance(abeam, JFK, LHR)).toBeCloseTo(50, 1);
+    expect(alongTrackDistance(abeam, JFK, LHR)).toBeCloseTo(2000, 0);
+  });
+});
+
+describe('the antimeridian', () => {
+  it('measures and steers across it the short way', () => {
+    expect(haversineDistance([0, 179], [0, -179])).toBeCloseTo(2 * 111.195, 2);
+    expect(initialBearing([0, 179], [0, -179])).toBeCloseTo(90, 6);
+  });
+
+  it('wraps destination longitudes into -180..180', () => {
+    const [lat, lng] = destinationPoint([0, 179], 90, 2 * 111.195);
+    expect(lat).toBeCloseTo(0, 6);
+    expect(lng).toBeCloseTo(-179, 3);
+  });
+
+  it('unwraps a track so it never jumps across the map', () => {
+    const track = unwrapLongitudes([[0, 170], ...greatCircleWaypoints([0, 170], [0, -170], 3), [0, -170]]);
+    const longitudes = track.map(([, lng]) => lng);
+    expect(longitudes[0]).toBe(170);
+    expect(longitudes[longitudes.length - 1]).toBeCloseTo(190, 6);
+    longitudes.slice(1).forEach((lng, i) => expect(lng).toBeGreaterThan(longitudes[i]));
+  });
+});
+
+describe('coordinate formats', () => {
+  const point: LatLng = [40.6413, -73.7781];
+
+  it('formats each style', () => {
+    expect(formatCoordinates(point)).toBe('40.6413°, -73.7781°');
+    expect(formatCoordinates(point, 'dm')).toBe('40°38.478\'N 73°46.686\'W');
+    expect(formatCoordinates(point, 'dms')).toBe('40°38\'28.7"N 073°46\'41.2"W');
+    expect(formatCoordinates(point, 'icao')).toBe('4038N07347W');
+  });
+
+  it('carries rounded ICAO minutes into the degrees', () => {
+    expect(formatCoordinates([9.9999, -0.9999], 'icao')).toBe('1000N00100W');
+  });
+
+  it('carries rounded minutes and seconds into the unit above', () => {
+    // 59.9996' and 59.96" round up; neither may print as 60
+    expect(formatCoordinates([dms(40, 59.9996, 0), -dms(73, 59.9996, 0)], 'dm')).toBe('41°0.000\'N 74°0.000\'W');
+    expect(formatCoordinates([dms(40, 59, 59.96), -dms(73, 12, 59.96)], 'dms')).toBe('41°00\'00.0"N 073°13\'00.0"W');
+    expect(formatCoordinates([dms(9, 59, 59.97), 0], 'dms')).toBe('10°00\'00.0"N 000°00\'00.0"E');
+  });
+
+  // How far a round trip may move the point: the precision of each format
+  const tolerance: Record<CoordinateFormat, number> = { decimal: 1e-4, dm: 1e-5, dms: 3e-5, icao: 1 / 60 };
+  const points: LatLng[] = [point, [-33.9461, 151.1772], [64.13, -21.94], [-0.5, 0.25], [89.5, -179.5]];
+
+  (Object.keys(tolerance) as CoordinateFormat[]).forEach(format => {
+    it(`reads back what it writes as ${format}`, () => {
+      points.forEach(original => {
+        const parsed = parseCoordinates(formatCoordinates(original, format));
+        expect(parsed).not.toBeNull();
+        expect(Math.abs(parsed[0] - original[0])).toBeLessThanOrEqual(tolerance[format]);
+        expect(Math.abs(parsed[1] - original[1])).toBeLessThanOrEqual(tolerance[format]);
+      });
+    });
+  });
+
+  it('rejects malformed and out-of-range positions', () => {
+    expect(parseCoordinates('somewhere')).toBeNull();
+    expect(parseCoordinates('4075N07347W')).toBeNull();
+    expect(parseCoordinates('91.0, 10.0')).toBeNull();
+    expect(parseCoordinates('40°61.000\'N 73°46.686\'W')).toBeNull();
+  });
+});
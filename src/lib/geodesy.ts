@@ -0,0 +1,263 @@
+// Aviation geodesy. Points are [lat, lng] in decimal degrees; distances are
+// kilometres unless a DistanceUnit is passed.
+
+export type LatLng = [number, number];
+
+export type DistanceUnit = 'km' | 'nm' | 'sm';
+
+export const EARTH_RADIUS_KM = 6371;
+
+const KM_PER_UNIT: Record<DistanceUnit, number> = {
+  km: 1,
+  nm: 1.852,
+  sm: 1.609344
+};
+
+export const DISTANCE_UNIT_LABELS: Record<DistanceUnit, string> = {
+  km: 'km',
+  nm: 'NM',
+  sm: 'mi'
+};
+
+// WGS-84 ellipsoid
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_B = WGS84_A * (1 - WGS84_F);
+
+export const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+export const toDegrees = (radians: number): number => radians * 180 / Math.PI;
+
+export const normalizeBearing = (degrees: number): number => ((degrees % 360) + 360) % 360;
+
+const normalizeLongitude = (degrees: number): number => ((degrees + 540) % 360) - 180;
+
+export const convertDistance = (km: number, unit: DistanceUnit): number => km / KM_PER_UNIT[unit];
+
+export const toKilometers = (value: number, unit: DistanceUnit): number => value * KM_PER_UNIT[unit];
+
+export const formatDistance = (km: number, unit: DistanceUnit = 'km', digits = 1): string =>
+  `${convertDistance(km, unit).toFixed(digits)} ${DISTANCE_UNIT_LABELS[unit]}`;
+
+// Great-circle distance on a spherical earth (haversine)
+export const haversineDistance = (from: LatLng, to: LatLng, unit: DistanceUnit = 'km'): number => {
+  const dLat = toRadians(to[0] - from[0]);
+  const dLon = toRadians(to[1] - from[1]);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from[0])) * Math.cos(toRadians(to[0])) * Math.sin(dLon / 2) ** 2;
+  return convertDistance(EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a)), unit);
+};
+
+/**
+ * Ellipsoidal (WGS-84) distance using Vincenty's inverse formula. Accurate to
+ * well under a metre; falls back to haversine for nearly antipodal points where
+ * the iteration does not converge.
+ */
+export const vincentyDistance = (from: LatLng, to: LatLng, unit: DistanceUnit = 'km'): number => {
+  const L = toRadians(to[1] - from[1]);
+  const U1 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(from[0])));
+  const U2 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(to[0])));
+  const sinU1 = Math.sin(U1), cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2), cosU2 = Math.cos(U2);
+
+  let lambda = L;
+  let iterations = 0;
+  let sinSigma: number, cosSigma: number, sigma: number, cosSqAlpha: number, cos2SigmaM: number;
+  let lambdaPrev: number;
+
+  do {
+    const sinLambda = Math.sin(lambda);
+    const cosLambda = Math.cos(lambda);
+    sinSigma = Math.sqrt((cosU2 * sinLambda) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2);
+    if (sinSigma === 0) return 0; // coincident points
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = cosU1 * cosU2 * sinLambda / sinSigma;
+    cosSqAlpha = 1 - sinAlpha * sinAlpha;
+    cos2SigmaM = cosSqAlpha !== 0 ? cosSigma - 2 * sinU1 * sinU2 / cosSqAlpha : 0; // equatorial line
+    const C = WGS84_F / 16 * cosSqAlpha * (4 + WGS84_F * (4 - 3 * cosSqAlpha));
+    lambdaPrev = lambda;
+    lambda = L + (1 - C) * WGS84_F * sinAlpha *
+      (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+  } while (Math.abs(lambda - lambdaPrev) > 1e-12 && ++iterations < 200);
+
+  if (iterations >= 200) return haversineDistance(from, to, unit);
+
+  const uSq = cosSqAlpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B) / (WGS84_B * WGS84_B);
+  const A = 1 + uSq / 16384 * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+  const B = uSq / 1024 * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+  const deltaSigma = B * sinSigma * (cos2SigmaM + B / 4 * (cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+    B / 6 * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)));
+
+  return convertDistance(WGS84_B * A * (sigma - deltaSigma) / 1000, unit);
+};
+
+// Initial true course from `from` towards `to`, 0-360°
+export const initialBearing = (from: LatLng, to: LatLng): number => {
+  const lat1 = toRadians(from[0]);
+  const lat2 = toRadians(to[0]);
+  const dLon = toRadians(to[1] - from[1]);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return normalizeBearing(toDegrees(Math.atan2(y, x)));
+};
+
+// True course on arrival at `to` when flying the great circle from `from`
+export const finalBearing = (from: LatLng, to: LatLng): number =>
+  normalizeBearing(initialBearing(to, from) + 180);
+
+// Point reached from `start` after `distance` along the great circle with initial course `bearing`
+export const destinationPoint = (start: LatLng, bearing: number, distance: number, unit: DistanceUnit = 'km'): LatLng => {
+  const delta = toKilometers(distance, unit) / EARTH_RADIUS_KM;
+  const theta = toRadians(bearing);
+  const lat1 = toRadians(start[0]);
+  const lon1 = toRadians(start[1]);
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(delta) + Math.cos(lat1) * Math.sin(delta) * Math.cos(theta));
+  const lon2 = lon1 + Math.atan2(
+    Math.sin(theta) * Math.sin(delta) * Math.cos(lat1),
+    Math.cos(delta) - Math.sin(lat1) * Math.sin(lat2)
+  );
+  return [toDegrees(lat2), normalizeLongitude(toDegrees(lon2))];
+};
+
+/**
+ * Signed distance of `point` from the great circle `pathStart` → `pathEnd`.
+ * Positive is right of course, negative is left.
+ */
+export const crossTrackDistance = (point: LatLng, pathStart: LatLng, pathEnd: LatLng, unit: DistanceUnit = 'km'): number => {
+  const delta13 = haversineDistance(pathStart, point) / EARTH_RADIUS_KM;
+  const theta13 = toRadians(initialBearing(pathStart, point));
+  const theta12 = toRadians(initialBearing(pathStart, pathEnd));
+  return convertDistance(Math.asin(Math.sin(delta13) * Math.sin(theta13 - theta12)) * EARTH_RADIUS_KM, unit);
+};
+
+// Distance from `pathStart` to the point on the path abeam `point` (negative if behind the start)
+export const alongTrackDistance = (point: LatLng, pathStart: LatLng, pathEnd: LatLng, unit: DistanceUnit = 'km'): number => {
+  const delta13 = haversineDistance(pathStart, point) / EARTH_RADIUS_KM;
+  const theta13 = toRadians(initialBearing(pathStart, point));
+  const theta12 = toRadians(initialBearing(pathStart, pathEnd));
+  const deltaXt = Math.asin(Math.sin(delta13) * Math.sin(theta13 - theta12));
+  const deltaAt = Math.acos(Math.min(1, Math.cos(delta13) / Math.cos(deltaXt)));
+  return convertDistance(deltaAt * Math.sign(Math.cos(theta12 - theta13)) * EARTH_RADIUS_KM, unit);
+};
+
+// Point at `fraction` (0-1) of the way along the great circle from `from` to `to`
+export const interpolateGreatCircle = (from: LatLng, to: LatLng, fraction: number): LatLng => {
+  const lat1 = toRadians(from[0]);
+  const lon1 = toRadians(from[1]);
+  const lat2 = toRadians(to[0]);
+  const lon2 = toRadians(to[1]);
+  const delta = haversineDistance(from, to) / EARTH_RADIUS_KM;
+  if (delta === 0) return [from[0], from[1]];
+
+  const a = Math.sin((1 - fraction) * delta) / Math.sin(delta);
+  const b = Math.sin(fraction * delta) / Math.sin(delta);
+  const x = a * Math.cos(lat1) * Math.cos(lon1) + b * Math.cos(lat2) * Math.cos(lon2);
+  const y = a * Math.cos(lat1) * Math.sin(lon1) + b * Math.cos(lat2) * Math.sin(lon2);
+  const z = a * Math.sin(lat1) + b * Math.sin(lat2);
+  return [toDegrees(Math.atan2(z, Math.sqrt(x * x + y * y))), toDegrees(Math.atan2(y, x))];
+};
+
+/**
+ * `count` intermediate points evenly spaced along the geodesic, excluding
+ * both endpoints. Use `[from, ...points, to]` for the full track.
+ */
+export const greatCircleWaypoints = (from: LatLng, to: LatLng, count: number): LatLng[] =>
+  Array.from({ length: Math.max(0, count) }, (_, i) => interpolateGreatCircle(from, to, (i + 1) / (count + 1)));
+
+// Shifts longitudes so consecutive points never jump across the antimeridian when drawn
+export const unwrapLongitudes = (points: LatLng[]): LatLng[] => {
+  const result: LatLng[] = [];
+  points.forEach((point, index) => {
+    if (index === 0) {
+      result.push(point);
+      return;
+    }
+    const previous = result[index - 1][1];
+    let lng = point[1];
+    while (lng - previous > 180) lng -= 360;
+    while (lng - previous < -180) lng += 360;
+    result.push([point[0], lng]);
+  });
+  return result;
+};
+
+export type CoordinateFormat = 'decimal' | 'dm' | 'dms' | 'icao';
+
+// Rounds |value| to a whole number of 1/perMinute minutes before splitting it, so rounding carries into the minutes and degrees
+const splitAngle = (value: number, perMinute: number) => {
+  const total = Math.round(Math.abs(value) * 60 * perMinute);
+  const degrees = Math.floor(total / (60 * perMinute));
+  const minutes = (total - degrees * 60 * perMinute) / perMinute;
+  return { degrees, minutes, seconds: (minutes - Math.floor(minutes)) * 60 };
+};
+
+/**
+ * Formats a position:
+ * - decimal: `40.6413°, -73.7781°`
+ * - dm:      `40°38.478'N 73°46.686'W`
+ * - dms:     `40°38'28.7"N 073°46'41.2"W`
+ * - icao:    `4038N07347W` (flight-plan degrees/minutes)
+ */
+export const formatCoordinates = (point: LatLng, format: CoordinateFormat = 'decimal'): string => {
+  const [lat, lng] = point;
+  const latDir = lat >= 0 ? 'N' : 'S';
+  const lngDir = lng >= 0 ? 'E' : 'W';
+
+  switch (format) {
+    case 'dm': {
+      // Thousandths of a minute
+      const la = splitAngle(lat, 1000);
+      const lo = splitAngle(lng, 1000);
+      return `${la.degrees}°${la.minutes.toFixed(3)}'${latDir} ${lo.degrees}°${lo.minutes.toFixed(3)}'${lngDir}`;
+    }
+    case 'dms': {
+      // Tenths of a second
+      const la = splitAngle(lat, 600);
+      const lo = splitAngle(lng, 600);
+      return `${la.degrees.toString().padStart(2, '0')}°${Math.floor(la.minutes).toString().padStart(2, '0')}'${la.seconds.toFixed(1).padStart(4, '0')}"${latDir} ` +
+        `${lo.degrees.toString().padStart(3, '0')}°${Math.floor(lo.minutes).toString().padStart(2, '0')}'${lo.seconds.toFixed(1).padStart(4, '0')}"${lngDir}`;
+    }
+    case 'icao': {
+      // Whole minutes
+      const a = splitAngle(lat, 1);
+      const o = splitAngle(lng, 1);
+      return `${a.degrees.toString().padStart(2, '0')}${a.minutes.toString().padStart(2, '0')}${latDir}` +
+        `${o.degrees.toString().padStart(3, '0')}${o.minutes.toString().padStart(2, '0')}${lngDir}`;
+    }
+    default:
+      return `${lat.toFixed(4)}°, ${lng.toFixed(4)}°`;
+  }
+};
+
+const ANGLE = `(\\d{1,3})°\\s*(\\d{1,2}(?:\\.\\d+)?)'(?:\\s*(\\d{1,2}(?:\\.\\d+)?)")?\\s*`;
+const DM_POSITION = new RegExp(`^${ANGLE}([NS])[\\s,]+${ANGLE}([EW])$`, 'i');
+const ICAO_POSITION = /^(\d{2})(\d{2})([NS])(\d{3})(\d{2})([EW])$/i;
+const DECIMAL_POSITION = /^(-?\d{1,2}(?:\.\d+)?)°?\s*,\s*(-?\d{1,3}(?:\.\d+)?)°?$/;
+
+const signedAngle = (degrees: string, minutes: string, seconds: string | undefined, direction: string): number => {
+  const value = parseInt(degrees, 10) + parseFloat(minutes) / 60 + (seconds ? parseFloat(seconds) / 3600 : 0);
+  return /[SW]/i.test(direction) ? -value : value;
+};
+
+/**
+ * Reads a position in any of the formatCoordinates formats. Returns null
+ * for anything else, or for a position off the globe.
+ */
+export const parseCoordinates = (text: string): LatLng | null => {
+  const input = text.trim();
+  let point: LatLng | null = null;
+
+  const dm = DM_POSITION.exec(input);
+  const icao = ICAO_POSITION.exec(input);
+  const decimal = DECIMAL_POSITION.exec(input);
+  if (dm) {
+    if (parseFloat(dm[2]) >= 60 || parseFloat(dm[6]) >= 60 || parseFloat(dm[3] ?? '0') >= 60 || parseFloat(dm[7] ?? '0') >= 60) return null;
+    point = [signedAngle(dm[1], dm[2], dm[3], dm[4]), signedAngle(dm[5], dm[6], dm[7], dm[8])];
+  } else if (icao) {
+    if (parseInt(icao[2], 10) >= 60 || parseInt(icao[5], 10) >= 60) return null;
+    point = [signedAngle(icao[1], icao[2], undefined, icao[3]), signedAngle(icao[4], icao[5], undefined, icao[6])];
+  } else if (decimal) {
+    point = [parseFloat(decimal[1]), parseFloat(decimal[2])];
+  }
+  return point && Math.abs(point[0]) <= 90 && Math.abs(point[1]) <= 180 ? point : null;
+};
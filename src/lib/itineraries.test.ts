@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { createFixtureFlightSearchProvider, DEFAULT_SEARCH_CRITERIA, type SearchCriteria } from '@/lib/flight-search';
+import { combineLegResults, countItineraries, searchItineraries } from '@/lib/itineraries';
+
+// Enough results per leg that pairing has to cap the partial trips it carries forward
+const provider = createFixtureFlightSearchProvider({ resultCount: 14 });
+
+const MULTI_CITY: SearchCriteria = {
+  ...DEFAULT_SEARCH_CRITERIA,
+  tripType: 'multicity',
+  legs: [
+    { origin: 'JFK', destination: 'LHR', departureDate: '2026-11-02' },
+    { origin: 'LHR', destination: 'CDG', departureDate: '2026-11-06' },
+    { origin: 'CDG', destination: 'FRA', departureDate: '2026-11-09' },
+    { origin: 'FRA', destination: 'JFK', departureDate: '2026-11-12' }
+  ]
+};
+
+describe('searchItineraries', () => {
+  it('finds filtered multi-city trips that pairing would otherwise have capped away', async () => {
+    const airline = 'SkyLine Airways';
+    const search = await searchItineraries(provider, {
+      ...MULTI_CITY,
+      filters: { ...MULTI_CITY.filters, preferredAirlines: [airline] }
+    });
+
+    expect(search.itineraries.length).toBeGreaterThan(0);
+    search.itineraries.forEach(itinerary => itinerary.legs.forEach(leg => expect(leg.airline).toBe(airline)));
+  });
+
+  it('accounts for every itinerary it found', async () => {
+    const search = await searchItineraries(provider, {
+      ...MULTI_CITY,
+      filters: { ...MULTI_CITY.filters, preferredAirlines: ['Global Wings'], maxLayovers: 1 }
+    });
+    const removed = search.outcomes.reduce((sum, outcome) => sum + outcome.removed, 0);
+    expect(search.total - removed).toBe(search.itineraries.length);
+  });
+
+  it('reports the same total and airlines whatever the filters', async () => {
+    const unfiltered = await searchItineraries(provider, MULTI_CITY);
+    const filtered = await searchItineraries(provider, {
+      ...MULTI_CITY,
+      filters: { ...MULTI_CITY.filters, preferredAirlines: ['SkyLine Airways'] }
+    });
+    expect(filtered.total).toBe(unfiltered.total);
+    expect(filtered.airlines).toEqual(unfiltered.airlines);
+    expect(filtered.airlines).toContain('Global Wings');
+  });
+});
+
+describe('countItineraries', () => {
+  it('counts the trips pairing would make', async () => {
+    const legs = MULTI_CITY.legs.slice(0, 2);
+    const legResults = await Promise.all(legs.map(leg => provider.search({ ...MULTI_CITY, ...leg, tripType: 'oneway', legs: undefined })));
+    expect(countItineraries(legResults)).toBe(combineLegResults(legResults, MULTI_CITY.priorities).length);
+    expect(countItineraries([])).toBe(0);
+  });
+});
@@ -0,0 +1,175 @@
+import { toInstant } from '@/lib/flight-time';
+import type { FlightResult, FlightSearchProvider, SearchCriteria, SearchLeg } from '@/lib/flight-search';
+import { rankItineraries, type ScoreBreakdown, type UnscoredItinerary } from '@/lib/scoring';
+import { flightAirlines, passesLegFilters, tallyLegFilters, type FilterOutcome } from '@/lib/search-filters';
+
+/**
+ * A bookable trip: one flight per searched leg, priced and scored as a whole
+ * so a cheap outbound can't hide an awful return.
+ */
+export interface Itinerary {
+  id: string;
+  legs: FlightResult[];
+  price: number;
+  // Flying and connection time summed over the legs; time spent at a stopover city is not counted
+  durationMinutes: number;
+  stops: number;
+  // 0-100, relative to the other itineraries in the same search (see scoring.ts)
+  score: number;
+  breakdown: ScoreBreakdown;
+}
+
+// What a search resolves to: the filtered itineraries plus what the filters did
+export interface ItinerarySearch {
+  // Every itinerary that passed the filters, best first; the results list pages through them
+  itineraries: Itinerary[];
+  // Trips the per-leg results make before any filter ran, counted whether or not pairing kept them
+  total: number;
+  outcomes: FilterOutcome[];
+  // Every airline found, including ones filtered out, so the picker can offer them
+  airlines: string[];
+}
+
+export const MAX_MULTI_CITY_LEGS = 5;
+// Partial itineraries kept between legs while pairing, so multi-city trips don't explode combinatorially
+const MAX_PARTIAL_ITINERARIES = 60;
+// Shortest gap between arriving on one leg and departing on the next
+const MIN_STOPOVER_MINUTES = 120;
+
+const connects = (previous: FlightResult, next: FlightResult): boolean =>
+  toInstant(next.departure).getTime() >= toInstant(previous.arrival).getTime() + MIN_STOPOVER_MINUTES * 60 * 1000;
+
+// The legs a search actually flies, in order
+export const searchLegs = (criteria: SearchCriteria): SearchLeg[] => {
+  switch (criteria.tripType) {
+    case 'multicity':
+      return criteria.legs ?? [];
+    case 'roundtrip':
+      return [
+        { origin: criteria.origin, destination: criteria.destination, departureDate: criteria.departureDate },
+        { origin: criteria.destination, destination: criteria.origin, departureDate: criteria.returnDate ?? '' }
+      ];
+    default:
+      return [{ origin: criteria.origin, destination: criteria.destination, departureDate: criteria.departureDate }];
+  }
+};
+
+// What a provider is asked for a single leg
+const legCriteria = (criteria: SearchCriteria, leg: SearchLeg): SearchCriteria => ({
+  ...criteria,
+  ...leg,
+  returnDate: '',
+  tripType: 'oneway',
+  legs: undefined
+});
+
+export const createItinerary = (legs: FlightResult[]): UnscoredItinerary => ({
+  id: legs.map(leg => leg.id).join('+'),
+  legs,
+  price: legs.reduce((total, leg) => total + leg.price, 0),
+  durationMinutes: legs.reduce((total, leg) => total + leg.durationMinutes, 0),
+  stops: legs.reduce((total, leg) => total + leg.stops, 0)
+});
+
+/**
+ * Pairs per-leg results into whole trips. Every combination whose legs connect
+ * is scored together; the best partial trips are kept after each leg, and all
+ * complete ones are returned best first. With `filters`, flights the per-leg
+ * filters exclude are dropped before pairing, so the cap on partial trips
+ * never crowds out combinations the filters would keep.
+ */
+export const combineLegResults = (
+  legResults: FlightResult[][],
+  priorities: SearchCriteria['priorities'],
+  filters?: SearchCriteria['filters']
+): Itinerary[] => {
+  let partials: FlightResult[][] = [[]];
+
+  legResults.forEach((allResults, legIndex) => {
+    const results = filters ? allResults.filter(flight => passesLegFilters(flight, filters)) : allResults;
+    const extended = partials.flatMap(partial => results
+      .filter(flight => legIndex === 0 || connects(partial[partial.length - 1], flight))
+      .map(flight => [...partial, flight]));
+
+    // Complete trips are all kept; only the partial ones feeding the next leg are capped
+    partials = legIndex === legResults.length - 1
+      ? extended
+      : rankItineraries(extended.map(legs => createItinerary(legs)), priorities)
+        .slice(0, MAX_PARTIAL_ITINERARIES)
+        .map(itinerary => itinerary.legs);
+  });
+
+  if (legResults.length === 0) return [];
+  return rankItineraries(partials.map(legs => createItinerary(legs)), priorities);
+};
+
+// Whole trips the per-leg results make, counted leg by leg rather than paired
+export const countItineraries = (legResults: FlightResult[][]): number => {
+  if (legResults.length === 0) return 0;
+  // Trips ending on each flight of the leg so far
+  let counts = legResults[0].map(() => 1);
+  legResults.slice(1).forEach((results, i) => {
+    const previous = legResults[i];
+    counts = results.map(flight =>
+      previous.reduce((sum, earlier, j) => sum + (connects(earlier, flight) ? counts[j] : 0), 0));
+  });
+  return counts.reduce((sum, count) => sum + count, 0);
+};
+
+export const searchLeg = (
+  provider: FlightSearchProvider,
+  criteria: SearchCriteria,
+  leg: SearchLeg,
+  signal?: AbortSignal
+): Promise<FlightResult[]> => provider.search(legCriteria(criteria, leg), signal);
+
+// Searches every leg in parallel, then scores, filters and ranks the itineraries
+export const searchItineraries = async (
+  provider: FlightSearchProvider,
+  criteria: SearchCriteria,
+  signal?: AbortSignal
+): Promise<ItinerarySearch> => {
+  const legs = searchLegs(criteria);
+  const legResults = await Promise.all(legs.map(leg => searchLeg(provider, criteria, leg, signal)));
+  const eligible = combineLegResults(legResults, criteria.priorities, criteria.filters);
+  // Re-scored with the direct-flight preference, which pairing doesn't apply
+  const ranked = rankItineraries(eligible, criteria.priorities, { preferDirect: criteria.filters.directFlights });
+  const { total, outcomes } = tallyLegFilters(legResults, ranked, criteria.filters, countItineraries);
+  return {
+    itineraries: ranked,
+    total,
+    outcomes,
+    airlines: flightAirlines(legResults.flat())
+  };
+};
+
+// "Outbound" / "Return" for round trips, "Leg 2" for multi-city
+export const legLabel = (tripType: SearchCriteria['tripType'], index: number): string => {
+  switch (tripType) {
+    case 'roundtrip':
+      return index === 0 ? 'Outbound' : 'Return';
+    case 'multicity':
+      return `Leg ${index + 1}`;
+    default:
+      return 'Flight';
+  }
+};
+
+// Full routing, connections included, with each leg's start merged into the previous leg's end
+export const itineraryRoute = (itinerary: Itinerary): string[] =>
+  itinerary.legs.flatMap(leg => leg.route.length > 1 ? leg.route : [leg.origin, leg.destination])
+    .filter((code, index, all) => index === 0 || code !== all[index - 1]);
+
+// Where the traveller actually goes: the origin and every leg's destination
+export const itineraryStops = (itinerary: Itinerary): string[] =>
+  itinerary.legs.length > 0 ? [itinerary.legs[0].origin, ...itinerary.legs.map(leg => leg.destination)] : [];
+
+const WEATHER_SEVERITY: FlightResult['weather'][] = ['favorable', 'caution', 'warning'];
+
+// 0 for favorable up to 2 for warning
+export const weatherSeverity = (weather: FlightResult['weather']): number => WEATHER_SEVERITY.indexOf(weather);
+
+// The worst en-route weather across the legs
+export const itineraryWeather = (itinerary: Itinerary): FlightResult['weather'] =>
+  itinerary.legs.reduce<FlightResult['weather']>((worst, leg) =>
+    weatherSeverity(leg.weather) > weatherSeverity(worst) ? leg.weather : worst, 'favorable');
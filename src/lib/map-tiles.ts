@@ -0,0 +1,29 @@
+export interface TileSource {
+  id: 'online' | 'offline';
+  url: string;
+  attribution: string;
+  maxZoom: number;
+}
+
+export const ONLINE_TILE_SOURCE: TileSource = {
+  id: 'online',
+  url: import.meta.env.VITE_MAP_TILE_URL || 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+  maxZoom: 18
+};
+
+// Pre-rendered XYZ tiles copied into public/tiles (e.g. exported with a tile downloader)
+export const OFFLINE_TILE_SOURCE: TileSource = {
+  id: 'offline',
+  url: import.meta.env.VITE_MAP_OFFLINE_TILE_URL || '/tiles/{z}/{x}/{y}.png',
+  attribution: 'Offline tiles &copy; OpenStreetMap contributors',
+  maxZoom: 10
+};
+
+// VITE_MAP_TILES=offline pins the local tiles; otherwise follow the browser's connectivity
+export const selectTileSource = (online: boolean = navigator.onLine): TileSource => {
+  const mode = import.meta.env.VITE_MAP_TILES;
+  if (mode === 'offline') return OFFLINE_TILE_SOURCE;
+  if (mode === 'online') return ONLINE_TILE_SOURCE;
+  return online ? ONLINE_TILE_SOURCE : OFFLINE_TILE_SOURCE;
+};
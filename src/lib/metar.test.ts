@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+import { getFlightCategory, parseMetar, parseTaf, resolveReportTime, splitReports } from '@/lib/metar';
+
+// Reports are read as of 18 October 2026, 18:00Z unless a test says otherwise
+const READ_AT = new Date(Date.UTC(2026, 9, 18, 18, 0));
+const utc = (month: number, day: number, hour: number, minute = 0) => new Date(Date.UTC(2026, month - 1, day, hour, minute));
+
+describe('parseMetar', () => {
+  it('decodes a routine US report', () => {
+    const metar = parseMetar('METAR KJFK 181451Z 31018G29KT 280V340 10SM FEW045 BKN250 08/M04 A3012 RMK AO2 SLP199 T00831039', READ_AT);
+    expect(metar).toMatchObject({
+      station: 'KJFK',
+      observed: utc(10, 18, 14, 51),
+      auto: false,
+      wind: { direction: 310, speedKt: 18, gustKt: 29, variableFrom: 280, variableTo: 340 },
+      visibilitySm: 10,
+      cavok: false,
+      clouds: [{ cover: 'FEW', baseFt: 4500 }, { cover: 'BKN', baseFt: 25000 }],
+      ceilingFt: 25000,
+      temperatureC: 8,
+      dewpointC: -4,
+      altimeterInHg: 30.12,
+      flightCategory: 'VFR',
+      remarks: 'AO2 SLP199 T00831039',
+      unparsed: []
+    });
+  });
+
+  it('reads CAVOK as 10 km and no cloud, and keeps the trend out of the observation', () => {
+    const metar = parseMetar('METAR EGLL 181450Z 24015KT CAVOK 13/06 Q1018 NOSIG', READ_AT);
+    expect(metar.cavok).toBe(true);
+    expect(metar.visibilitySm).toBeCloseTo(6.21, 2);
+    expect(metar.clouds).toEqual([]);
+    expect(metar.ceilingFt).toBeNull();
+    expect(metar.altimeterInHg).toBe(30.06);
+    expect(metar.flightCategory).toBe('VFR');
+    expect(metar.unparsed).toEqual(['NOSIG']);
+  });
+
+  it('reads variable wind, and metric wind and visibility', () => {
+    expect(parseMetar('KDEN 181453Z VRB03KT 10SM SKC 12/M08 A3021', READ_AT).wind).toEqual({ direction: null, speedKt: 3, gustKt: undefined });
+
+    const metar = parseMetar('METAR UUEE 181500Z 27005G10MPS 4500 -SN BR SCT008 OVC015 M02/M03 Q1002', READ_AT);
+    expect(metar.wind).toMatchObject({ direction: 270, speedKt: 10, gustKt: 19 });
+    expect(metar.visibilitySm).toBeCloseTo(2.8, 1);
+    expect(metar.weather.map(w => [w.intensity, w.phenomena])).toEqual([['light', ['SN']], ['moderate', ['BR']]]);
+    expect(metar.ceilingFt).toBe(1500);
+    expect(metar.flightCategory).toBe('IFR');
+  });
+
+  it('reads NSC as no cloud', () => {
+    const metar = parseMetar('METAR LFPG 181500Z 21008KT 9999 NSC 15/08 Q1016', READ_AT);
+    expect(metar.clouds).toEqual([]);
+    expect(metar.visibilitySm).toBeCloseTo(6.21, 2);
+    expect(metar.flightCategory).toBe('VFR');
+  });
+
+  it('skips runway visual range and takes a vertical visibility as the ceiling', () => {
+    const metar = parseMetar('SPECI KSFO 181456Z AUTO 00000KT 1/2SM R28L/2400V4000FT FG VV002 11/11 A3001', READ_AT);
+    expect(metar.auto).toBe(true);
+    expect(metar.visibilitySm).toBe(0.5);
+    expect(metar.weather).toEqual([{ raw: 'FG', intensity: 'moderate', descriptor: undefined, phenomena: ['FG'] }]);
+    expect(metar.clouds).toEqual([{ cover: 'VV', baseFt: 200, type: undefined }]);
+    expect(metar.ceilingFt).toBe(200);
+    expect(metar.flightCategory).toBe('LIFR');
+    expect(metar.unparsed).toEqual([]);
+  });
+
+  it('reads mixed-number visibility, thunderstorms and convective cloud', () => {
+    const metar = parseMetar('METAR KMIA 181453Z 09012G22KT 1 1/2SM +TSRA BKN012CB OVC030 24/22 A2992', READ_AT);
+    expect(metar.visibilitySm).toBe(1.5);
+    expect(metar.weather).toEqual([{ raw: '+TSRA', intensity: 'heavy', descriptor: 'TS', phenomena: ['RA'] }]);
+    expect(metar.clouds[0]).toEqual({ cover: 'BKN', baseFt: 1200, type: 'CB' });
+    expect(metar.flightCategory).toBe('IFR');
+  });
+
+  it('rejects a report without a station', () => {
+    expect(() => parseMetar('METAR 181451Z 31018KT', READ_AT)).toThrow('Invalid METAR station identifier');
+  });
+});
+
+describe('parseTaf', () => {
+  const taf = parseTaf(
+    'TAF KJFK 181720Z 1818/1924 31015G25KT P6SM FEW050 FM182200 30010KT P6SM SKC ' +
+    'TEMPO 1902/1906 3SM -SHRA BKN025 BECMG 1910/1912 20008KT PROB30 1915/1918 2SM TSRA OVC015CB',
+    READ_AT
+  );
+
+  it('reads the issue time and validity, to 24Z', () => {
+    expect(taf.station).toBe('KJFK');
+    expect(taf.issued).toEqual(utc(10, 18, 17, 20));
+    expect(taf.validFrom).toEqual(utc(10, 18, 18));
+    expect(taf.validTo).toEqual(utc(10, 20, 0));
+  });
+
+  it('splits the forecast into its change groups', () => {
+    expect(taf.periods.map(period => [period.change, period.from, period.to])).toEqual([
+      ['BASE', utc(10, 18, 18), utc(10, 18, 22)],
+      ['FM', utc(10, 18, 22), utc(10, 20, 0)],
+      ['TEMPO', utc(10, 19, 2), utc(10, 19, 6)],
+      ['BECMG', utc(10, 19, 10), utc(10, 19, 12)],
+      ['PROB', utc(10, 19, 15), utc(10, 19, 18)]
+    ]);
+    expect(taf.periods[4].probability).toBe(30);
+  });
+
+  it('lets FM replace conditions and TEMPO/BECMG/PROB inherit what they leave out', () => {
+    const [base, fm, tempo, becmg, prob] = taf.periods;
+    expect(base).toMatchObject({ wind: { direction: 310, speedKt: 15, gustKt: 25 }, visibilitySm: 6, flightCategory: 'VFR' });
+    expect(fm).toMatchObject({ wind: { direction: 300, speedKt: 10 }, clouds: [], flightCategory: 'VFR' });
+    expect(tempo).toMatchObject({ wind: { direction: 300, speedKt: 10 }, visibilitySm: 3, ceilingFt: 2500, flightCategory: 'MVFR' });
+    expect(tempo.weather.map(w => w.raw)).toEqual(['-SHRA']);
+    expect(becmg).toMatchObject({ wind: { direction: 200, speedKt: 8 }, visibilitySm: 6, clouds: [], flightCategory: 'VFR' });
+    expect(prob).toMatchObject({ visibilitySm: 2, ceilingFt: 1500, flightCategory: 'IFR' });
+    expect(prob.clouds[0].type).toBe('CB');
+  });
+
+  it('reads an amended forecast with metric visibility', () => {
+    const amended = parseTaf('TAF AMD EGLL 181700Z 1818/1924 24012KT 9999 SCT035 BECMG 1906/1909 4000 RA BKN008', READ_AT);
+    expect(amended.station).toBe('EGLL');
+    expect(amended.periods[1]).toMatchObject({ change: 'BECMG', ceilingFt: 800, flightCategory: 'IFR' });
+    expect(amended.periods[1].visibilitySm).toBeCloseTo(2.49, 2);
+  });
+
+  it('rejects a forecast without a station', () => {
+    expect(() => parseTaf('TAF 181720Z 1818/1924 31015KT', READ_AT)).toThrow('Invalid TAF station identifier');
+  });
+});
+
+describe('report times across a month end', () => {
+  // Read just after midnight on 1 November; October has 31 days, November 30
+  const firstOfNovember = utc(11, 1, 0, 10);
+
+  it('places a report from the 31st in the month before', () => {
+    expect(parseMetar('METAR EGLL 312350Z 24010KT 9999 FEW030 10/05 Q1020', firstOfNovember).observed).toEqual(utc(10, 31, 23, 50));
+  });
+
+  it('runs a forecast issued on the 31st into the 1st', () => {
+    const taf = parseTaf('TAF EGLL 312300Z 0100/0206 24010KT 9999 FEW030 FM011200 27015KT CAVOK', firstOfNovember);
+    expect(taf.issued).toEqual(utc(10, 31, 23));
+    expect(taf.validFrom).toEqual(utc(11, 1, 0));
+    expect(taf.validTo).toEqual(utc(11, 2, 6));
+    expect(taf.periods[1].from).toEqual(utc(11, 1, 12));
+  });
+
+  it('resolves a day/time group to the nearest month that has the day', () => {
+    expect(resolveReportTime(18, 14, 51, READ_AT)).toEqual(utc(10, 18, 14, 51));
+    // A forecast end just after midnight on the 1st, read on the 31st
+    expect(resolveReportTime(1, 6, 0, utc(10, 31, 23))).toEqual(utc(11, 1, 6));
+    expect(resolveReportTime(28, 12, 0, utc(3, 1, 6))).toEqual(utc(2, 28, 12));
+    // Far enough ahead, the day belongs to last month
+    expect(resolveReportTime(25, 12, 0, utc(10, 3, 6))).toEqual(utc(9, 25, 12));
+  });
+});
+
+describe('getFlightCategory', () => {
+  it.each([
+    [null, null, null],
+    [null, 10, 'VFR'],
+    [3100, 5.5, 'VFR'],
+    [3000, 10, 'MVFR'],
+    [5000, 5, 'MVFR'],
+    [999, 10, 'IFR'],
+    [5000, 2.5, 'IFR'],
+    [499, 10, 'LIFR'],
+    [null, 0.75, 'LIFR']
+  ] as const)('ceiling %s ft and %s SM is %s', (ceilingFt, visibilitySm, category) => {
+    expect(getFlightCategory(ceilingFt, visibilitySm)).toBe(category);
+  });
+});
+
+describe('splitReports', () => {
+  it('keys reports by station, joining continuation lines and skipping comments', () => {
+    const reports = splitReports([
+      '# Latest observations',
+      'METAR KJFK 181451Z 31018G29KT 10SM FEW045 08/M04 A3012',
+      'SPECI KSFO 181456Z 00000KT 1/2SM FG VV002 11/11 A3001',
+      '',
+      'EGLL 181450Z 24015KT CAVOK 13/06 Q1018'
+    ].join('\n'), 'METAR');
+    expect([...reports.keys()]).toEqual(['KJFK', 'KSFO', 'EGLL']);
+    expect(reports.get('EGLL')).toBe('EGLL 181450Z 24015KT CAVOK 13/06 Q1018');
+
+    const tafs = splitReports('TAF AMD KJFK 181720Z 1818/1924 31015KT P6SM FEW050\n  FM182200 30010KT P6SM SKC\r\nTAF EGLL 181700Z 1818/1924 24012KT 9999 SCT035', 'TAF');
+    expect(tafs.get('KJFK')).toBe('TAF AMD KJFK 181720Z 1818/1924 31015KT P6SM FEW050 FM182200 30010KT P6SM SKC');
+    expect(parseTaf(tafs.get('KJFK'), READ_AT).periods).toHaveLength(2);
+    expect(tafs.has('EGLL')).toBe(true);
+  });
+});
@@ -0,0 +1,452 @@
+// METAR / TAF decoding. Only the groups the app uses are decoded; remarks
+// (RMK) and unrecognized groups are kept on the report for auditing.
+
+export interface WindGroup {
+  direction: number | null; // degrees true, null when variable (VRB)
+  speedKt: number;
+  gustKt?: number;
+  variableFrom?: number;
+  variableTo?: number;
+}
+
+export interface CloudLayer {
+  cover: 'FEW' | 'SCT' | 'BKN' | 'OVC' | 'VV';
+  baseFt: number;
+  type?: 'CB' | 'TCU';
+}
+
+export interface WeatherPhenomenon {
+  raw: string;
+  intensity: 'light' | 'moderate' | 'heavy' | 'vicinity';
+  descriptor?: string;
+  phenomena: string[];
+}
+
+export type FlightCategory = 'VFR' | 'MVFR' | 'IFR' | 'LIFR';
+
+export interface MetarReport {
+  raw: string;
+  station: string;
+  observed: Date | null;
+  auto: boolean;
+  wind: WindGroup | null;
+  visibilitySm: number | null;
+  cavok: boolean;
+  weather: WeatherPhenomenon[];
+  clouds: CloudLayer[];
+  ceilingFt: number | null;
+  temperatureC: number | null;
+  dewpointC: number | null;
+  altimeterInHg: number | null;
+  flightCategory: FlightCategory | null;
+  remarks: string;
+  unparsed: string[];
+}
+
+export interface TafPeriod {
+  change: 'BASE' | 'FM' | 'BECMG' | 'TEMPO' | 'PROB';
+  probability?: number;
+  from: Date | null;
+  to: Date | null;
+  wind: WindGroup | null;
+  visibilitySm: number | null;
+  weather: WeatherPhenomenon[];
+  clouds: CloudLayer[];
+  ceilingFt: number | null;
+  flightCategory: FlightCategory | null;
+}
+
+export interface TafReport {
+  raw: string;
+  station: string;
+  issued: Date | null;
+  validFrom: Date | null;
+  validTo: Date | null;
+  periods: TafPeriod[];
+}
+
+const METERS_PER_SM = 1609.344;
+const MPS_TO_KT = 1.943844;
+const HPA_TO_INHG = 0.02953;
+
+const WIND_RE = /^(\d{3}|VRB)(\d{2,3})(?:G(\d{2,3}))?(KT|MPS)$/;
+const WIND_VARIATION_RE = /^(\d{3})V(\d{3})$/;
+const CLOUD_RE = /^(FEW|SCT|BKN|OVC|VV)(\d{3}|\/\/\/)(CB|TCU)?$/;
+const TEMP_RE = /^(M?\d{2})\/(M?\d{2})?$/;
+const WEATHER_RE = /^(\+|-|VC)?(MI|PR|BC|DR|BL|SH|TS|FZ)?((?:DZ|RA|SN|SG|IC|PL|GR|GS|UP|BR|FG|FU|VA|DU|SA|HZ|PY|PO|SQ|FC|SS|DS)*)$/;
+const SKY_CLEAR = new Set(['SKC', 'CLR', 'NSC', 'NCD']);
+
+const parseSignedTemp = (value: string): number =>
+  value.startsWith('M') ? -parseInt(value.slice(1), 10) : parseInt(value, 10);
+
+const parseFraction = (value: string): number => {
+  const [num, den] = value.split('/').map(Number);
+  return den ? num / den : num;
+};
+
+// Resolves a DDHHMM day/time group to the nearest such time in the month of `reference` or either
+// side of it. Months without that day are skipped, so "31" read on 1 November is 31 October
+export const resolveReportTime = (day: number, hour: number, minute: number, reference: Date): Date => {
+  const inMonth = (offset: number) =>
+    new Date(Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth() + offset, day, hour, minute));
+  const candidates = [-1, 0, 1].map(inMonth).filter(candidate => candidate.getUTCDate() === day);
+  // A day no month has (a garbled report) is left to roll over as Date.UTC does
+  if (candidates.length === 0) return inMonth(0);
+  const distance = (candidate: Date) => Math.abs(candidate.getTime() - reference.getTime());
+  return candidates.reduce((nearest, candidate) => (distance(candidate) < distance(nearest) ? candidate : nearest));
+};
+
+const parseWind = (token: string): WindGroup | null => {
+  const match = token.match(WIND_RE);
+  if (!match) return null;
+  const factor = match[4] === 'MPS' ? MPS_TO_KT : 1;
+  return {
+    direction: match[1] === 'VRB' ? null : parseInt(match[1], 10),
+    speedKt: Math.round(parseInt(match[2], 10) * factor),
+    gustKt: match[3] ? Math.round(parseInt(match[3], 10) * factor) : undefined
+  };
+};
+
+const parseWeather = (token: string): WeatherPhenomenon | null => {
+  if (token.length < 2) return null;
+  const match = token.match(WEATHER_RE);
+  if (!match || (!match[2] && !match[3])) return null;
+  const intensity = match[1] === '+' ? 'heavy' : match[1] === '-' ? 'light' : match[1] === 'VC' ? 'vicinity' : 'moderate';
+  return {
+    raw: token,
+    intensity,
+    descriptor: match[2] || undefined,
+    phenomena: match[3].match(/.{2}/g) ?? []
+  };
+};
+
+const parseCloud = (token: string): CloudLayer | null => {
+  const match = token.match(CLOUD_RE);
+  if (!match) return null;
+  return {
+    cover: match[1] as CloudLayer['cover'],
+    baseFt: match[2] === '///' ? 0 : parseInt(match[2], 10) * 100,
+    type: (match[3] as CloudLayer['type']) || undefined
+  };
+};
+
+export const getCeiling = (clouds: CloudLayer[]): number | null => {
+  const ceilingLayers = clouds.filter(layer => ['BKN', 'OVC', 'VV'].includes(layer.cover));
+  return ceilingLayers.length > 0 ? Math.min(...ceilingLayers.map(layer => layer.baseFt)) : null;
+};
+
+// FAA flight category from ceiling (ft AGL) and visibility (statute miles)
+export const getFlightCategory = (ceilingFt: number | null, visibilitySm: number | null): FlightCategory | null => {
+  if (ceilingFt === null && visibilitySm === null) return null;
+  const ceiling = ceilingFt ?? Infinity;
+  const visibility = visibilitySm ?? Infinity;
+  if (ceiling < 500 || visibility < 1) return 'LIFR';
+  if (ceiling < 1000 || visibility < 3) return 'IFR';
+  if (ceiling <= 3000 || visibility <= 5) return 'MVFR';
+  return 'VFR';
+};
+
+interface ConditionGroups {
+  wind: WindGroup | null;
+  visibilitySm: number | null;
+  cavok: boolean;
+  weather: WeatherPhenomenon[];
+  clouds: CloudLayer[];
+}
+
+/**
+ * Consumes wind, visibility, weather and cloud groups starting at `index`.
+ * Returns the index of the first token that is not a condition group.
+ */
+const parseConditionGroups = (tokens: string[], index: number, groups: ConditionGroups): number => {
+  let i = index;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    const wind = parseWind(token);
+    if (wind) {
+      groups.wind = wind;
+      i++;
+      continue;
+    }
+    const variation = token.match(WIND_VARIATION_RE);
+    if (variation && groups.wind) {
+      groups.wind.variableFrom = parseInt(variation[1], 10);
+      groups.wind.variableTo = parseInt(variation[2], 10);
+      i++;
+      continue;
+    }
+    if (token === 'CAVOK') {
+      groups.cavok = true;
+      groups.visibilitySm = 10000 / METERS_PER_SM;
+      i++;
+      continue;
+    }
+    // Whole number followed by a fraction: "1 1/2SM"
+    if (/^\d$/.test(token) && /^\d\/\dSM$/.test(tokens[i + 1] ?? '')) {
+      groups.visibilitySm = parseInt(token, 10) + parseFraction(tokens[i + 1].replace('SM', ''));
+      i += 2;
+      continue;
+    }
+    const statute = token.match(/^(P|M)?(\d+(?:\/\d+)?)SM$/);
+    if (statute) {
+      groups.visibilitySm = parseFraction(statute[2]);
+      i++;
+      continue;
+    }
+    if (/^\d{4}$/.test(token) && groups.visibilitySm === null) {
+      groups.visibilitySm = parseInt(token, 10) / METERS_PER_SM;
+      i++;
+      continue;
+    }
+    if (SKY_CLEAR.has(token)) {
+      i++;
+      continue;
+    }
+    const cloud = parseCloud(token);
+    if (cloud) {
+      groups.clouds.push(cloud);
+      i++;
+      continue;
+    }
+    if (/^R\d{2}[LCR]?\//.test(token)) {
+      // Runway visual range is not used
+      i++;
+      continue;
+    }
+    const weather = parseWeather(token);
+    if (weather) {
+      groups.weather.push(weather);
+      i++;
+      continue;
+    }
+    break;
+  }
+  return i;
+};
+
+const tokenize = (raw: string): string[] =>
+  raw.replace(/=\s*$/, '').trim().split(/\s+/).filter(Boolean);
+
+export const parseMetar = (raw: string, reference: Date = new Date()): MetarReport => {
+  const tokens = tokenize(raw);
+  let i = 0;
+  if (tokens[i] === 'METAR' || tokens[i] === 'SPECI') i++;
+
+  const station = tokens[i++] ?? '';
+  if (!/^[A-Z0-9]{4}$/.test(station)) {
+    throw new Error(`Invalid METAR station identifier: "${station}"`);
+  }
+
+  let observed: Date | null = null;
+  const time = tokens[i]?.match(/^(\d{2})(\d{2})(\d{2})Z$/);
+  if (time) {
+    observed = resolveReportTime(Number(time[1]), Number(time[2]), Number(time[3]), reference);
+    i++;
+  }
+
+  let auto = false;
+  while (tokens[i] === 'AUTO' || tokens[i] === 'COR') {
+    auto = auto || tokens[i] === 'AUTO';
+    i++;
+  }
+
+  const groups: ConditionGroups = { wind: null, visibilitySm: null, cavok: false, weather: [], clouds: [] };
+  let temperatureC: number | null = null;
+  let dewpointC: number | null = null;
+  let altimeterInHg: number | null = null;
+  let remarks = '';
+  const unparsed: string[] = [];
+
+  while (i < tokens.length) {
+    i = parseConditionGroups(tokens, i, groups);
+    const token = tokens[i];
+    if (token === undefined) break;
+
+    if (token === 'RMK') {
+      remarks = tokens.slice(i + 1).join(' ');
+      break;
+    }
+    if (token === 'NOSIG' || token === 'TEMPO' || token === 'BECMG') {
+      // Trend forecasts must not overwrite the observed groups
+      const remarkIndex = tokens.indexOf('RMK', i);
+      unparsed.push(...tokens.slice(i, remarkIndex === -1 ? undefined : remarkIndex));
+      if (remarkIndex !== -1) remarks = tokens.slice(remarkIndex + 1).join(' ');
+      break;
+    }
+    const temp = token.match(TEMP_RE);
+    if (temp) {
+      temperatureC = parseSignedTemp(temp[1]);
+      dewpointC = temp[2] ? parseSignedTemp(temp[2]) : null;
+    } else if (/^A\d{4}$/.test(token)) {
+      altimeterInHg = parseInt(token.slice(1), 10) / 100;
+    } else if (/^Q\d{4}$/.test(token)) {
+      altimeterInHg = Math.round(parseInt(token.slice(1), 10) * HPA_TO_INHG * 100) / 100;
+    } else {
+      unparsed.push(token);
+    }
+    i++;
+  }
+
+  const ceilingFt = getCeiling(groups.clouds);
+
+  return {
+    raw: raw.trim(),
+    station,
+    observed,
+    auto,
+    wind: groups.wind,
+    visibilitySm: groups.visibilitySm,
+    cavok: groups.cavok,
+    weather: groups.weather,
+    clouds: groups.clouds,
+    ceilingFt,
+    temperatureC,
+    dewpointC,
+    altimeterInHg,
+    flightCategory: getFlightCategory(ceilingFt, groups.visibilitySm),
+    remarks,
+    unparsed
+  };
+};
+
+const parseValidity = (token: string, reference: Date): [Date, Date] | null => {
+  const match = token.match(/^(\d{2})(\d{2})\/(\d{2})(\d{2})$/);
+  if (!match) return null;
+  const from = resolveReportTime(Number(match[1]), Number(match[2]), 0, reference);
+  const to = resolveReportTime(Number(match[3]), Number(match[4]) % 24, 0, reference);
+  if (Number(match[4]) === 24) to.setUTCDate(to.getUTCDate() + 1);
+  if (to < from) to.setUTCMonth(to.getUTCMonth() + 1);
+  return [from, to];
+};
+
+const buildPeriod = (
+  change: TafPeriod['change'],
+  from: Date | null,
+  to: Date | null,
+  groups: ConditionGroups,
+  previous: TafPeriod | undefined,
+  probability?: number
+): TafPeriod => {
+  // FM periods replace conditions; BECMG/TEMPO/PROB inherit anything they don't restate
+  const inherit = change !== 'FM' && change !== 'BASE' && previous;
+  const wind = groups.wind ?? (inherit ? previous.wind : null);
+  const visibilitySm = groups.visibilitySm ?? (inherit ? previous.visibilitySm : null);
+  const clouds = groups.clouds.length > 0 || !inherit ? groups.clouds : previous.clouds;
+  const ceilingFt = getCeiling(clouds);
+  return {
+    change,
+    probability,
+    from,
+    to,
+    wind,
+    visibilitySm,
+    weather: groups.weather,
+    clouds,
+    ceilingFt,
+    flightCategory: getFlightCategory(ceilingFt, visibilitySm)
+  };
+};
+
+export const parseTaf = (raw: string, reference: Date = new Date()): TafReport => {
+  const tokens = tokenize(raw);
+  let i = 0;
+  if (tokens[i] === 'TAF') i++;
+  while (tokens[i] === 'AMD' || tokens[i] === 'COR') i++;
+
+  const station = tokens[i++] ?? '';
+  if (!/^[A-Z0-9]{4}$/.test(station)) {
+    throw new Error(`Invalid TAF station identifier: "${station}"`);
+  }
+
+  let issued: Date | null = null;
+  const time = tokens[i]?.match(/^(\d{2})(\d{2})(\d{2})Z$/);
+  if (time) {
+    issued = resolveReportTime(Number(time[1]), Number(time[2]), Number(time[3]), reference);
+    i++;
+  }
+
+  const validity = tokens[i] ? parseValidity(tokens[i], issued ?? reference) : null;
+  if (validity) i++;
+  const timeReference = issued ?? reference;
+
+  const periods: TafPeriod[] = [];
+  let change: TafPeriod['change'] = 'BASE';
+  let from: Date | null = validity?.[0] ?? null;
+  let to: Date | null = validity?.[1] ?? null;
+  let probability: number | undefined;
+
+  while (i < tokens.length) {
+    const groups: ConditionGroups = { wind: null, visibilitySm: null, cavok: false, weather: [], clouds: [] };
+    i = parseConditionGroups(tokens, i, groups);
+    const baseline = [...periods].reverse().find(period => period.change === 'BASE' || period.change === 'FM');
+    periods.push(buildPeriod(change, from, to, groups, baseline, probability));
+
+    // Advance to the next change group, skipping anything unrecognized
+    let next: string | undefined;
+    while (i < tokens.length) {
+      next = tokens[i];
+      if (/^FM\d{6}$/.test(next) || next === 'BECMG' || next === 'TEMPO' || /^PROB\d{2}$/.test(next)) break;
+      i++;
+      next = undefined;
+    }
+    if (!next) break;
+    i++;
+
+    probability = undefined;
+    if (next.startsWith('FM')) {
+      change = 'FM';
+      from = resolveReportTime(Number(next.slice(2, 4)), Number(next.slice(4, 6)), Number(next.slice(6, 8)), timeReference);
+      to = validity?.[1] ?? null;
+      const previous = [...periods].reverse().find(period => period.change === 'BASE' || period.change === 'FM');
+      if (previous) previous.to = from;
+    } else {
+      if (next.startsWith('PROB')) {
+        probability = parseInt(next.slice(4), 10);
+        if (tokens[i] === 'TEMPO') i++;
+      }
+      change = next.startsWith('PROB') ? 'PROB' : (next as TafPeriod['change']);
+      const window = tokens[i] ? parseValidity(tokens[i], timeReference) : null;
+      if (window) {
+        [from, to] = window;
+        i++;
+      }
+    }
+  }
+
+  return {
+    raw: raw.trim(),
+    station,
+    issued,
+    validFrom: validity?.[0] ?? null,
+    validTo: validity?.[1] ?? null,
+    periods
+  };
+};
+
+/**
+ * Splits a multi-report text blob (one report per line, or continuation lines
+ * indented) into raw reports keyed by station identifier.
+ */
+export const splitReports = (text: string, kind: 'METAR' | 'TAF'): Map<string, string> => {
+  const reports = new Map<string, string>();
+  const lines = text.split(/\r?\n/);
+  let current = '';
+  const flush = () => {
+    const tokens = tokenize(current);
+    let i = tokens[0] === kind || tokens[0] === 'SPECI' ? 1 : 0;
+    while (tokens[i] === 'AMD' || tokens[i] === 'COR') i++;
+    if (tokens[i]) reports.set(tokens[i], current.trim());
+    current = '';
+  };
+  for (const line of lines) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+    if (/^\s/.test(line) && current) {
+      current += ' ' + line.trim();
+    } else {
+      if (current) flush();
+      current = line.trim();
+    }
+  }
+  if (current) flush();
+  return reports;
+};
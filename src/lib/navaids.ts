@@ -0,0 +1,186 @@
+import navaidsCsv from '@/data/navaids.csv?raw';
+import { parseCsv, parseCsvNumber } from '@/lib/csv';
+import { initialBearing, normalizeBearing, toKilometers, type LatLng } from '@/lib/geodesy';
+import { createSpatialIndex } from '@/lib/spatial-index';
+
+export type NavaidType = 'VOR' | 'VOR-DME' | 'VORTAC' | 'TACAN' | 'DME' | 'NDB' | 'NDB-DME' | 'ILS';
+
+// OurAirports `usageType`; TERMINAL/LO/HI map onto the T/L/H service volume classes
+export type NavaidUsage = 'TERMINAL' | 'LO' | 'HI' | 'BOTH' | 'RNAV';
+
+export interface NavaidRecord {
+  id: string;
+  ident: string;
+  name: string;
+  type: NavaidType;
+  frequencyKhz: number | null;
+  dmeChannel: string | null;
+  lat: number;
+  lng: number;
+  elevationFt: number | null;
+  country: string;
+  // Degrees, east positive. VORs are aligned to their slaved variation, which can lag the current one
+  magneticVariation: number;
+  usage: NavaidUsage | null;
+  power: 'LOW' | 'MEDIUM' | 'HIGH' | null;
+  associatedAirport: string | null;
+  // Magnetic inbound course of an ILS localizer
+  localizerCourse: number | null;
+}
+
+// Shape LocationTracker lists, relative to the current fix
+export interface NavigationAid {
+  id: string;
+  ident: string;
+  name: string;
+  type: NavaidType;
+  frequency: string;
+  distance: number; // km
+  bearing: number; // true bearing TO the station
+  radial: number; // magnetic bearing FROM the station (VOR radial / NDB QDR)
+  magneticVariation: number;
+  rangeNm: number;
+}
+
+export interface NavaidRepository {
+  all: () => NavaidRecord[];
+  getByIdent: (ident: string) => NavaidRecord[];
+  // Aids whose signal is receivable at this position, nearest first
+  inRange: (point: LatLng, altitudeFt?: number | null) => NavigationAid[];
+}
+
+const VOR_FAMILY: NavaidType[] = ['VOR', 'VOR-DME', 'VORTAC', 'TACAN', 'DME'];
+const NDB_FAMILY: NavaidType[] = ['NDB', 'NDB-DME'];
+
+export const isVorFamily = (type: NavaidType): boolean => VOR_FAMILY.includes(type);
+
+// Furthest any aid can be received, used to bound the spatial query
+const MAX_RANGE_NM = 130;
+// Assumed height above the station when the fix carries no altitude
+const DEFAULT_ALTITUDE_FT = 1000;
+
+const LOCALIZER_FULL_SCALE_NM = 18;
+const LOCALIZER_FULL_SCALE_DEG = 10;
+const LOCALIZER_WIDE_NM = 10;
+const LOCALIZER_WIDE_DEG = 35;
+
+/**
+ * Builds navaid records from an OurAirports navaids.csv export. ILS localizers
+ * are not part of that export; rows of type `ILS` carry an extra
+ * `localizer_course_deg` column with the published magnetic course.
+ */
+export const parseNavaids = (text: string): NavaidRecord[] =>
+  parseCsv(text).flatMap(row => {
+    const lat = parseCsvNumber(row.latitude_deg);
+    const lng = parseCsvNumber(row.longitude_deg);
+    if (lat === null || lng === null) return [];
+    return [{
+      id: row.id || `${row.ident}-${row.type}-${row.iso_country}`,
+      ident: row.ident,
+      name: row.name,
+      type: row.type as NavaidType,
+      frequencyKhz: parseCsvNumber(row.frequency_khz),
+      dmeChannel: row.dme_channel || null,
+      lat,
+      lng,
+      elevationFt: parseCsvNumber(row.elevation_ft),
+      country: row.iso_country,
+      magneticVariation: parseCsvNumber(row.slaved_variation_deg) ?? parseCsvNumber(row.magnetic_variation_deg) ?? 0,
+      usage: (row.usageType || null) as NavaidUsage | null,
+      power: (row.power && row.power !== 'UNKNOWN' ? row.power : null) as NavaidRecord['power'],
+      associatedAirport: row.associated_airport || null,
+      localizerCourse: parseCsvNumber(row.localizer_course_deg)
+    }];
+  });
+
+// VHF radio horizon for an aircraft and antenna at the given heights
+const radioHorizonNm = (altitudeFt: number, stationFt: number): number =>
+  1.23 * (Math.sqrt(Math.max(0, altitudeFt)) + Math.sqrt(Math.max(0, stationFt)));
+
+// Standard service volumes (AIM 1-1-8) by class and altitude above the station
+const vorServiceVolumeNm = (usage: NavaidUsage | null, heightFt: number): number => {
+  if (usage === 'TERMINAL') return heightFt <= 12000 ? 25 : 0;
+  if (usage === 'LO') return heightFt <= 18000 ? 40 : 0;
+  if (heightFt <= 14500) return 40;
+  if (heightFt <= 18000) return 100;
+  if (heightFt <= 45000) return 130;
+  return 100;
+};
+
+// NDB usable range by class: compass locator, MH, H and HH
+const ndbRangeNm = (navaid: NavaidRecord): number => {
+  if (navaid.usage === 'TERMINAL') return 15;
+  if (navaid.power === 'HIGH') return 75;
+  if (navaid.power === 'MEDIUM') return 50;
+  return 25;
+};
+
+/**
+ * Nominal reception range in nautical miles. VHF aids are also capped by
+ * line of sight; NDBs propagate by ground wave and are not.
+ */
+export const receptionRangeNm = (navaid: NavaidRecord, altitudeFt: number | null = null): number => {
+  if (NDB_FAMILY.includes(navaid.type)) return ndbRangeNm(navaid);
+
+  const stationFt = navaid.elevationFt ?? 0;
+  const heightFt = altitudeFt === null ? DEFAULT_ALTITUDE_FT : Math.max(0, altitudeFt - stationFt);
+  const nominal = navaid.type === 'ILS' ? LOCALIZER_FULL_SCALE_NM : vorServiceVolumeNm(navaid.usage, heightFt);
+  return altitudeFt === null ? nominal : Math.min(nominal, radioHorizonNm(heightFt, stationFt));
+};
+
+// Localizer coverage is a fan on the approach side: ±10° to 18 nm, ±35° to 10 nm
+const withinLocalizerCoverage = (navaid: NavaidRecord, radialTrue: number, distanceNm: number): boolean => {
+  if (navaid.localizerCourse === null) return distanceNm <= LOCALIZER_WIDE_NM;
+  const approachSide = normalizeBearing(navaid.localizerCourse + navaid.magneticVariation + 180);
+  const offset = Math.abs(((radialTrue - approachSide + 540) % 360) - 180);
+  return (offset <= LOCALIZER_FULL_SCALE_DEG && distanceNm <= LOCALIZER_FULL_SCALE_NM) ||
+    (offset <= LOCALIZER_WIDE_DEG && distanceNm <= LOCALIZER_WIDE_NM);
+};
+
+export const formatNavaidFrequency = (navaid: NavaidRecord): string => {
+  if (navaid.frequencyKhz === null) return navaid.dmeChannel ? `CH ${navaid.dmeChannel}` : '—';
+  if (NDB_FAMILY.includes(navaid.type)) return `${navaid.frequencyKhz} kHz`;
+  return (navaid.frequencyKhz / 1000).toFixed(2);
+};
+
+// True bearing from the station to the aircraft, expressed as a magnetic radial
+export const radialFrom = (navaid: NavaidRecord, point: LatLng): number =>
+  Math.round(normalizeBearing(initialBearing([navaid.lat, navaid.lng], point) - navaid.magneticVariation)) % 360;
+
+export const createNavaidRepository = (records: NavaidRecord[]): NavaidRepository => {
+  const index = createSpatialIndex(records, navaid => [navaid.lat, navaid.lng]);
+
+  return {
+    all: () => records,
+    getByIdent: ident => records.filter(navaid => navaid.ident === ident.trim().toUpperCase()),
+    inRange: (point, altitudeFt = null) =>
+      index.within(point, toKilometers(MAX_RANGE_NM, 'nm')).flatMap(({ item: navaid, distance }) => {
+        const distanceNm = distance / toKilometers(1, 'nm');
+        const rangeNm = receptionRangeNm(navaid, altitudeFt);
+        if (distanceNm > rangeNm) return [];
+        const radialTrue = initialBearing([navaid.lat, navaid.lng], point);
+        if (navaid.type === 'ILS' && !withinLocalizerCoverage(navaid, radialTrue, distanceNm)) return [];
+
+        return [{
+          id: navaid.id,
+          ident: navaid.ident,
+          name: navaid.name,
+          type: navaid.type,
+          frequency: formatNavaidFrequency(navaid),
+          distance,
+          bearing: initialBearing(point, [navaid.lat, navaid.lng]),
+          radial: radialFrom(navaid, point),
+          magneticVariation: navaid.magneticVariation,
+          rangeNm
+        }];
+      })
+  };
+};
+
+let bundledRepository: NavaidRepository | null = null;
+
+// Parsed on first use from the CSV bundled under src/data
+export const getNavaidRepository = (): NavaidRepository => {
+  bundledRepository ??= createNavaidRepository(parseNavaids(navaidsCsv));
+  return bundledRepository;
+};
@@ -0,0 +1,113 @@
+import { getAirportRepository, normalizeSearchText, type AirportRecord } from '@/lib/airports';
+
+/**
+ * Something a trip can start or end at: a single airport, or a metro area
+ * (IATA city code) that stands for all of its airports.
+ */
+export interface Place {
+  kind: 'airport' | 'metro';
+  code: string;
+  name: string;
+  city: string;
+  country: string;
+  lat: number;
+  lng: number;
+  // IATA codes a search for this place should cover
+  airportCodes: string[];
+}
+
+interface MetroArea {
+  code: string;
+  name: string;
+  country: string;
+  aliases: string[];
+  center: [number, number];
+  airports: string[];
+}
+
+// IATA metropolitan area codes for cities with more than one bundled airport
+export const METRO_AREAS: MetroArea[] = [
+  { code: 'NYC', name: 'New York', country: 'US', aliases: ['new york city', 'manhattan'], center: [40.7128, -74.006], airports: ['JFK', 'LGA', 'EWR'] },
+  { code: 'CHI', name: 'Chicago', country: 'US', aliases: [], center: [41.8781, -87.6298], airports: ['ORD', 'MDW'] },
+  { code: 'WAS', name: 'Washington', country: 'US', aliases: ['washington dc', 'dc'], center: [38.9072, -77.0369], airports: ['IAD', 'DCA', 'BWI'] },
+  { code: 'QDF', name: 'Dallas-Fort Worth', country: 'US', aliases: ['dallas', 'fort worth'], center: [32.7767, -96.797], airports: ['DFW', 'DAL'] },
+  { code: 'LON', name: 'London', country: 'GB', aliases: [], center: [51.5074, -0.1278], airports: ['LHR', 'LGW'] },
+  { code: 'PAR', name: 'Paris', country: 'FR', aliases: [], center: [48.8566, 2.3522], airports: ['CDG', 'ORY'] },
+  { code: 'TYO', name: 'Tokyo', country: 'JP', aliases: [], center: [35.6762, 139.6503], airports: ['HND', 'NRT'] }
+];
+
+export const airportToPlace = (airport: AirportRecord): Place => ({
+  kind: 'airport',
+  code: airport.iata ?? airport.ident,
+  name: airport.name,
+  city: airport.municipality,
+  country: airport.country,
+  lat: airport.lat,
+  lng: airport.lng,
+  airportCodes: [airport.iata ?? airport.ident]
+});
+
+const metroToPlace = (metro: MetroArea): Place => ({
+  kind: 'metro',
+  code: metro.code,
+  name: `${metro.name} (all airports)`,
+  city: metro.name,
+  country: metro.country,
+  lat: metro.center[0],
+  lng: metro.center[1],
+  airportCodes: metro.airports
+});
+
+const matchesMetro = (metro: MetroArea, query: string): boolean =>
+  metro.code.toLowerCase() === query ||
+  [metro.name, ...metro.aliases].some(name => normalizeSearchText(name).startsWith(query));
+
+// Metro areas first (they cover the airports below them), then airports by relevance
+export const searchPlaces = (query: string, limit = 8): Place[] => {
+  const normalized = normalizeSearchText(query);
+  if (!normalized) return [];
+  const metros = METRO_AREAS.filter(metro => matchesMetro(metro, normalized)).map(metroToPlace);
+  const airports = getAirportRepository()
+    .search(query, { limit, kinds: ['large_airport', 'medium_airport'] })
+    .map(match => airportToPlace(match.airport));
+  return [...metros, ...airports].slice(0, limit);
+};
+
+export interface PlaceMatch {
+  place: Place;
+  score: number; // 0..1, on the airport repository's scale
+}
+
+// Every place free text could mean, best first; metro names score as exact airport names would
+export const matchPlaces = (query: string, limit = 5): PlaceMatch[] => {
+  const normalized = normalizeSearchText(query);
+  if (!normalized) return [];
+  const metros = METRO_AREAS.flatMap(metro => {
+    if (metro.code.toLowerCase() === normalized) return [{ place: metroToPlace(metro), score: 1 }];
+    const names = [metro.name, ...metro.aliases].map(normalizeSearchText);
+    if (names.includes(normalized)) return [{ place: metroToPlace(metro), score: 0.98 }];
+    return names.some(name => name.startsWith(normalized)) ? [{ place: metroToPlace(metro), score: 0.85 }] : [];
+  });
+  const airports = getAirportRepository()
+    .search(query, { limit, kinds: ['large_airport', 'medium_airport'] })
+    .map(match => ({ place: airportToPlace(match.airport), score: match.score }));
+  return [...metros, ...airports].sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+/**
+ * Turns a stored code (metro or airport) or free text ("new york", "JFK")
+ * back into a place. Codes round-trip exactly; free text takes the best match.
+ */
+export const resolvePlace = (value: string): Place | undefined => {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  const metro = METRO_AREAS.find(m => m.code === trimmed.toUpperCase());
+  if (metro) return metroToPlace(metro);
+  const airport = getAirportRepository().getByCode(trimmed);
+  if (airport) return airportToPlace(airport);
+  return searchPlaces(trimmed, 1)[0];
+};
+
+// "NYC – all airports", "JFK – John F Kennedy International Airport"
+export const formatPlace = (place: Place): string =>
+  place.kind === 'metro' ? `${place.code} – all airports` : `${place.code} – ${place.name}`;
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { enGB, enUS } from 'date-fns/locale';
+import {
+  answerDateConfirmation,
+  dateConfirmationQuestion,
+  resolveDateAfter,
+  resolveDateExpression,
+  type DateResolution
+} from '@/lib/relative-dates';
+
+// Tuesday 13 October 2026, mid-morning
+const NOW = new Date(2026, 9, 13, 10, 30);
+
+type Reading = [status: DateResolution['status'], candidates: string[]];
+type Case = [text: string, ...Reading];
+
+const expectResolution = (text: string, options: Parameters<typeof resolveDateExpression>[1], status: DateResolution['status'], candidates: string[]) => {
+  const resolution = resolveDateExpression(text, options);
+  expect(resolution.status).toBe(status);
+  expect(resolution.candidates).toEqual(candidates);
+};
+
+describe('resolveDateExpression', () => {
+  // The same in either locale
+  it.each<Case>([
+    ['today', 'resolved', ['2026-10-13']],
+    ['tonight', 'resolved', ['2026-10-13']],
+    ['tomorrow', 'resolved', ['2026-10-14']],
+    ['the day after tomorrow', 'resolved', ['2026-10-15']],
+    ['on Friday', 'resolved', ['2026-10-16']],
+    ['tuesday', 'ambiguous', ['2026-10-13', '2026-10-20']],
+    ['this friday', 'resolved', ['2026-10-16']],
+    ['friday after next', 'resolved', ['2026-10-23']],
+    ['a week from friday', 'resolved', ['2026-10-23']],
+    ['a week from today', 'resolved', ['2026-10-20']],
+    ['this weekend', 'resolved', ['2026-10-17']],
+    ['next weekend', 'ambiguous', ['2026-10-24', '2026-10-17']],
+    ['next friday', 'ambiguous', ['2026-10-23', '2026-10-16']],
+    ['next month', 'ambiguous', ['2026-11-01']],
+    ['in 3 days', 'resolved', ['2026-10-16']],
+    ['in two weeks', 'resolved', ['2026-10-27']],
+    ['in a month', 'resolved', ['2026-11-13']],
+    ['march 3', 'resolved', ['2027-03-03']],
+    ['the 3rd of March', 'resolved', ['2027-03-03']],
+    ['October 13th', 'resolved', ['2026-10-13']],
+    ['october 12', 'resolved', ['2027-10-12']],
+    ['november twenty first', 'resolved', ['2026-11-21']],
+    ['feb 29', 'resolved', ['2028-02-29']],
+    ['december 25 2026', 'resolved', ['2026-12-25']],
+    ['october 1 2026', 'invalid', []],
+    ['february 30', 'invalid', []],
+    ['the 13th', 'resolved', ['2026-10-13']],
+    ['the 12th', 'resolved', ['2026-11-12']],
+    ['21st', 'resolved', ['2026-10-21']],
+    ['2026-11-02', 'resolved', ['2026-11-02']],
+    ['2026-02-30', 'invalid', []],
+    ['12/25', 'resolved', ['2026-12-25']],
+    ['25/12', 'resolved', ['2026-12-25']],
+    ['13/13', 'invalid', []],
+    ['christmas', 'resolved', ['2026-12-25']],
+    ['new year\'s eve', 'resolved', ['2026-12-31']],
+    ['halloween', 'resolved', ['2026-10-31']],
+    ['thanksgiving', 'resolved', ['2026-11-26']],
+    ['easter', 'resolved', ['2027-03-28']],
+    ['good friday', 'resolved', ['2027-03-26']],
+    ['memorial day', 'resolved', ['2027-05-31']],
+    ['labor day', 'resolved', ['2027-09-06']],
+    ['blursday', 'invalid', []]
+  ])('reads "%s" as %s %j', (text, status, candidates) => {
+    expectResolution(text, { now: NOW, locale: enUS }, status, candidates);
+    expectResolution(text, { now: NOW, locale: enGB }, status, candidates);
+  });
+
+  // en-US weeks start on Sunday and read month first; en-GB weeks start on Monday and read day first
+  it.each<[text: string, us: Reading, gb: Reading]>([
+    ['12/3', ['ambiguous', ['2026-12-03', '2027-03-12']], ['ambiguous', ['2027-03-12', '2026-12-03']]],
+    ['12/3/2026', ['resolved', ['2026-12-03']], ['resolved', ['2026-12-03']]],
+    ['next sunday', ['resolved', ['2026-10-18']], ['ambiguous', ['2026-10-25', '2026-10-18']]],
+    ['next week', ['ambiguous', ['2026-10-18']], ['ambiguous', ['2026-10-19']]]
+  ])('reads "%s" by the locale', (text, [usStatus, usCandidates], [gbStatus, gbCandidates]) => {
+    expectResolution(text, { now: NOW, locale: enUS }, usStatus, usCandidates);
+    expectResolution(text, { now: NOW, locale: enGB }, gbStatus, gbCandidates);
+  });
+
+  it('says why an expression is ambiguous', () => {
+    expect(resolveDateExpression('12/3', { now: NOW }).note).toBe('12/3 could be read month first or day first');
+    expect(resolveDateExpression('next friday', { now: NOW }).note).toBe('next friday could be this week\'s or next week\'s');
+  });
+
+  it('skips months without the day', () => {
+    // November has 30 days
+    expectResolution('the 31st', { now: new Date(2026, 10, 10) }, 'resolved', ['2026-12-31']);
+    expectResolution('the 30th', { now: new Date(2027, 1, 1) }, 'resolved', ['2027-03-30']);
+  });
+
+  it('rolls a passed holiday over to next year', () => {
+    const boxingDay = new Date(2026, 11, 26);
+    expectResolution('christmas eve', { now: boxingDay }, 'resolved', ['2027-12-24']);
+    expectResolution('christmas', { now: boxingDay }, 'resolved', ['2027-12-25']);
+    expectResolution('boxing day', { now: boxingDay }, 'resolved', ['2026-12-26']);
+    expectResolution('easter', { now: new Date(2026, 0, 10) }, 'resolved', ['2026-04-05']);
+    expectResolution('easter monday', { now: new Date(2026, 0, 10) }, 'resolved', ['2026-04-06']);
+  });
+
+  it('rolls a month and day over into next year', () => {
+    expectResolution('january 5', { now: new Date(2026, 11, 30) }, 'resolved', ['2027-01-05']);
+    expectResolution('1/5', { now: new Date(2026, 11, 30), locale: enUS }, 'ambiguous', ['2027-01-05', '2027-05-01']);
+  });
+
+  it('resolves a return relative to the departure', () => {
+    expectResolution('friday', { now: NOW }, 'resolved', ['2026-10-16']);
+    expect(resolveDateAfter('friday', '2026-10-20', { now: NOW }).candidates).toEqual(['2026-10-23']);
+    expect(resolveDateAfter('the 5th', '2026-10-20', { now: NOW }).candidates).toEqual(['2026-11-05']);
+  });
+});
+
+describe('date confirmation', () => {
+  const options = { now: NOW, locale: enUS };
+  const nextFriday = resolveDateExpression('next friday', options);
+
+  it('asks between the readings', () => {
+    expect(dateConfirmationQuestion(nextFriday, options)).toBe('By "next friday", do you mean Friday 23 October or Friday 16 October?');
+    expect(dateConfirmationQuestion(resolveDateExpression('next month', options), options)).toBe('By "next month", shall I use Sunday 1 November?');
+    expect(dateConfirmationQuestion(resolveDateExpression('12/3', options), options)).toBe('By "12/3", do you mean Thursday 3 December or Friday 12 March 2027?');
+  });
+
+  it.each<[answer: string, chosen: string | null]>([
+    ['yes', '2026-10-23'],
+    ['Yeah.', '2026-10-23'],
+    ['the first one', '2026-10-23'],
+    ['the other one', '2026-10-16'],
+    ['no, I meant the later one', '2026-10-16'],
+    ['the 16th', '2026-10-16'],
+    ['friday the 16th', '2026-10-16'],
+    ['no, october 30', '2026-10-30'],
+    ['no', null],
+    ['what time is it', null]
+  ])('reads "%s" as %s', (answer, chosen) => {
+    expect(answerDateConfirmation(answer, nextFriday, options)).toBe(chosen);
+  });
+
+  it('takes a plain yes to a single guess', () => {
+    expect(answerDateConfirmation('okay', resolveDateExpression('next week', options), options)).toBe('2026-10-18');
+  });
+});
@@ -0,0 +1,357 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  format,
+  getDay,
+  isBefore,
+  isSameDay,
+  isSameYear,
+  lastDayOfMonth,
+  nextDay,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  type Day,
+  type Locale
+} from 'date-fns';
+import { enUS } from 'date-fns/locale';
+
+/**
+ * Resolves spoken or typed date expressions ("next friday", "the 3rd",
+ * "in two weeks", "christmas eve", "12/3") to calendar days. Everything is
+ * relative to a clock that can be swapped out. The locale decides which
+ * day a week starts on and whether "12/3" is read month-first or day-first.
+ * Expressions that could mean more than one day are flagged for
+ * confirmation instead of being guessed.
+ */
+
+export interface DateResolverOptions {
+  // Defaults to the current time
+  now?: Date;
+  locale?: Locale;
+}
+
+export interface DateResolution {
+  text: string;
+  status: 'resolved' | 'ambiguous' | 'invalid';
+  /**
+   * yyyy-MM-dd. One when resolved. When ambiguous, the readings with the
+   * likeliest first; a single reading means the words were vague ("next
+   * week") and the guess needs checking. None when invalid.
+   */
+  candidates: string[];
+  // Why it's ambiguous or invalid
+  note?: string;
+}
+
+export const NUMBER_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve'];
+
+const UNIT_ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth'];
+// Index + 1 is the day of the month
+const ORDINAL_WORDS = [
+  ...UNIT_ORDINALS,
+  'tenth', 'eleventh', 'twelfth', 'thirteenth', 'fourteenth', 'fifteenth', 'sixteenth', 'seventeenth', 'eighteenth', 'nineteenth',
+  'twentieth', ...UNIT_ORDINALS.map(unit => `twenty ${unit}`), 'thirtieth', 'thirty first'
+];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Longest first so "twenty first" wins over "first" and "march" over "mar"
+const alternation = (words: string[]) => [...words].sort((a, b) => b.length - a.length).join('|');
+
+const WEEKDAY = `(${WEEKDAYS.join('|')})`;
+const MONTH = `(${alternation([...MONTHS, 'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sept', 'sep', 'oct', 'nov', 'dec'])})`;
+const ORDINAL = `(\\d{1,2}(?:st|nd|rd|th)|${alternation(ORDINAL_WORDS)})`;
+const DAY = `(\\d{1,2}(?:st|nd|rd|th)?|${alternation(ORDINAL_WORDS)})`;
+const COUNT = `(\\d{1,2}|a|an|${alternation(NUMBER_WORDS)})`;
+// Possessives arrive as "year s" once punctuation is stripped
+const POSSESSIVE = '(?: ?s)?';
+
+export const spokenNumber = (word: string): number =>
+  /^\d+$/.test(word) ? parseInt(word, 10) : word === 'a' || word === 'an' ? 1 : NUMBER_WORDS.indexOf(word);
+
+const dayOfMonth = (word: string): number =>
+  /^\d/.test(word) ? parseInt(word, 10) : ORDINAL_WORDS.indexOf(word) + 1;
+
+const monthIndex = (word: string): number => MONTHS.findIndex(month => month.startsWith(word.slice(0, 3)));
+
+interface ResolveContext {
+  today: Date;
+  weekStartsOn: Day;
+  // "12/3" is the 12th of March
+  dayFirst: boolean;
+}
+
+type Outcome = Omit<DateResolution, 'text'>;
+
+const iso = (date: Date) => format(date, 'yyyy-MM-dd');
+const resolved = (date: Date): Outcome => ({ status: 'resolved', candidates: [iso(date)] });
+const ambiguous = (dates: Date[], note: string): Outcome => ({ status: 'ambiguous', candidates: dates.map(iso), note });
+const invalid = (note: string): Outcome => ({ status: 'invalid', candidates: [], note });
+
+// null when the day doesn't exist in that month (the 30th of February)
+const calendarDay = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(year, month, day);
+  return date.getMonth() === month && date.getDate() === day ? date : null;
+};
+
+// The next time this month and day comes round, today included
+const upcomingDay = (context: ResolveContext, month: number, day: number, year?: number): Outcome => {
+  if (year !== undefined) {
+    const date = calendarDay(year, month, day);
+    if (!date) return invalid(`${MONTHS[month]} ${year} has no day ${day}`);
+    return isBefore(date, context.today) ? invalid('That date has passed') : resolved(date);
+  }
+  for (let offset = 0; offset <= 4; offset++) {
+    const date = calendarDay(context.today.getFullYear() + offset, month, day);
+    if (date && !isBefore(date, context.today)) return resolved(date);
+  }
+  return invalid(`${MONTHS[month]} has no day ${day}`);
+};
+
+// Today if it's that weekday, otherwise the next one
+const comingWeekday = (today: Date, weekday: number): Date =>
+  getDay(today) === weekday ? today : nextDay(today, weekday as Day);
+
+const fullYear = (value: string) => value.length === 2 ? 2000 + parseInt(value, 10) : parseInt(value, 10);
+
+// nth weekday of a month; a negative n counts from the end
+const nthWeekday = (year: number, month: number, weekday: number, n: number): Date => {
+  if (n < 0) {
+    const last = lastDayOfMonth(new Date(year, month, 1));
+    return addDays(last, -((getDay(last) - weekday + 7) % 7));
+  }
+  const first = new Date(year, month, 1);
+  return addDays(first, (weekday - getDay(first) + 7) % 7 + (n - 1) * 7);
+};
+
+// Anonymous Gregorian computus
+const easterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+// Memorial Day, Labor Day and Thanksgiving follow the US calendar
+const HOLIDAYS: Array<{ source: string; date: (year: number) => Date }> = [
+  { source: `new year${POSSESSIVE} eve`, date: year => new Date(year, 11, 31) },
+  { source: `new year${POSSESSIVE}(?: day)?`, date: year => new Date(year, 0, 1) },
+  { source: `valentine${POSSESSIVE}(?: day)?`, date: year => new Date(year, 1, 14) },
+  { source: `(?:st|saint) patrick${POSSESSIVE}(?: day)?`, date: year => new Date(year, 2, 17) },
+  { source: 'good friday', date: year => addDays(easterSunday(year), -2) },
+  { source: 'easter monday', date: year => addDays(easterSunday(year), 1) },
+  { source: 'easter(?: sunday)?', date: easterSunday },
+  { source: 'memorial day', date: year => nthWeekday(year, 4, 1, -1) },
+  { source: 'independence day|(?:the )?fourth of july', date: year => new Date(year, 6, 4) },
+  { source: 'labou?r day', date: year => nthWeekday(year, 8, 1, 1) },
+  { source: 'halloween', date: year => new Date(year, 9, 31) },
+  { source: 'thanksgiving(?: day)?', date: year => nthWeekday(year, 10, 4, 4) },
+  { source: 'christmas eve', date: year => new Date(year, 11, 24) },
+  { source: 'christmas(?: day)?|xmas', date: year => new Date(year, 11, 25) },
+  { source: 'boxing day', date: year => new Date(year, 11, 26) }
+];
+
+interface DateRule {
+  source: string;
+  resolve: (match: string[], context: ResolveContext) => Outcome;
+}
+
+// Ordered so that where two rules could match the same words, the more specific one comes first
+const DATE_RULES: DateRule[] = [
+  { source: '(?:the )?day after tomorrow', resolve: (_, { today }) => resolved(addDays(today, 2)) },
+  { source: 'today|tonight', resolve: (_, { today }) => resolved(today) },
+  { source: 'tomorrow', resolve: (_, { today }) => resolved(addDays(today, 1)) },
+  {
+    source: `a week from (today|tomorrow|${WEEKDAYS.join('|')})`,
+    resolve: ([, from], { today }) => {
+      const base = from === 'today' ? today : from === 'tomorrow' ? addDays(today, 1) : comingWeekday(today, WEEKDAYS.indexOf(from));
+      return resolved(addWeeks(base, 1));
+    }
+  },
+  {
+    source: 'this weekend',
+    resolve: (_, { today }) => resolved(getDay(today) === 0 || getDay(today) === 6 ? today : nextDay(today, 6))
+  },
+  {
+    // Said on a weekday, it may be the coming weekend or the one after
+    source: 'next weekend',
+    resolve: (_, { today }) => {
+      const coming = nextDay(today, 6);
+      if (getDay(today) === 0 || getDay(today) === 6) return resolved(coming);
+      return ambiguous([addWeeks(coming, 1), coming], 'next weekend could be this coming weekend or the one after');
+    }
+  },
+  {
+    source: '(this|next) week',
+    resolve: ([, which], { today, weekStartsOn }) => which === 'this'
+      ? ambiguous([today], 'this week could be any day this week')
+      : ambiguous([startOfWeek(addWeeks(today, 1), { weekStartsOn })], 'next week could be any day that week')
+  },
+  {
+    source: '(this|next) month',
+    resolve: ([, which], { today }) => which === 'this'
+      ? ambiguous([today], 'this month could be any day this month')
+      : ambiguous([startOfMonth(addMonths(today, 1))], 'next month could be any day that month')
+  },
+  { source: `${WEEKDAY} after next`, resolve: ([, weekday], { today }) => resolved(addWeeks(nextDay(today, WEEKDAYS.indexOf(weekday) as Day), 1)) },
+  { source: `this ${WEEKDAY}`, resolve: ([, weekday], { today }) => resolved(comingWeekday(today, WEEKDAYS.indexOf(weekday))) },
+  {
+    // "Next friday" on a Tuesday may be three days away or ten; once the coming one is in next week it's clear
+    source: `next ${WEEKDAY}`,
+    resolve: ([, weekday], { today, weekStartsOn }) => {
+      const coming = nextDay(today, WEEKDAYS.indexOf(weekday) as Day);
+      const sameWeek = isSameDay(startOfWeek(coming, { weekStartsOn }), startOfWeek(today, { weekStartsOn }));
+      return sameWeek
+        ? ambiguous([addWeeks(coming, 1), coming], `next ${weekday} could be this week's or next week's`)
+        : resolved(coming);
+    }
+  },
+  {
+    source: WEEKDAY,
+    resolve: ([, weekday], { today }) => {
+      const index = WEEKDAYS.indexOf(weekday);
+      return getDay(today) === index
+        ? ambiguous([today, addWeeks(today, 1)], `${weekday} could be today or a week today`)
+        : resolved(nextDay(today, index as Day));
+    }
+  },
+  { source: `${MONTH} ${DAY}(?: (\\d{4}))?`, resolve: ([, month, day, year], context) => upcomingDay(context, monthIndex(month), dayOfMonth(day), year ? parseInt(year, 10) : undefined) },
+  { source: `(?:the )?${DAY} (?:of )?${MONTH}(?: (\\d{4}))?`, resolve: ([, day, month, year], context) => upcomingDay(context, monthIndex(month), dayOfMonth(day), year ? parseInt(year, 10) : undefined) },
+  {
+    // The next month that has that day, this one included
+    source: `the ${ORDINAL}`,
+    resolve: ([, ordinal], { today }) => {
+      const day = dayOfMonth(ordinal);
+      for (let offset = 0; offset < 12 && day >= 1 && day <= 31; offset++) {
+        const month = addMonths(startOfMonth(today), offset);
+        const date = calendarDay(month.getFullYear(), month.getMonth(), day);
+        if (date && !isBefore(date, today)) return resolved(date);
+      }
+      return invalid(`No month has a day ${day}`);
+    }
+  },
+  {
+    // ISO, after the dashes became slashes
+    source: '(\\d{4})/(\\d{1,2})/(\\d{1,2})',
+    resolve: ([, year, month, day], context) => upcomingDay(context, parseInt(month, 10) - 1, parseInt(day, 10), parseInt(year, 10))
+  },
+  {
+    // Month and day order follow the locale, unless one number can only be a day
+    source: '(\\d{1,2})/(\\d{1,2})(?:/(\\d{2}|\\d{4}))?',
+    resolve: ([text, first, second, year], context) => {
+      const [a, b] = [parseInt(first, 10), parseInt(second, 10)];
+      const fixedYear = year ? fullYear(year) : undefined;
+      const readings = (context.dayFirst ? [[b, a], [a, b]] : [[a, b], [b, a]])
+        .filter(([month]) => month >= 1 && month <= 12)
+        .map(([month, day]) => upcomingDay(context, month - 1, day, fixedYear))
+        .filter(outcome => outcome.status === 'resolved');
+      const dates = [...new Set(readings.map(outcome => outcome.candidates[0]))];
+      if (dates.length === 0) return invalid(`${text} isn't a date`);
+      return dates.length === 1
+        ? { status: 'resolved', candidates: dates }
+        : { status: 'ambiguous', candidates: dates, note: `${text} could be read month first or day first` };
+    }
+  },
+  {
+    source: `in ${COUNT} (days?|weeks?|months?)`,
+    resolve: ([, count, unit], { today }) => {
+      const amount = spokenNumber(count);
+      const add = unit.startsWith('day') ? addDays : unit.startsWith('week') ? addWeeks : addMonths;
+      return resolved(add(today, amount));
+    }
+  },
+  ...HOLIDAYS.map(({ source, date }): DateRule => ({
+    source,
+    resolve: (_, { today }) => {
+      const thisYear = date(today.getFullYear());
+      return resolved(isBefore(thisYear, today) ? date(today.getFullYear() + 1) : thisYear);
+    }
+  }))
+];
+
+/**
+ * Every expression the resolver understands, as one regular expression
+ * source for embedding in a larger pattern. It expects text normalized the
+ * way normalizeDateText does it.
+ */
+export const DATE_EXPRESSION = DATE_RULES.map(rule => `(?:${rule.source})`).join('|');
+
+const ANCHORED_RULES = DATE_RULES.map(rule => ({ ...rule, pattern: new RegExp(`^(?:${rule.source})$`) }));
+// The voice parser drops the article, so "the 21st" can arrive as "21st"
+const BARE_ORDINAL = new RegExp(`^(?=${ORDINAL}$)`);
+
+// Lower case, no accents or punctuation, ISO dashes turned into slashes
+export const normalizeDateText = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+    .replace(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g, '$1/$2/$3')
+    .replace(/[^a-z0-9/]+/g, ' ').trim();
+
+export const resolveDateExpression = (text: string, { now = new Date(), locale = enUS }: DateResolverOptions = {}): DateResolution => {
+  const context: ResolveContext = {
+    today: startOfDay(now),
+    weekStartsOn: locale.options?.weekStartsOn ?? 0,
+    dayFirst: /^d/i.test(locale.formatLong?.date({ width: 'short' }) ?? '')
+  };
+  const normalized = normalizeDateText(text).replace(/^(?:on|for) /, '').replace(BARE_ORDINAL, 'the ');
+  for (const rule of ANCHORED_RULES) {
+    const match = rule.pattern.exec(normalized);
+    if (match) return { text, ...rule.resolve([...match], context) };
+  }
+  return { text, status: 'invalid', candidates: [], note: `"${text}" isn't a date I know` };
+};
+
+// "Friday 30 October", with the year when it isn't this one
+export const formatResolvedDate = (value: string, { now = new Date(), locale = enUS }: DateResolverOptions = {}): string => {
+  const date = parseISO(value);
+  return format(date, isSameYear(date, now) ? 'EEEE d MMMM' : 'EEEE d MMMM yyyy', { locale });
+};
+
+// The question to ask about an ambiguous resolution
+export const dateConfirmationQuestion = (resolution: DateResolution, options: DateResolverOptions = {}): string => {
+  const [first, second] = resolution.candidates.map(candidate => formatResolvedDate(candidate, options));
+  return second
+    ? `By "${resolution.text}", do you mean ${first} or ${second}?`
+    : `By "${resolution.text}", shall I use ${first}?`;
+};
+
+const AFFIRMATIVE = /^(?:yes|yeah|yep|yup|sure|ok|okay|correct|right|that s right|please do|the first(?: one)?|first one|the earlier one)$/;
+const SECOND_CHOICE = /^(?:the second(?: one)?|second one|the other one|the later one|the last one)$/;
+
+/**
+ * Reads the answer to dateConfirmationQuestion. Returns the chosen day, or
+ * null when the answer doesn't settle it (a plain "no" to a two-way
+ * question, or something that isn't about the date at all). A fresh,
+ * unambiguous date in the answer wins outright.
+ */
+export const answerDateConfirmation = (answer: string, resolution: DateResolution, options: DateResolverOptions = {}): string | null => {
+  const normalized = normalizeDateText(answer).replace(/^(?:no |yes )?(?:i mean |i meant )?/, '');
+  if (AFFIRMATIVE.test(normalizeDateText(answer))) return resolution.candidates[0] ?? null;
+  if (SECOND_CHOICE.test(normalized)) return resolution.candidates[1] ?? null;
+
+  const restated = resolveDateExpression(normalized, options);
+  if (restated.status === 'resolved') return restated.candidates[0];
+  // "the 30th" or "friday the 30th" picking one of the offered days
+  const picked = resolution.candidates.find(candidate => {
+    const date = parseISO(candidate);
+    return restated.candidates.includes(candidate) || new RegExp(`\\b${date.getDate()}(?:st|nd|rd|th)?\\b`).test(normalized);
+  });
+  return picked ?? null;
+};
+
+// For dates that follow another, like a return after a departure: resolved as if it were that day
+export const resolveDateAfter = (text: string, after: string, options: DateResolverOptions = {}): DateResolution =>
+  resolveDateExpression(text, { ...options, now: parseISO(after) });
@@ -0,0 +1,117 @@
+import { toInstant } from '@/lib/flight-time';
+import type { Itinerary } from '@/lib/itineraries';
+
+/**
+ * How the results list is presented: sort order, grouping and paging. None of
+ * this touches the score; "AI score" order is the search's own ranking, and
+ * every other sort falls back to it on ties.
+ */
+
+export type ResultSort = 'score' | 'price' | 'duration' | 'departure' | 'arrival' | 'onTime';
+export type ResultGrouping = 'none' | 'stops' | 'airline';
+
+export interface ResultGroup {
+  key: string;
+  label: string;
+  itineraries: Itinerary[];
+}
+
+export interface ResultPage<T> {
+  items: T[];
+  // 1-based, clamped to the pages that exist
+  page: number;
+  pageCount: number;
+}
+
+export const RESULTS_PAGE_SIZE = 10;
+
+export const RESULT_SORTS: Array<{ value: ResultSort; label: string }> = [
+  { value: 'score', label: 'AI score' },
+  { value: 'price', label: 'Price' },
+  { value: 'duration', label: 'Duration' },
+  { value: 'departure', label: 'Departure time' },
+  { value: 'arrival', label: 'Arrival time' },
+  { value: 'onTime', label: 'On-time performance' }
+];
+
+export const RESULT_GROUPINGS: Array<{ value: ResultGrouping; label: string }> = [
+  { value: 'none', label: 'No grouping' },
+  { value: 'stops', label: 'Number of stops' },
+  { value: 'airline', label: 'Airline' }
+];
+
+export const averageOnTime = (itinerary: Itinerary): number =>
+  itinerary.legs.reduce((total, leg) => total + leg.onTimePerformance, 0) / itinerary.legs.length;
+
+// Every airline flown, in leg order: "Delta" or "Delta + KLM"
+export const itineraryAirlineLabel = (itinerary: Itinerary): string =>
+  [...new Set(itinerary.legs.map(leg => leg.airline))].join(' + ');
+
+// Departure is the first flight's, arrival the last flight's; both compared as instants
+const SORT_VALUES: Record<ResultSort, (itinerary: Itinerary) => number> = {
+  score: itinerary => -itinerary.score,
+  price: itinerary => itinerary.price,
+  duration: itinerary => itinerary.durationMinutes,
+  departure: itinerary => toInstant(itinerary.legs[0].departure).getTime(),
+  arrival: itinerary => toInstant(itinerary.legs[itinerary.legs.length - 1].arrival).getTime(),
+  onTime: itinerary => -averageOnTime(itinerary)
+};
+
+// Best first for the chosen key; the sort is stable, so ties keep the ranking order
+export const sortItineraries = (itineraries: Itinerary[], sort: ResultSort): Itinerary[] => {
+  const value = SORT_VALUES[sort];
+  return [...itineraries].sort((a, b) => value(a) - value(b));
+};
+
+const groupOf = (itinerary: Itinerary, grouping: ResultGrouping): Omit<ResultGroup, 'itineraries'> & { order: number | string } => {
+  switch (grouping) {
+    case 'stops':
+      return {
+        key: `stops-${itinerary.stops}`,
+        label: itinerary.stops === 0 ? 'Direct' : `${itinerary.stops} stop${itinerary.stops > 1 ? 's' : ''}`,
+        order: itinerary.stops
+      };
+    case 'airline': {
+      const label = itineraryAirlineLabel(itinerary);
+      return { key: `airline-${label}`, label, order: label.toLowerCase() };
+    }
+    default:
+      return { key: 'all', label: 'All results', order: 0 };
+  }
+};
+
+/**
+ * Splits already-sorted itineraries into groups, fewest stops or A-Z airline
+ * first. Each group keeps the incoming order.
+ */
+export const groupItineraries = (itineraries: Itinerary[], grouping: ResultGrouping): ResultGroup[] => {
+  const groups = new Map<string, ResultGroup & { order: number | string }>();
+  itineraries.forEach(itinerary => {
+    const { key, label, order } = groupOf(itinerary, grouping);
+    const group = groups.get(key) ?? { key, label, order, itineraries: [] };
+    group.itineraries.push(itinerary);
+    groups.set(key, group);
+  });
+  return [...groups.values()]
+    .sort((a, b) => a.order < b.order ? -1 : a.order > b.order ? 1 : 0)
+    .map(({ key, label, itineraries }) => ({ key, label, itineraries }));
+};
+
+export const paginate = <T>(items: T[], page: number, pageSize = RESULTS_PAGE_SIZE): ResultPage<T> => {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(1, page), pageCount);
+  return { items: items.slice((current - 1) * pageSize, current * pageSize), page: current, pageCount };
+};
+
+/**
+ * Page numbers to offer around the current page, with null where a run of
+ * pages is elided: 1 … 4 5 6 … 12.
+ */
+export const pageWindow = (page: number, pageCount: number, radius = 1): Array<number | null> => {
+  const pages: Array<number | null> = [];
+  for (let n = 1; n <= pageCount; n++) {
+    if (n === 1 || n === pageCount || Math.abs(n - page) <= radius) pages.push(n);
+    else if (pages[pages.length - 1] !== null) pages.push(null);
+  }
+  return pages;
+};
@@ -0,0 +1,152 @@
+import { formatLocalTime } from '@/lib/flight-time';
+import type { Itinerary } from '@/lib/itineraries';
+import { NUMBER_WORDS, spokenNumber } from '@/lib/relative-dates';
+
+/**
+ * Search results read aloud a few at a time, and what the traveller says
+ * back about them: "next", "repeat", "tell me more about option two",
+ * "cheapest one", "book the first one". Options are numbered as they were
+ * read, across pages, so "option four" means the fourth result.
+ */
+
+export interface ResultReadout {
+  // Best first, as the search ranked them
+  itineraries: Itinerary[];
+  // Index of the first option on the page being read
+  offset: number;
+  // The option talked about last, which "book it" or "that one" refers to
+  focus: number | null;
+}
+
+export type ResultRequest =
+  | { type: 'next' }
+  | { type: 'previous' }
+  | { type: 'repeat' }
+  | { type: 'stop' }
+  | { type: 'details'; index: number }
+  // null when asked to book without saying which
+  | { type: 'select'; index: number | null }
+  // Named an option that wasn't read out
+  | { type: 'missing'; number: number };
+
+export const RESULTS_PER_PAGE = 3;
+
+// Words that follow normalizeDateText; apostrophes are spaces by then ("i ll")
+const NEXT = /^(?:(?:the )?next(?: ones?| page| options?| few)?|more(?: options)?|keep going|go on|carry on|continue|what else)(?: please)?$/;
+const PREVIOUS = /^(?:(?:the )?previous(?: ones?| page| options?)?|go back|back)(?: please)?$/;
+const REPEAT = /^(?:(?:please )?repeat(?: that| it| those| them)?|say (?:that|it) again|again|come again|pardon|what was that|sorry what)(?: please)?$/;
+const STOP = /^(?:stop|stop reading|that s (?:all|enough)|enough|no more|i m done|done)(?: thanks| thank you)?$/;
+const SELECT = /\b(?:book|select|choose|pick|reserve|take|go with|i ll have|i want)\b/;
+// A booking that names no option at all
+const SELECT_ALONE = /^(?:i ll )?(?:book|select|choose|pick|reserve|take)(?: one| a flight)?(?: please)?$/;
+const MORE_ALONE = /^(?:tell me more|more details|details|more info(?:rmation)?)(?: please)?$/;
+const DETAILS = /\b(?:more about|tell me about|details|what about|how about|describe|read me)\b/;
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+// What recognizers hear for numbers said on their own
+const HOMOPHONES: Record<string, number> = { won: 1, to: 2, too: 2, for: 4, ate: 8 };
+const NUMBER = `\\d{1,2}|${NUMBER_WORDS.join('|')}|${Object.keys(HOMOPHONES).join('|')}`;
+
+const ABSOLUTE = new RegExp(`\\b(?:option|number|result|choice) (${NUMBER})\\b`);
+// Ordinals count from the start of the page being read
+const RELATIVE = new RegExp(`\\b(${ORDINALS.join('|')}|last) (?:one|option|result|choice|flight)s?\\b|\\bthe (${ORDINALS.join('|')}|last)\\b`);
+const CHEAPEST = /\b(?:cheapest|lowest (?:price|fare)|least expensive)\b/;
+const FASTEST = /\b(?:fastest|quickest|shortest)\b/;
+const BEST = /\b(?:best|top) (?:one|option|match|result|flight)\b/;
+const FOCUS = /\b(?:it|this one|that one|this flight|that flight|that option|this option)\b/;
+
+const optionNumber = (word: string): number => HOMOPHONES[word] ?? spokenNumber(word);
+
+const indexOfMin = (itineraries: Itinerary[], value: (itinerary: Itinerary) => number): number =>
+  itineraries.reduce((best, itinerary, index) => (value(itinerary) < value(itineraries[best]) ? index : best), 0);
+
+// "7 hours 45 minutes"
+const spokenDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return [
+    hours > 0 && `${hours} hour${hours === 1 ? '' : 's'}`,
+    rest > 0 && `${rest} minute${rest === 1 ? '' : 's'}`
+  ].filter(Boolean).join(' ') || '0 minutes';
+};
+
+const spokenStops = (stops: number) => (stops === 0 ? 'non-stop' : `${stops} stop${stops === 1 ? '' : 's'}`);
+
+const spokenTime = (iso: string) => formatLocalTime(iso, 'h:mm a');
+
+// "Option 2: United 123 at 8:05 AM, then Delta 456 at 2:10 PM, 1 stop, $310."
+export const describeOption = (itineraries: Itinerary[], index: number): string => {
+  const itinerary = itineraries[index];
+  const flights = itinerary.legs.map(leg => `${leg.airline} ${leg.flight} at ${spokenTime(leg.departure)}`).join(', then ');
+  return `Option ${index + 1}: ${flights}, ${spokenStops(itinerary.stops)}, $${itinerary.price}.`;
+};
+
+// Everything worth hearing about one option before choosing it
+export const describeOptionDetails = (itineraries: Itinerary[], index: number): string => {
+  const itinerary = itineraries[index];
+  const legs = itinerary.legs.map(leg => {
+    const via = leg.layovers.length > 0 ? `, connecting in ${leg.layovers.join(' and ')}` : '';
+    return `${leg.airline} ${leg.flight} leaves ${leg.origin} at ${spokenTime(leg.departure)} and reaches ${leg.destination} at ${spokenTime(leg.arrival)}${via}, on ${/^[aeiou]/i.test(leg.aircraft) ? 'an' : 'a'} ${leg.aircraft}.`;
+  });
+  return [
+    `Option ${index + 1} is $${itinerary.price} in total, ${spokenDuration(itinerary.durationMinutes)} of travel, ${spokenStops(itinerary.stops)}.`,
+    ...legs,
+    `It scores ${itinerary.score} out of 100.`
+  ].join(' ');
+};
+
+// The page at `offset`, with what can be said next
+export const readResultPage = ({ itineraries, offset }: ResultReadout, perPage = RESULTS_PER_PAGE): string => {
+  const end = Math.min(offset + perPage, itineraries.length);
+  const heading = offset === 0
+    ? (itineraries.length <= perPage ? '' : `Here are the top ${end}.`)
+    : (end - offset === 1 ? `Option ${end}, the last one.` : `Options ${offset + 1} to ${end}.`);
+  const options = Array.from({ length: end - offset }, (_, i) => describeOption(itineraries, offset + i));
+  const prompt = end < itineraries.length
+    ? 'Say next for more, tell me more about an option, or book one.'
+    : `That's all ${itineraries.length}. Tell me more about an option, or book one.`;
+  return [heading, ...options, prompt].filter(Boolean).join(' ');
+};
+
+/**
+ * Reads `words` (normalizeDateText output) as something said about the
+ * results being read, or null when it's about something else.
+ */
+export const parseResultRequest = (readout: ResultReadout, words: string, perPage = RESULTS_PER_PAGE): ResultRequest | null => {
+  if (NEXT.test(words)) return { type: 'next' };
+  if (PREVIOUS.test(words)) return { type: 'previous' };
+  if (REPEAT.test(words)) return { type: 'repeat' };
+  if (STOP.test(words)) return { type: 'stop' };
+
+  const { itineraries, offset, focus } = readout;
+  const pageEnd = Math.min(offset + perPage, itineraries.length);
+  let index: number | null = null;
+  let number: number | null = null;
+
+  const absolute = ABSOLUTE.exec(words);
+  const relative = RELATIVE.exec(words);
+  if (absolute) {
+    number = optionNumber(absolute[1]);
+  } else if (relative) {
+    const ordinal = relative[1] ?? relative[2];
+    number = ordinal === 'last' ? pageEnd : offset + ORDINALS.indexOf(ordinal) + 1;
+  } else if (CHEAPEST.test(words)) {
+    index = indexOfMin(itineraries, itinerary => itinerary.price);
+  } else if (FASTEST.test(words)) {
+    index = indexOfMin(itineraries, itinerary => itinerary.durationMinutes);
+  } else if (BEST.test(words)) {
+    index = 0;
+  }
+  if (number !== null) {
+    if (number < 1 || number > itineraries.length) return { type: 'missing', number };
+    index = number - 1;
+  }
+
+  const select = SELECT.test(words);
+  if (index !== null) return select ? { type: 'select', index } : { type: 'details', index };
+
+  // "Book it", "tell me more about that one": the option just talked about
+  if (select && (FOCUS.test(words) || SELECT_ALONE.test(words))) return { type: 'select', index: focus };
+  if (focus !== null && (MORE_ALONE.test(words) || (DETAILS.test(words) && FOCUS.test(words)))) return { type: 'details', index: focus };
+  return null;
+};
@@ -0,0 +1,116 @@
+import { haversineDistance, initialBearing, toRadians, type LatLng } from '@/lib/geodesy';
+
+const KT_TO_KMH = 1.852;
+// Floor for ground speed into a headwind, so a gale can't stretch an estimate without bound
+const MIN_GROUND_SPEED_KT = 50;
+
+export interface WindVector {
+  direction: number; // degrees true the wind is blowing FROM
+  speedKt: number;
+}
+
+export interface PerformanceProfile {
+  cruiseTasKt: number;
+  cruiseAltitudeFt: number;
+  climbRateFpm: number;
+  climbTasKt: number;
+  descentRateFpm: number;
+  descentTasKt: number;
+}
+
+// Typical narrow-body jet
+export const DEFAULT_PERFORMANCE: PerformanceProfile = {
+  cruiseTasKt: 450,
+  cruiseAltitudeFt: 35000,
+  climbRateFpm: 2000,
+  climbTasKt: 290,
+  descentRateFpm: 1800,
+  descentTasKt: 300
+};
+
+export interface FlightTimeEstimate {
+  totalMinutes: number;
+  climbMinutes: number;
+  cruiseMinutes: number;
+  descentMinutes: number;
+  // Mean tailwind component along the track in knots (negative = headwind)
+  windComponentKt: number;
+  averageGroundSpeedKt: number;
+}
+
+/**
+ * Tailwind component for a given course, plus the ground speed after
+ * correcting for crosswind drift. Returns null when the crosswind exceeds TAS.
+ */
+export const windTriangle = (courseDeg: number, tasKt: number, wind: WindVector) => {
+  const angle = toRadians(wind.direction - courseDeg);
+  const headwind = wind.speedKt * Math.cos(angle);
+  const crosswind = wind.speedKt * Math.sin(angle);
+  if (Math.abs(crosswind) >= tasKt) return null;
+  const correction = Math.asin(crosswind / tasKt);
+  return {
+    tailwindKt: -headwind,
+    groundSpeedKt: tasKt * Math.cos(correction) - headwind
+  };
+};
+
+// Crosswind-corrected ground speed on a course; calm when the crosswind can't be held
+const groundSpeedOn = (courseDeg: number, tasKt: number, wind: WindVector | null): number =>
+  Math.max(MIN_GROUND_SPEED_KT, (wind && windTriangle(courseDeg, tasKt, wind)?.groundSpeedKt) ?? tasKt);
+
+/**
+ * Estimates block time along a track (origin, waypoints..., destination).
+ * Climb and descent are flown at their own TAS; if the leg is too short to
+ * reach cruise altitude the top of climb is lowered proportionally. Each leg
+ * is timed at its own wind-triangle ground speed, so crosswind costs time too.
+ */
+export const estimateFlightTime = (
+  track: LatLng[],
+  wind: WindVector | null = null,
+  profile: PerformanceProfile = DEFAULT_PERFORMANCE
+): FlightTimeEstimate => {
+  const legs = track.slice(1).map((point, i) => ({
+    distanceKm: haversineDistance(track[i], point),
+    course: initialBearing(track[i], point)
+  }));
+  const totalKm = legs.reduce((sum, leg) => sum + leg.distanceKm, 0);
+  if (totalKm === 0) {
+    return { totalMinutes: 0, climbMinutes: 0, cruiseMinutes: 0, descentMinutes: 0, windComponentKt: 0, averageGroundSpeedKt: 0 };
+  }
+
+  // Distance-weighted mean wind component, reported alongside the estimate
+  const calm = { tailwindKt: 0 };
+  const windComponentKt = legs.reduce((sum, leg) =>
+    sum + (wind ? (windTriangle(leg.course, profile.cruiseTasKt, wind) ?? calm).tailwindKt : 0) * leg.distanceKm, 0) / totalKm;
+
+  // Climb is flown on the first leg's course and descent on the last's
+  const climbGroundSpeedKt = groundSpeedOn(legs[0].course, profile.climbTasKt, wind);
+  const descentGroundSpeedKt = groundSpeedOn(legs[legs.length - 1].course, profile.descentTasKt, wind);
+  // Each leg's share of the time at its own ground speed, so the mean is distance-weighted harmonic
+  const cruiseGroundSpeedKt = totalKm / legs.reduce((sum, leg) =>
+    sum + leg.distanceKm / groundSpeedOn(leg.course, profile.cruiseTasKt, wind), 0);
+
+  const climbMinutesFull = profile.cruiseAltitudeFt / profile.climbRateFpm;
+  const descentMinutesFull = profile.cruiseAltitudeFt / profile.descentRateFpm;
+  const climbKmFull = climbGroundSpeedKt * KT_TO_KMH * climbMinutesFull / 60;
+  const descentKmFull = descentGroundSpeedKt * KT_TO_KMH * descentMinutesFull / 60;
+
+  const scale = Math.min(1, totalKm / (climbKmFull + descentKmFull));
+  const climbMinutes = climbMinutesFull * scale;
+  const descentMinutes = descentMinutesFull * scale;
+  const cruiseKm = Math.max(0, totalKm - (climbKmFull + descentKmFull) * scale);
+  const cruiseMinutes = cruiseKm / (cruiseGroundSpeedKt * KT_TO_KMH) * 60;
+  const totalMinutes = climbMinutes + cruiseMinutes + descentMinutes;
+
+  return {
+    totalMinutes: Math.round(totalMinutes),
+    climbMinutes: Math.round(climbMinutes),
+    cruiseMinutes: Math.round(cruiseMinutes),
+    descentMinutes: Math.round(descentMinutes),
+    windComponentKt: Math.round(windComponentKt),
+    averageGroundSpeedKt: Math.round(totalKm / KT_TO_KMH / (totalMinutes / 60))
+  };
+};
+
+export const formatFlightTime = (minutes: number): string =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import type { FlightResult, SearchCriteria } from '@/lib/flight-search';
+import {
+  DIRECT_PREFERENCE_PENALTY,
+  normalizeAcrossSet,
+  normalizeWeights,
+  rankItineraries,
+  type UnscoredItinerary
+} from '@/lib/scoring';
+
+const EQUAL: SearchCriteria['priorities'] = { cost: 50, time: 50, safety: 50, comfort: 50, layovers: 50 };
+
+const leg = (overrides: Partial<FlightResult> = {}): FlightResult => ({
+  id: 'leg',
+  airline: 'Test Air',
+  flight: 'TA-100',
+  origin: 'BOS',
+  destination: 'DEN',
+  departure: '2025-06-10T08:00:00-04:00',
+  arrival: '2025-06-10T10:00:00-06:00',
+  durationMinutes: 240,
+  price: 300,
+  stops: 0,
+  layovers: [],
+  aircraft: 'Airbus A320',
+  score: 0,
+  safetyRating: 9,
+  onTimePerformance: 80,
+  route: ['BOS', 'DEN'],
+  weather: 'favorable',
+  ...overrides
+});
+
+const itinerary = (id: string, overrides: Partial<FlightResult> = {}): UnscoredItinerary => {
+  const flight = leg({ id, ...overrides });
+  return { id, legs: [flight], price: flight.price, durationMinutes: flight.durationMinutes, stops: flight.stops };
+};
+
+describe('normalizeWeights', () => {
+  it('scales the sliders to weights summing to 1', () => {
+    const weights = normalizeWeights({ cost: 60, time: 20, safety: 20, comfort: 0, layovers: 0 });
+    expect(weights).toEqual({ cost: 0.6, time: 0.2, safety: 0.2, comfort: 0, layovers: 0 });
+  });
+
+  it('weights every factor equally when all sliders are at zero', () => {
+    const weights = normalizeWeights({ cost: 0, time: 0, safety: 0, comfort: 0, layovers: 0 });
+    Object.values(weights).forEach(weight => expect(weight).toBeCloseTo(0.2, 10));
+  });
+
+  it('counts negative sliders as zero', () => {
+    expect(normalizeWeights({ cost: 50, time: -50, safety: 50, comfort: 0, layovers: 0 }))
+      .toEqual({ cost: 0.5, time: 0, safety: 0.5, comfort: 0, layovers: 0 });
+  });
+});
+
+describe('normalizeAcrossSet', () => {
+  it('maps the best value to 1 and the worst to 0', () => {
+    expect(normalizeAcrossSet([100, 150, 200], false)).toEqual([1, 0.5, 0]);
+    expect(normalizeAcrossSet([100, 150, 200], true)).toEqual([0, 0.5, 1]);
+  });
+
+  it('gives every result 1 when they all tie', () => {
+    expect(normalizeAcrossSet([7, 7, 7], false)).toEqual([1, 1, 1]);
+    expect(normalizeAcrossSet([7], true)).toEqual([1]);
+  });
+});
+
+describe('rankItineraries', () => {
+  it('orders results best first by the weighted factors', () => {
+    const ranked = rankItineraries([
+      itinerary('expensive', { price: 500 }),
+      itinerary('cheap', { price: 200 }),
+      itinerary('middle', { price: 350 })
+    ], { ...EQUAL, cost: 100 });
+    expect(ranked.map(result => result.id)).toEqual(['cheap', 'middle', 'expensive']);
+    // Price carries a third of the weight; the other factors tie, so they give everyone full marks
+    expect(ranked.map(result => result.score)).toEqual([100, 83, 67]);
+  });
+
+  it('lets the heavier priority win a trade-off', () => {
+    const options = [itinerary('cheap-slow', { price: 200, durationMinutes: 600 }), itinerary('fast-dear', { price: 600, durationMinutes: 200 })];
+    expect(rankItineraries(options, { ...EQUAL, cost: 90, time: 10 })[0].id).toBe('cheap-slow');
+    expect(rankItineraries(options, { ...EQUAL, cost: 10, time: 90 })[0].id).toBe('fast-dear');
+  });
+
+  it('gives full marks when every factor ties, and keeps input order', () => {
+    const ranked = rankItineraries([itinerary('a'), itinerary('b')], EQUAL);
+    expect(ranked.map(result => [result.id, result.score])).toEqual([['a', 100], ['b', 100]]);
+  });
+
+  it('explains the score factor by factor', () => {
+    const [best] = rankItineraries([itinerary('cheap', { price: 200 }), itinerary('dear', { price: 400 })], EQUAL);
+    const points = best.breakdown.factors.reduce((sum, factor) => sum + factor.points, 0);
+    expect(Math.round(points)).toBe(best.score);
+    expect(best.breakdown.factors.find(factor => factor.factor === 'cost')).toMatchObject({ value: 200, normalized: 1, weight: 0.2, points: 20 });
+  });
+
+  it('takes the direct-flight penalty off per connection when asked', () => {
+    const options = [itinerary('direct', { stops: 0 }), itinerary('two-stop', { stops: 2 })];
+    const plain = rankItineraries(options, { ...EQUAL, layovers: 0 });
+    const preferDirect = rankItineraries(options, { ...EQUAL, layovers: 0 }, { preferDirect: true });
+
+    const find = (ranked: typeof plain, id: string) => ranked.find(result => result.id === id);
+    expect(find(preferDirect, 'direct').score).toBe(find(plain, 'direct').score);
+    expect(find(preferDirect, 'direct').breakdown.adjustments).toEqual([]);
+    expect(find(preferDirect, 'two-stop').score).toBe(find(plain, 'two-stop').score - 2 * DIRECT_PREFERENCE_PENALTY);
+    expect(find(preferDirect, 'two-stop').breakdown.adjustments).toEqual([{ label: 'Prefer direct', points: -2 * DIRECT_PREFERENCE_PENALTY }]);
+  });
+
+  it('never scores below zero', () => {
+    const ranked = rankItineraries([itinerary('good', { stops: 0 }), itinerary('bad', { price: 900, stops: 12 })], EQUAL, { preferDirect: true });
+    expect(ranked[1].score).toBe(0);
+  });
+
+  it('returns nothing for no results', () => {
+    expect(rankItineraries([], EQUAL)).toEqual([]);
+  });
+});
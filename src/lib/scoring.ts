@@ -0,0 +1,147 @@
+import type { FlightResult, SearchCriteria } from '@/lib/flight-search';
+import type { Itinerary } from '@/lib/itineraries';
+
+/**
+ * Itinerary scoring.
+ *
+ * Each factor is measured on the itinerary as a whole, then min-max
+ * normalized across the result set being ranked, so 1 is the best value in
+ * the set and 0 the worst; a factor on which every result ties scores 1 for
+ * all of them and so can't change the order. The priority sliders are
+ * normalized to weights summing to 1 (all at zero means equal weights), and
+ * the score is 100 × Σ weight × normalized. Scores therefore rank results
+ * within one search; they aren't comparable between searches.
+ *
+ * Factors, each counted once:
+ *  - cost: total fare, lower is better
+ *  - time: total flying and connection time, lower is better
+ *  - safety: the weakest leg's safety rating, higher is better
+ *  - comfort: average on-time performance scaled by the worst en-route weather, higher is better
+ *  - layovers: total connections, fewer is better
+ *
+ * Preferences that aren't weights (prefer direct) are applied afterwards as
+ * point adjustments and listed separately in the breakdown.
+ */
+
+export type ScoreFactor = keyof SearchCriteria['priorities'];
+
+export interface FactorScore {
+  factor: ScoreFactor;
+  label: string;
+  // Raw measurement: dollars, minutes, rating, percent or connections
+  value: number;
+  // 0 (worst in the set) to 1 (best in the set)
+  normalized: number;
+  // Share of the total weight, 0-1
+  weight: number;
+  // Contribution to the 0-100 score
+  points: number;
+}
+
+export interface ScoreAdjustment {
+  label: string;
+  points: number;
+}
+
+export interface ScoreBreakdown {
+  factors: FactorScore[];
+  adjustments: ScoreAdjustment[];
+}
+
+export type UnscoredItinerary = Omit<Itinerary, 'score' | 'breakdown'>;
+
+export interface RankingOptions {
+  // Take DIRECT_PREFERENCE_PENALTY points off per connection
+  preferDirect?: boolean;
+}
+
+export const DIRECT_PREFERENCE_PENALTY = 10;
+
+// How much each weather category takes off comfort
+const WEATHER_COMFORT: Record<FlightResult['weather'], number> = {
+  favorable: 1,
+  caution: 0.85,
+  warning: 0.6
+};
+
+const FACTORS: Array<{
+  factor: ScoreFactor;
+  label: string;
+  higherIsBetter: boolean;
+  measure: (itinerary: UnscoredItinerary) => number;
+}> = [
+  { factor: 'cost', label: 'Price', higherIsBetter: false, measure: itinerary => itinerary.price },
+  { factor: 'time', label: 'Travel time', higherIsBetter: false, measure: itinerary => itinerary.durationMinutes },
+  {
+    factor: 'safety',
+    label: 'Safety',
+    higherIsBetter: true,
+    measure: itinerary => Math.min(...itinerary.legs.map(leg => leg.safetyRating))
+  },
+  {
+    factor: 'comfort',
+    label: 'Comfort',
+    higherIsBetter: true,
+    measure: itinerary => {
+      const onTime = itinerary.legs.reduce((total, leg) => total + leg.onTimePerformance, 0) / itinerary.legs.length;
+      return onTime * Math.min(...itinerary.legs.map(leg => WEATHER_COMFORT[leg.weather]));
+    }
+  },
+  { factor: 'layovers', label: 'Connections', higherIsBetter: false, measure: itinerary => itinerary.stops }
+];
+
+// Slider values to weights summing to 1; negative values count as zero
+export const normalizeWeights = (priorities: SearchCriteria['priorities']): Record<ScoreFactor, number> => {
+  const total = FACTORS.reduce((sum, { factor }) => sum + Math.max(0, priorities[factor]), 0);
+  return Object.fromEntries(FACTORS.map(({ factor }) =>
+    [factor, total > 0 ? Math.max(0, priorities[factor]) / total : 1 / FACTORS.length]
+  )) as Record<ScoreFactor, number>;
+};
+
+// Maps each value to 0-1 within the set, 1 being best
+export const normalizeAcrossSet = (values: number[], higherIsBetter: boolean): number[] => {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (!(max > min)) return values.map(() => 1);
+  return values.map(value => higherIsBetter ? (value - min) / (max - min) : (max - value) / (max - min));
+};
+
+/**
+ * Scores every itinerary against the rest of the set and returns them best
+ * first. Ties keep their input order.
+ */
+export const rankItineraries = (
+  itineraries: UnscoredItinerary[],
+  priorities: SearchCriteria['priorities'],
+  options: RankingOptions = {}
+): Itinerary[] => {
+  if (itineraries.length === 0) return [];
+  const weights = normalizeWeights(priorities);
+
+  const columns = FACTORS.map(({ measure, higherIsBetter }) => {
+    const values = itineraries.map(measure);
+    return { values, normalized: normalizeAcrossSet(values, higherIsBetter) };
+  });
+
+  return itineraries
+    .map((itinerary, index): Itinerary => {
+      const factors = FACTORS.map(({ factor, label }, f): FactorScore => ({
+        factor,
+        label,
+        value: columns[f].values[index],
+        normalized: columns[f].normalized[index],
+        weight: weights[factor],
+        points: 100 * weights[factor] * columns[f].normalized[index]
+      }));
+      const adjustments: ScoreAdjustment[] = options.preferDirect && itinerary.stops > 0
+        ? [{ label: 'Prefer direct', points: -DIRECT_PREFERENCE_PENALTY * itinerary.stops }]
+        : [];
+      const total = [...factors, ...adjustments].reduce((sum, part) => sum + part.points, 0);
+      return { ...itinerary, score: Math.max(0, Math.round(total)), breakdown: { factors, adjustments } };
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+// The factors that did the most for an itinerary's score, biggest first
+export const topFactors = (breakdown: ScoreBreakdown, count = 2): FactorScore[] =>
+  [...breakdown.factors].filter(factor => factor.points > 0).sort((a, b) => b.points - a.points).slice(0, count);
@@ -0,0 +1,93 @@
+import type { FlightResult, SearchCriteria } from '@/lib/flight-search';
+import type { Itinerary } from '@/lib/itineraries';
+
+export type SearchFilterId = keyof SearchCriteria['filters'];
+
+export interface FilterOutcome {
+  filter: SearchFilterId;
+  label: string;
+  // Itineraries this filter excluded that had survived the filters before it
+  removed: number;
+  // Itineraries kept but pushed down the ranking (see RankingOptions in scoring.ts)
+  demoted: number;
+}
+
+// "12:00" -> 720; unparseable values disable the limit
+export const parseMaxDuration = (value: string): number | null => {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null;
+};
+
+// Limits apply to each leg on its own, so a round trip isn't held to a one-way budget
+const exclusions: Array<{
+  filter: SearchFilterId;
+  label: string;
+  active: (filters: SearchCriteria['filters']) => boolean;
+  keepLeg: (leg: FlightResult, filters: SearchCriteria['filters']) => boolean;
+}> = [
+  {
+    filter: 'maxLayovers',
+    label: 'Max stops',
+    active: () => true,
+    keepLeg: (leg, filters) => leg.stops <= filters.maxLayovers
+  },
+  {
+    filter: 'maxDuration',
+    label: 'Max duration',
+    active: filters => parseMaxDuration(filters.maxDuration) !== null,
+    keepLeg: (leg, filters) => leg.durationMinutes <= (parseMaxDuration(filters.maxDuration) as number)
+  },
+  {
+    filter: 'preferredAirlines',
+    label: 'Airlines',
+    active: filters => filters.preferredAirlines.length > 0,
+    keepLeg: (leg, filters) => filters.preferredAirlines.some(airline => airline.toLowerCase() === leg.airline.toLowerCase())
+  }
+];
+
+// Whether a single flight could be part of an itinerary the filters keep
+export const passesLegFilters = (leg: FlightResult, filters: SearchCriteria['filters']): boolean =>
+  exclusions.every(({ active, keepLeg }) => !active(filters) || keepLeg(leg, filters));
+
+/**
+ * Tallies the filters over every trip the per-leg results make, without
+ * pairing them: `countTrips` says how many whole trips some per-leg flights
+ * make. Stop, duration and airline limits exclude, and each one's count is of
+ * the trips that survived the limits before it. A direct-flight preference
+ * doesn't exclude; it's applied when ranking, and only tallied here over the
+ * `itineraries` shown.
+ */
+export const tallyLegFilters = (
+  legResults: FlightResult[][],
+  itineraries: Itinerary[],
+  filters: SearchCriteria['filters'],
+  countTrips: (legResults: FlightResult[][]) => number
+): { total: number; outcomes: FilterOutcome[] } => {
+  const outcomes: FilterOutcome[] = [];
+  const total = countTrips(legResults);
+  let remaining = legResults;
+  let before = total;
+
+  exclusions.forEach(({ filter, label, active, keepLeg }) => {
+    if (!active(filters)) return;
+    remaining = remaining.map(results => results.filter(leg => keepLeg(leg, filters)));
+    const after = countTrips(remaining);
+    outcomes.push({ filter, label, removed: before - after, demoted: 0 });
+    before = after;
+  });
+
+  if (filters.directFlights) {
+    outcomes.push({
+      filter: 'directFlights',
+      label: 'Prefer direct',
+      removed: 0,
+      demoted: itineraries.filter(itinerary => itinerary.stops > 0).length
+    });
+  }
+
+  return { total, outcomes };
+};
+
+// Every airline among the flights found, including ones filtered out, for the airline picker
+export const flightAirlines = (flights: FlightResult[]): string[] =>
+  [...new Set(flights.map(flight => flight.airline))].sort();
@@ -0,0 +1,93 @@
+import { DEFAULT_SEARCH_CRITERIA, type SearchCriteria, type SearchLeg } from '@/lib/flight-search';
+import { MAX_MULTI_CITY_LEGS } from '@/lib/itineraries';
+
+const PRIORITY_KEYS: Array<keyof SearchCriteria['priorities']> = ['cost', 'time', 'safety', 'comfort', 'layovers'];
+const CABINS: SearchCriteria['class'][] = ['economy', 'business', 'first'];
+const TRIP_TYPES: SearchCriteria['tripType'][] = ['oneway', 'roundtrip', 'multicity'];
+
+const clampInt = (value: string | null, min: number, max: number, fallback: number): number => {
+  const number = value === null ? NaN : parseInt(value, 10);
+  return Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : fallback;
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Multi-city legs travel as repeated `leg=JFK,LHR,2025-06-01` params
+const serializeLeg = (leg: SearchLeg): string => [leg.origin, leg.destination, leg.departureDate].join(',');
+
+const parseLeg = (value: string): SearchLeg | null => {
+  const [origin, destination, departureDate = ''] = value.split(',').map(part => part.trim());
+  if (!origin || !destination) return null;
+  return { origin, destination, departureDate: DATE_PATTERN.test(departureDate) ? departureDate : '' };
+};
+
+const oneOf = <T extends string>(value: string | null, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+/**
+ * Writes every field, defaults included, so a shared link keeps ranking the
+ * same way even if the form defaults change later.
+ */
+export const serializeSearchCriteria = (criteria: SearchCriteria): URLSearchParams => {
+  const params = new URLSearchParams();
+  params.set('from', criteria.origin);
+  params.set('to', criteria.destination);
+  if (criteria.departureDate) params.set('depart', criteria.departureDate);
+  if (criteria.tripType === 'roundtrip' && criteria.returnDate) params.set('return', criteria.returnDate);
+  params.set('pax', String(criteria.passengers));
+  params.set('cabin', criteria.class);
+  params.set('trip', criteria.tripType);
+  if (criteria.tripType === 'multicity') criteria.legs?.forEach(leg => params.append('leg', serializeLeg(leg)));
+  PRIORITY_KEYS.forEach(key => params.set(`w.${key}`, String(criteria.priorities[key])));
+  params.set('maxStops', String(criteria.filters.maxLayovers));
+  params.set('maxDuration', criteria.filters.maxDuration);
+  criteria.filters.preferredAirlines.forEach(airline => params.append('airline', airline));
+  params.set('flex', criteria.filters.flexibleDates ? '1' : '0');
+  params.set('direct', criteria.filters.directFlights ? '1' : '0');
+  return params;
+};
+
+/**
+ * Reads criteria back from a query string. Returns null unless both ends are
+ * present; anything missing or malformed falls back to the form defaults.
+ * Multi-city legs take precedence over `from`/`to`/`depart`, which mirror them.
+ */
+export const parseSearchCriteria = (params: URLSearchParams): SearchCriteria | null => {
+  const defaults = DEFAULT_SEARCH_CRITERIA;
+  const date = (value: string | null) => value && DATE_PATTERN.test(value) ? value : '';
+  const legs = params.getAll('leg').map(parseLeg).filter(Boolean).slice(0, MAX_MULTI_CITY_LEGS);
+  // A multi-city link with fewer than two usable legs degrades to one-way
+  const requestedTrip = oneOf(params.get('trip'), TRIP_TYPES, defaults.tripType);
+  const tripType = requestedTrip === 'multicity' && legs.length < 2 ? 'oneway' : requestedTrip;
+  const multiCity = tripType === 'multicity';
+
+  const origin = multiCity ? legs[0].origin : params.get('from')?.trim();
+  const destination = multiCity ? legs[legs.length - 1].destination : params.get('to')?.trim();
+  if (!origin || !destination) return null;
+  const maxDuration = params.get('maxDuration');
+
+  return {
+    origin,
+    destination,
+    departureDate: multiCity ? legs[0].departureDate : date(params.get('depart')),
+    returnDate: tripType === 'roundtrip' ? date(params.get('return')) : '',
+    passengers: clampInt(params.get('pax'), 1, 8, defaults.passengers),
+    class: oneOf(params.get('cabin'), CABINS, defaults.class),
+    tripType,
+    ...(multiCity ? { legs } : {}),
+    priorities: Object.fromEntries(PRIORITY_KEYS.map(key =>
+      [key, clampInt(params.get(`w.${key}`), 0, 100, defaults.priorities[key])]
+    )) as SearchCriteria['priorities'],
+    filters: {
+      maxLayovers: clampInt(params.get('maxStops'), 0, 3, defaults.filters.maxLayovers),
+      maxDuration: maxDuration && /^\d{1,2}:\d{2}$/.test(maxDuration) ? maxDuration : defaults.filters.maxDuration,
+      preferredAirlines: params.getAll('airline').filter(Boolean),
+      flexibleDates: params.get('flex') === '1',
+      directFlights: params.get('direct') === '1'
+    }
+  };
+};
+
+// Stable string for comparing criteria (effect dependencies, cache keys)
+export const searchCriteriaKey = (criteria: SearchCriteria | null): string =>
+  criteria ? serializeSearchCriteria(criteria).toString() : '';
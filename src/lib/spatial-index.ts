@@ -0,0 +1,96 @@
+import { EARTH_RADIUS_KM, toRadians, type LatLng } from '@/lib/geodesy';
+
+type Vector = [number, number, number];
+
+interface KdNode<T> {
+  item: T;
+  vector: Vector;
+  axis: number;
+  left: KdNode<T> | null;
+  right: KdNode<T> | null;
+}
+
+export interface SpatialMatch<T> {
+  item: T;
+  distance: number; // great-circle km
+}
+
+export interface NearestOptions<T> {
+  maxDistanceKm?: number;
+  filter?: (item: T) => boolean;
+}
+
+export interface SpatialIndex<T> {
+  size: number;
+  nearest: (point: LatLng, k: number, options?: NearestOptions<T>) => SpatialMatch<T>[];
+  within: (point: LatLng, radiusKm: number, filter?: (item: T) => boolean) => SpatialMatch<T>[];
+}
+
+// Points live on the unit sphere, where straight-line (chord) distance is
+// monotonic in great-circle distance, so a plain 3-d tree works everywhere,
+// including across the antimeridian and near the poles.
+const toVector = ([lat, lng]: LatLng): Vector => {
+  const phi = toRadians(lat);
+  const lambda = toRadians(lng);
+  return [Math.cos(phi) * Math.cos(lambda), Math.cos(phi) * Math.sin(lambda), Math.sin(phi)];
+};
+
+const chordSquared = (a: Vector, b: Vector): number =>
+  (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+const chordToKm = (chord: number): number => 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, chord / 2));
+
+const kmToChord = (km: number): number =>
+  km >= Math.PI * EARTH_RADIUS_KM ? 2 : 2 * Math.sin(km / (2 * EARTH_RADIUS_KM));
+
+const build = <T>(entries: Array<{ item: T; vector: Vector }>, depth: number): KdNode<T> | null => {
+  if (entries.length === 0) return null;
+  const axis = depth % 3;
+  const sorted = [...entries].sort((a, b) => a.vector[axis] - b.vector[axis]);
+  const median = Math.floor(sorted.length / 2);
+  return {
+    ...sorted[median],
+    axis,
+    left: build(sorted.slice(0, median), depth + 1),
+    right: build(sorted.slice(median + 1), depth + 1)
+  };
+};
+
+/**
+ * Static k-d tree over lat/lng items for k-nearest and radius queries.
+ * Build once; the datasets it serves are bundled and never mutated.
+ */
+export const createSpatialIndex = <T>(items: T[], getPosition: (item: T) => LatLng): SpatialIndex<T> => {
+  const root = build(items.map(item => ({ item, vector: toVector(getPosition(item)) })), 0);
+
+  const search = (point: LatLng, k: number, maxChord: number, filter?: (item: T) => boolean) => {
+    const target = toVector(point);
+    const limit = maxChord * maxChord;
+    // Kept sorted ascending; small k makes insertion sort the cheap option
+    const best: Array<{ item: T; d2: number }> = [];
+
+    const visit = (node: KdNode<T> | null) => {
+      if (!node) return;
+      const d2 = chordSquared(target, node.vector);
+      if (d2 <= limit && (best.length < k || d2 < best[best.length - 1].d2) && (!filter || filter(node.item))) {
+        const at = best.findIndex(entry => entry.d2 > d2);
+        best.splice(at === -1 ? best.length : at, 0, { item: node.item, d2 });
+        if (best.length > k) best.pop();
+      }
+      const diff = target[node.axis] - node.vector[node.axis];
+      visit(diff < 0 ? node.left : node.right);
+      const worst = best.length < k ? limit : Math.min(limit, best[best.length - 1].d2);
+      if (diff * diff <= worst) visit(diff < 0 ? node.right : node.left);
+    };
+
+    visit(root);
+    return best.map(({ item, d2 }) => ({ item, distance: chordToKm(Math.sqrt(d2)) }));
+  };
+
+  return {
+    size: items.length,
+    nearest: (point, k, options = {}) =>
+      search(point, k, options.maxDistanceKm === undefined ? 2 : kmToChord(options.maxDistanceKm), options.filter),
+    within: (point, radiusKm, filter) => search(point, Infinity, kmToChord(radiusKm), filter)
+  };
+};
@@ -0,0 +1,71 @@
+/**
+ * IANA time-zone helpers built on Intl, so no zone database ships with the
+ * app. Offsets are in minutes east of UTC (New York in summer is -240).
+ */
+
+const MINUTE_MS = 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Nautical zone for places without a named one; note Etc/ names flip the sign
+export const timeZoneFromLongitude = (lng: number): string => {
+  const hours = Math.max(-12, Math.min(12, Math.round(lng / 15)));
+  return hours === 0 ? 'Etc/GMT' : `Etc/GMT${hours > 0 ? '-' : '+'}${Math.abs(hours)}`;
+};
+
+// UTC offset in force in the zone at the given instant
+export const zoneOffsetMinutes = (timeZone: string, instant: Date): number => {
+  const parts = Object.fromEntries(formatterFor(timeZone).formatToParts(instant).map(part => [part.type, part.value]));
+  const wallAsUtc = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+  return Math.round((wallAsUtc - Math.floor(instant.getTime() / 1000) * 1000) / MINUTE_MS);
+};
+
+/**
+ * The instant a zone's clocks read `minutes` after midnight on a yyyy-MM-dd
+ * date. Times skipped by a DST change resolve to the later offset.
+ */
+export const zonedWallTimeToInstant = (date: string, minutes: number, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallAsUtc = Date.UTC(year, month - 1, day) + minutes * MINUTE_MS;
+  const firstGuess = wallAsUtc - zoneOffsetMinutes(timeZone, new Date(wallAsUtc)) * MINUTE_MS;
+  return new Date(wallAsUtc - zoneOffsetMinutes(timeZone, new Date(firstGuess)) * MINUTE_MS);
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// ISO-8601 in the zone's local time with its offset, e.g. 2025-06-10T07:15:00-04:00
+export const formatZonedIso = (instant: Date, timeZone: string): string => {
+  const offset = zoneOffsetMinutes(timeZone, instant);
+  const wall = new Date(instant.getTime() + offset * MINUTE_MS);
+  const sign = offset < 0 ? '-' : '+';
+  return `${wall.getUTCFullYear()}-${pad(wall.getUTCMonth() + 1)}-${pad(wall.getUTCDate())}` +
+    `T${pad(wall.getUTCHours())}:${pad(wall.getUTCMinutes())}:${pad(wall.getUTCSeconds())}` +
+    `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+};
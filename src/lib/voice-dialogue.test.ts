@@ -0,0 +1,202 @@
+import { describe, expect, it } from 'vitest';
+import { enGB, enUS } from 'date-fns/locale';
+import { createFixtureFlightSearchProvider, DEFAULT_SEARCH_CRITERIA } from '@/lib/flight-search';
+import { searchItineraries } from '@/lib/itineraries';
+import {
+  createDialogueState,
+  recordOutcome,
+  respondToUtterance,
+  type DialogueOptions,
+  type DialogueResult,
+  type DialogueState
+} from '@/lib/voice-dialogue';
+import { getVoiceParser, type VoiceParser } from '@/lib/voice-parser';
+
+// Tuesday 13 October 2026, mid-morning
+const NOW = new Date(2026, 9, 13, 10, 30);
+const OPTIONS: DialogueOptions = { now: NOW, locale: enUS, parser: getVoiceParser() };
+
+// Plays the traveller's lines in turn, keeping every result
+const talk = (lines: string[], options = OPTIONS, state = createDialogueState()): DialogueResult[] =>
+  lines.reduce<DialogueResult[]>((results, line) => {
+    const previous = results.length > 0 ? results[results.length - 1].state : state;
+    return [...results, respondToUtterance(previous, line, options)];
+  }, []);
+
+const replies = (results: DialogueResult[]) => results.map(result => result.reply);
+const last = (results: DialogueResult[]) => results[results.length - 1];
+
+describe('building a search', () => {
+  it('asks for each missing slot and fills it from a bare answer', () => {
+    const results = talk(['Find flights', 'to Denver', 'from Boston', 'friday']);
+    expect(replies(results)).toEqual([
+      'Where would you like to fly to?',
+      'And where are you flying from?',
+      'What day would you like to leave?',
+      'Flights from Boston (BOS) to Denver (DEN), departing Friday 16 October, for 1 passenger in economy. Shall I search?'
+    ]);
+    expect(results.map(result => [result.state.stage, result.state.asking])).toEqual([
+      ['collecting', 'destination'],
+      ['collecting', 'origin'],
+      ['collecting', 'departureDate'],
+      ['confirming-search', null]
+    ]);
+    expect(results[1].state.draft.destination?.code).toBe('DEN');
+  });
+
+  it('searches only once the request has been read back and confirmed', () => {
+    const results = talk(['Find flights from Boston to Denver on friday', 'yes']);
+    expect(results[0].action).toBeUndefined();
+    expect(last(results)).toMatchObject({
+      reply: 'Searching for flights from Boston (BOS) to Denver (DEN).',
+      action: {
+        type: 'search',
+        criteria: {
+          ...DEFAULT_SEARCH_CRITERIA,
+          origin: 'BOS',
+          destination: 'DEN',
+          departureDate: '2026-10-16',
+          tripType: 'oneway'
+        }
+      }
+    });
+    expect(last(results).state.stage).toBe('idle');
+    expect(last(results).state.draft).toEqual({});
+  });
+
+  it('takes corrections to what was read back', () => {
+    const results = talk(['Find flights from Boston to Denver on friday', 'no, from Newark', 'make it two', 'yes']);
+    expect(results[1].reply).toBe('Flights from Newark (EWR) to Denver (DEN), departing Friday 16 October, for 1 passenger in economy. Shall I search?');
+    expect(results[2].reply).toBe('Flights from Newark (EWR) to Denver (DEN), departing Friday 16 October, for 2 passengers in economy. Shall I search?');
+    expect(last(results).action).toMatchObject({ type: 'search', criteria: { origin: 'EWR', destination: 'DEN', passengers: 2 } });
+  });
+
+  it('asks what to change after a no', () => {
+    const results = talk(['Find flights from Boston to Denver on friday', 'no', 'how about chicago']);
+    expect(results[1]).toMatchObject({ reply: 'What would you like to change?', state: { stage: 'collecting', asking: null } });
+    expect(last(results).state.draft.destination?.city).toBe('Chicago');
+    expect(last(results).state.stage).toBe('confirming-search');
+  });
+
+  it('asks again for the return when a moved departure passes it', () => {
+    const results = talk(['Find flights from Boston to Denver on friday returning sunday', 'no, the 25th']);
+    expect(results[0].state.draft).toMatchObject({ departureDate: '2026-10-16', returnDate: '2026-10-18' });
+    expect(last(results)).toMatchObject({ reply: 'And what day would you like to come back?', state: { asking: 'returnDate' } });
+    expect(last(results).state.draft.departureDate).toBe('2026-10-25');
+  });
+
+  it('re-asks a slot it could not fill', () => {
+    expect(last(talk(['Find flights to Denver', 'banana'])).reply).toBe("Sorry, I didn't catch that. And where are you flying from?");
+  });
+
+  it('drops the search on cancel', () => {
+    const results = talk(['Find flights to Denver', 'cancel', 'from Boston']);
+    expect(results[1].reply).toBe("Okay, I've dropped that search. What else can I do for you?");
+    expect(results[1].state).toMatchObject({ stage: 'idle', draft: {}, asking: null });
+    expect(last(results).state.draft.destination).toBeUndefined();
+  });
+
+  it('leaves a search for another request asked clearly', () => {
+    const results = talk(['Find flights to Denver', "what's the weather in Chicago"]);
+    expect(last(results).action).toEqual({ type: 'weather', location: 'ORD' });
+    expect(last(results).state.stage).toBe('idle');
+  });
+});
+
+describe('ambiguous dates', () => {
+  it('confirms the day before going on', () => {
+    const results = talk(['Find flights from Boston to Denver next friday', 'the first one', 'yes']);
+    expect(results[0]).toMatchObject({
+      reply: 'By "next friday", do you mean Friday 23 October or Friday 16 October?',
+      state: { stage: 'confirming-date' }
+    });
+    expect(results[1].state.draft.departureDate).toBe('2026-10-23');
+    expect(last(results).action).toMatchObject({ criteria: { departureDate: '2026-10-23' } });
+  });
+
+  it('resolves a return said alongside once the departure is settled', () => {
+    const results = talk(['Find flights from Boston to Denver next friday returning sunday', 'the 16th']);
+    expect(last(results).state.draft).toMatchObject({ departureDate: '2026-10-16', returnDate: '2026-10-18', tripType: 'roundtrip' });
+  });
+
+  it('asks again when the answer is neither reading', () => {
+    expect(last(talk(['Find flights from Boston to Denver next friday', 'hmm'])).reply)
+      .toBe('Sorry, which day was that? By "next friday", do you mean Friday 23 October or Friday 16 October?');
+  });
+
+  it('reads the week by the locale', () => {
+    const line = 'Find flights from Boston to Denver next sunday';
+    expect(last(talk([line])).state.draft.departureDate).toBe('2026-10-18');
+    expect(last(talk([line], { ...OPTIONS, locale: enGB })).state.stage).toBe('confirming-date');
+  });
+});
+
+describe('turns', () => {
+  it('records both sides of each exchange, stamped by the clock', () => {
+    const { turns } = last(talk(['Find flights to Denver', 'from Boston'])).state;
+    expect(turns.map(({ confidence, ...turn }) => turn)).toEqual([
+      { speaker: 'user', text: 'Find flights to Denver', at: NOW.getTime(), intent: 'search' },
+      { speaker: 'assistant', text: 'And where are you flying from?', at: NOW.getTime(), stage: 'collecting', asking: 'origin' },
+      { speaker: 'user', text: 'from Boston', at: NOW.getTime(), intent: 'search' },
+      { speaker: 'assistant', text: 'What day would you like to leave?', at: NOW.getTime(), stage: 'collecting', asking: 'departureDate' }
+    ]);
+    turns.filter(turn => turn.speaker === 'user').forEach(turn => expect(turn.confidence).toBeGreaterThan(0));
+  });
+
+  it('marks the turn that asked for an action', () => {
+    const { turns } = last(talk(['Find flights from Boston to Denver on friday', 'yes'])).state;
+    expect(turns[turns.length - 1]).toMatchObject({ speaker: 'assistant', stage: 'idle', action: 'search' });
+  });
+
+  it('leaves the state it was given alone', () => {
+    const [first] = talk(['Find flights to Denver']);
+    const before = structuredClone(first.state);
+    const again = respondToUtterance(first.state, 'from Boston', OPTIONS);
+    expect(first.state).toEqual(before);
+    expect(respondToUtterance(first.state, 'from Boston', OPTIONS)).toEqual(again);
+  });
+
+  it('reads the utterance with the parser it is given', () => {
+    const unsure: VoiceParser = {
+      parse: text => ({ text, intent: 'weather', intentConfidence: 0.3, alternatives: [], slots: {}, confidence: 0.3 })
+    };
+    const result = respondToUtterance(createDialogueState(), 'wether in denvr', { ...OPTIONS, parser: unsure });
+    expect(result.reply).toBe('I\'m not sure what you meant by "wether in denvr". Did you want a weather report? If so, please say it again a little differently.');
+    expect(result.action).toBeUndefined();
+  });
+});
+
+describe('recordOutcome', () => {
+  const findItineraries = async () => (await searchItineraries(createFixtureFlightSearchProvider({ resultCount: 5 }), {
+    ...DEFAULT_SEARCH_CRITERIA,
+    origin: 'BOS',
+    destination: 'DEN',
+    departureDate: '2026-10-16'
+  })).itineraries;
+
+  it('adds the outcome as an assistant turn', () => {
+    const { state, reply } = recordOutcome(createDialogueState(), { ok: false, message: 'No weather report for XYZ.' }, OPTIONS);
+    expect(reply).toBe('No weather report for XYZ.');
+    expect(state.turns).toEqual([{ speaker: 'assistant', text: 'No weather report for XYZ.', at: NOW.getTime(), stage: 'idle', ok: false }]);
+  });
+
+  it('reads out search results and books one by number', async () => {
+    const itineraries = await findItineraries();
+    const searched = last(talk(['Find flights from Boston to Denver on friday', 'yes'])).state;
+    const { state, reply } = recordOutcome(searched, { ok: true, message: `Found ${itineraries.length} flights.`, itineraries }, OPTIONS);
+    expect(reply.startsWith(`Found ${itineraries.length} flights.`)).toBe(true);
+    expect(state.stage).toBe('reading-results');
+
+    const booked = respondToUtterance(state, 'book option two', OPTIONS);
+    expect(booked.action).toEqual({ type: 'select-result', itineraryId: itineraries[1].id });
+  });
+
+  it('keeps a search going that was started while the last one ran', async () => {
+    const itineraries = await findItineraries();
+    const collecting: DialogueState = last(talk(['Find flights to Denver'])).state;
+    const { state, reply } = recordOutcome(collecting, { ok: true, message: 'Found 5 flights.', itineraries }, OPTIONS);
+    expect(reply).toBe('Found 5 flights.');
+    expect(state.stage).toBe('collecting');
+    expect(state.asking).toBe('origin');
+  });
+});
@@ -0,0 +1,525 @@
+import type { AppCommand, CommandOutcome } from '@/lib/command-bus';
+import { DEFAULT_SEARCH_CRITERIA, type SearchCriteria } from '@/lib/flight-search';
+import { matchPlaces, type Place } from '@/lib/places';
+import {
+  describeOptionDetails,
+  parseResultRequest,
+  readResultPage,
+  RESULTS_PER_PAGE,
+  type ResultReadout,
+  type ResultRequest
+} from '@/lib/result-readout';
+import {
+  answerDateConfirmation,
+  dateConfirmationQuestion,
+  formatResolvedDate,
+  normalizeDateText,
+  NUMBER_WORDS,
+  resolveDateAfter,
+  resolveDateExpression,
+  spokenNumber,
+  type DateResolution,
+  type DateResolverOptions
+} from '@/lib/relative-dates';
+import {
+  getVoiceParser,
+  LOW_CONFIDENCE,
+  type ParsedUtterance,
+  type SearchPriority,
+  type TimeOfDay,
+  type VoiceIntent,
+  type VoiceParser,
+  type VoiceSlot,
+  type VoiceSlots
+} from '@/lib/voice-parser';
+
+/**
+ * The voice assistant's side of a conversation. A flight search is built up
+ * over several turns: missing slots are asked for one at a time, a bare
+ * answer ("Denver", "friday") fills whatever was just asked, later turns
+ * can correct earlier ones ("no, from Newark"), and nothing is searched
+ * until the traveller has heard the whole request back and said yes. Its
+ * results are then read out a page at a time, and can be asked about or
+ * booked by number ("tell me more about option two", "book the cheapest").
+ * Everything else (weather, directions, position, emergencies) is answered
+ * in one turn.
+ */
+
+export type DialogueStage = 'idle' | 'collecting' | 'confirming-date' | 'confirming-search' | 'reading-results';
+
+// Slots the assistant asks for when they're missing
+export type PromptedSlot = 'destination' | 'origin' | 'departureDate' | 'returnDate';
+
+// A search as far as it's been filled in; dates are resolved, yyyy-MM-dd
+export interface SearchDraft {
+  origin?: Place;
+  destination?: Place;
+  departureDate?: string;
+  returnDate?: string;
+  passengers?: number;
+  cabin?: SearchCriteria['class'];
+  tripType?: 'oneway' | 'roundtrip';
+  timeOfDay?: TimeOfDay;
+  priority?: SearchPriority;
+  directOnly?: boolean;
+}
+
+// What the assistant wants done after a turn; everything but an emergency goes out on the command bus
+export type DialogueAction = AppCommand | { type: 'emergency' };
+
+export interface DialogueTurn {
+  speaker: 'user' | 'assistant';
+  text: string;
+  at: number;
+  // User turns: how the parser read them
+  intent?: VoiceIntent;
+  confidence?: number;
+  // Assistant turns: where they left the dialogue, and anything they did
+  stage?: DialogueStage;
+  asking?: PromptedSlot;
+  action?: DialogueAction['type'];
+  // Reports of how an action went
+  ok?: boolean;
+}
+
+// A spoken date waiting for the traveller to say which day they meant
+interface PendingDate {
+  field: 'departureDate' | 'returnDate';
+  resolution: DateResolution;
+  // A return spoken alongside an unsettled departure, resolved once it's settled
+  returnText?: string;
+}
+
+export interface DialogueState {
+  stage: DialogueStage;
+  draft: SearchDraft;
+  // The slot just asked for, which a bare answer fills
+  asking: PromptedSlot | null;
+  pendingDate: PendingDate | null;
+  // Where an uncued place correction ("no, Newark") goes
+  lastPlace: 'origin' | 'destination' | null;
+  // The last search's results while they're being read out
+  results: ResultReadout | null;
+  turns: DialogueTurn[];
+}
+
+export interface DialogueOptions extends DateResolverOptions {
+  asrConfidence?: number;
+  parser?: VoiceParser;
+  // How many results are read out at a time
+  resultsPerPage?: number;
+}
+
+export interface DialogueResult {
+  state: DialogueState;
+  // The utterance as read on its own, for display
+  command: ParsedUtterance;
+  reply: string;
+  action?: DialogueAction;
+}
+
+interface Step {
+  state: DialogueState;
+  reply: string;
+  action?: DialogueAction;
+}
+
+const PROMPTS: Record<PromptedSlot, string> = {
+  destination: 'Where would you like to fly to?',
+  origin: 'And where are you flying from?',
+  departureDate: 'What day would you like to leave?',
+  returnDate: 'And what day would you like to come back?'
+};
+
+// Asked in this order; a return only for round trips
+const REQUIRED_SLOTS: PromptedSlot[] = ['destination', 'origin', 'departureDate', 'returnDate'];
+
+// What to offer back when the parser's best guess is too unsure to act on
+const INTENT_GUESSES: Record<VoiceIntent, string> = {
+  search: 'Did you want to search for flights?',
+  navigate: 'Did you want directions somewhere?',
+  weather: 'Did you want a weather report?',
+  location: 'Did you want your current position?',
+  emergency: 'Do you need emergency assistance?',
+  general: 'I can search flights, give directions, check weather or find your position.'
+};
+
+const PRIORITY_LABELS: Record<SearchPriority, string> = { cost: 'price', time: 'travel time', safety: 'safety', comfort: 'comfort' };
+
+// Matched against normalizeDateText output
+const YES = /^(?:yes|yeah|yep|yup|sure|ok|okay|correct|right|go ahead|do it|please do|search|go|sounds good|that s right)(?: please)?$/;
+const NO = /^(?:no|nope|not quite|wrong|that s wrong|no thanks)$/;
+const CANCEL = /\b(?:cancel|never ?mind|forget it|start over)\b/;
+const RESULTS_HELP = 'Say next, repeat, tell me more about an option, or book one.';
+// Lead-ins around a bare answer: "no, Newark", "make it two", "how about friday"
+const ANSWER_FILLER = /^(?:(?:no|nope|actually|sorry|oh|um|uh|well|i meant|i mean|make it|make that|change it to|change that to|how about|let s say|it s|it is|to|from|on|for|the|i m going|i m flying|i want to go|i d like to go)\s+)+/;
+const PASSENGER_ANSWER = new RegExp(`^(\\d{1,2}|${NUMBER_WORDS.join('|')})(?: (?:people|passengers|adults|travellers|travelers|of us|tickets|seats))?$`);
+
+const MAX_PASSENGERS = 8;
+// A bare answer needs a name-prefix match or better to count as a place, and
+// anything shorter than a code ("hi", "dc") an exact name
+const BARE_PLACE_SCORE = 0.75;
+const SHORT_PLACE_SCORE = 0.98;
+// What a spoken priority ("cheapest") sets that priority's weight to
+const SPOKEN_PRIORITY_WEIGHT = 100;
+
+const IDLE = { stage: 'idle', draft: {}, asking: null, pendingDate: null, lastPlace: null, results: null } as const;
+
+export const createDialogueState = (): DialogueState => ({ ...IDLE, turns: [] });
+
+const reset = (state: DialogueState): DialogueState => ({ ...state, ...IDLE });
+
+export const placeName = (place: Place): string =>
+  place.kind === 'metro' ? place.city : `${place.city} (${place.code})`;
+
+const slotPlaceName = (slot: VoiceSlot<Place | null>) => (slot.value ? placeName(slot.value) : slot.text);
+
+// "Flights from Boston (BOS) to Denver (DEN), departing Friday 30 October, for 1 passenger in economy"
+export const describeDraft = (draft: SearchDraft, options: DateResolverOptions = {}): string => {
+  const passengers = draft.passengers ?? DEFAULT_SEARCH_CRITERIA.passengers;
+  return [
+    `Flights${draft.origin ? ` from ${placeName(draft.origin)}` : ''}${draft.destination ? ` to ${placeName(draft.destination)}` : ''}`,
+    draft.departureDate && `departing ${formatResolvedDate(draft.departureDate, options)}`,
+    draft.returnDate && `returning ${formatResolvedDate(draft.returnDate, options)}`,
+    draft.timeOfDay && `in the ${draft.timeOfDay}`,
+    `for ${passengers} passenger${passengers === 1 ? '' : 's'} in ${draft.cabin ?? DEFAULT_SEARCH_CRITERIA.class}`,
+    draft.directOnly && 'non-stop only',
+    draft.priority && `optimizing for ${PRIORITY_LABELS[draft.priority]}`
+  ].filter(Boolean).join(', ');
+};
+
+// A confirmed draft as a full search, defaults filling the rest
+export const draftToCriteria = (draft: SearchDraft): SearchCriteria => ({
+  ...DEFAULT_SEARCH_CRITERIA,
+  origin: draft.origin?.code ?? '',
+  destination: draft.destination?.code ?? '',
+  departureDate: draft.departureDate ?? '',
+  returnDate: draft.returnDate ?? '',
+  passengers: draft.passengers ?? DEFAULT_SEARCH_CRITERIA.passengers,
+  class: draft.cabin ?? DEFAULT_SEARCH_CRITERIA.class,
+  tripType: draft.returnDate ? 'roundtrip' : 'oneway',
+  priorities: draft.priority
+    ? { ...DEFAULT_SEARCH_CRITERIA.priorities, [draft.priority]: SPOKEN_PRIORITY_WEIGHT }
+    : DEFAULT_SEARCH_CRITERIA.priorities,
+  filters: { ...DEFAULT_SEARCH_CRITERIA.filters, directFlights: draft.directOnly ?? false }
+});
+
+const hasSlots = (slots: VoiceSlots) => Object.keys(slots).length > 0;
+
+/**
+ * Reads an utterance that names no slot ("Denver", "no, Newark", "friday")
+ * as an answer: to the slot just asked for when it fits, otherwise as a
+ * correction of the place filled last, the departure, or the head count.
+ */
+const readBareAnswer = (state: DialogueState, text: string, options: DateResolverOptions): VoiceSlots => {
+  const words = normalizeDateText(text).replace(ANSWER_FILLER, '');
+  if (!words) return {};
+  const slot = <T>(value: T, confidence = 1): VoiceSlot<T> => ({ value, text: words, confidence });
+
+  if (resolveDateExpression(words, options).status !== 'invalid') {
+    return { [state.asking === 'returnDate' ? 'returnDate' : 'departureDate']: slot(words) };
+  }
+  const passengers = PASSENGER_ANSWER.exec(words);
+  if (passengers && state.asking !== 'destination' && state.asking !== 'origin') {
+    return { passengers: slot(Math.min(spokenNumber(passengers[1]), MAX_PASSENGERS)) };
+  }
+  const [match] = matchPlaces(words, 1);
+  if (match && match.score >= (words.length < 3 ? SHORT_PLACE_SCORE : BARE_PLACE_SCORE)) {
+    const field = state.asking === 'origin' || state.asking === 'destination' ? state.asking : state.lastPlace ?? 'destination';
+    return { [field]: slot(match.place, match.score) };
+  }
+  return {};
+};
+
+interface Applied {
+  state: DialogueState;
+  // Why a slot couldn't be taken, and which one to ask for again
+  problem?: { slot: PromptedSlot; reply: string };
+}
+
+const applySlots = (state: DialogueState, slots: VoiceSlots, options: DateResolverOptions): Applied => {
+  const draft: SearchDraft = { ...state.draft };
+  let { lastPlace, pendingDate } = state;
+  let problem: Applied['problem'];
+
+  for (const field of ['origin', 'destination'] as const) {
+    const slot = slots[field];
+    if (!slot) continue;
+    if (!slot.value) {
+      problem ??= {
+        slot: field,
+        reply: `I couldn't find an airport or city called "${slot.text}". Could you say the city name or the three-letter airport code?`
+      };
+      continue;
+    }
+    draft[field] = slot.value;
+    lastPlace = field;
+  }
+
+  if (slots.tripType) {
+    draft.tripType = slots.tripType.value;
+    if (slots.tripType.value === 'oneway') delete draft.returnDate;
+  }
+
+  for (const field of ['departureDate', 'returnDate'] as const) {
+    const slot = slots[field];
+    if (!slot) continue;
+    if (pendingDate?.field === 'departureDate' && field === 'returnDate') {
+      pendingDate = { ...pendingDate, returnText: slot.value };
+      continue;
+    }
+    // A return is counted from the departure: "back on sunday" is the sunday after it
+    const resolution = field === 'returnDate' && draft.departureDate
+      ? resolveDateAfter(slot.value, draft.departureDate, options)
+      : resolveDateExpression(slot.value, options);
+    if (resolution.status === 'resolved') {
+      draft[field] = resolution.candidates[0];
+      if (field === 'returnDate') draft.tripType = 'roundtrip';
+    } else if (resolution.status === 'ambiguous') {
+      pendingDate ??= { field, resolution };
+    } else {
+      problem ??= {
+        slot: field,
+        reply: `I couldn't work out a date from "${slot.text}". Which day would you like to ${field === 'returnDate' ? 'come back' : 'fly'}?`
+      };
+    }
+  }
+  // A moved departure can leave the return before it
+  if (draft.returnDate && draft.departureDate && draft.returnDate < draft.departureDate) delete draft.returnDate;
+
+  if (slots.passengers) draft.passengers = slots.passengers.value;
+  if (slots.cabin) draft.cabin = slots.cabin.value;
+  if (slots.timeOfDay) draft.timeOfDay = slots.timeOfDay.value;
+  if (slots.priority) draft.priority = slots.priority.value;
+  if (slots.directOnly) draft.directOnly = slots.directOnly.value;
+
+  return { state: { ...state, draft, lastPlace, pendingDate }, problem };
+};
+
+// Asks about whatever the draft still needs, or reads it back for a yes
+const continueSearch = ({ state, problem }: Applied, options: DateResolverOptions): Step => {
+  if (problem) return { state: { ...state, stage: 'collecting', asking: problem.slot }, reply: problem.reply };
+  if (state.pendingDate) {
+    return { state: { ...state, stage: 'confirming-date', asking: null }, reply: dateConfirmationQuestion(state.pendingDate.resolution, options) };
+  }
+  const { draft } = state;
+  const missing = REQUIRED_SLOTS.find(slot => !draft[slot] && (slot !== 'returnDate' || draft.tripType === 'roundtrip'));
+  if (missing) return { state: { ...state, stage: 'collecting', asking: missing }, reply: PROMPTS[missing] };
+  return {
+    state: { ...state, stage: 'confirming-search', asking: null },
+    reply: `${describeDraft(draft, options)}. Shall I search?`
+  };
+};
+
+const settleDate = (state: DialogueState, chosen: string, options: DateResolverOptions): Applied => {
+  const { field, returnText } = state.pendingDate;
+  const settled = { ...state, draft: { ...state.draft, [field]: chosen }, pendingDate: null };
+  return returnText
+    ? applySlots(settled, { returnDate: { value: returnText, text: returnText, confidence: 1 } }, options)
+    : applySlots(settled, {}, options);
+};
+
+// Fills or corrects the draft from an answer; null when the utterance names nothing it can use
+const answerSearch = (state: DialogueState, reading: ParsedUtterance, options: DateResolverOptions): Step | null => {
+  const slots = hasSlots(reading.slots) ? reading.slots : readBareAnswer(state, reading.text, options);
+  return hasSlots(slots) ? continueSearch(applySlots(state, slots, options), options) : null;
+};
+
+// Something other than the search, asked clearly enough to drop the search for
+const isOtherRequest = (command: ParsedUtterance) =>
+  command.intent !== 'search' && command.intent !== 'general' && command.intentConfidence >= LOW_CONFIDENCE;
+
+const runSearch = (state: DialogueState): Step => {
+  const { origin, destination } = state.draft;
+  return {
+    state: reset(state),
+    reply: `Searching for flights from ${placeName(origin)} to ${placeName(destination)}.`,
+    action: { type: 'search', criteria: draftToCriteria(state.draft) }
+  };
+};
+
+const lastReply = (state: DialogueState) =>
+  [...state.turns].reverse().find(turn => turn.speaker === 'assistant')?.text;
+
+// Pages through the results, describes one, or books it
+const answerResults = (state: DialogueState, request: ResultRequest, perPage: number): Step => {
+  const { results } = state;
+  const { itineraries } = results;
+  const page = (offset: number): Step => {
+    const readout = { ...results, offset };
+    return { state: { ...state, results: readout }, reply: readResultPage(readout, perPage) };
+  };
+
+  switch (request.type) {
+    case 'next':
+      return results.offset + perPage < itineraries.length
+        ? page(results.offset + perPage)
+        : { state, reply: 'That was the last of them. Tell me more about an option, or book one.' };
+    case 'previous':
+      return page(Math.max(0, results.offset - perPage));
+    case 'repeat':
+      return { state, reply: lastReply(state) ?? readResultPage(results, perPage) };
+    case 'stop':
+      return { state: reset(state), reply: "Okay, I'll stop there. What else can I do for you?" };
+    case 'missing':
+      return { state, reply: `There's no option ${request.number}; I found ${itineraries.length}. ${RESULTS_HELP}` };
+    case 'details':
+      return {
+        state: { ...state, results: { ...results, focus: request.index } },
+        reply: `${describeOptionDetails(itineraries, request.index)} Say book it to choose it.`
+      };
+    case 'select':
+      if (request.index === null) return { state, reply: 'Which option would you like to book? For example, say book option one.' };
+      return {
+        state: { ...state, results: { ...results, focus: request.index } },
+        reply: `Booking option ${request.index + 1}.`,
+        action: { type: 'select-result', itineraryId: itineraries[request.index].id }
+      };
+  }
+};
+
+// A fresh request, with no search in progress
+const handleRequest = (state: DialogueState, command: ParsedUtterance, options: DateResolverOptions): Step => {
+  if (command.intentConfidence < LOW_CONFIDENCE) {
+    return {
+      state,
+      reply: `I'm not sure what you meant by "${command.text}". ${INTENT_GUESSES[command.intent]} If so, please say it again a little differently.`
+    };
+  }
+
+  const { location } = command.slots;
+  switch (command.intent) {
+    case 'search':
+      return continueSearch(applySlots(state, command.slots, options), options);
+    case 'location':
+      return { state, reply: 'Finding your position.', action: { type: 'track-location' } };
+    case 'navigate':
+      return location
+        ? {
+          state,
+          reply: `Plotting a course to ${slotPlaceName(location)}.`,
+          action: { type: 'navigate', destination: location.value?.code ?? location.text }
+        }
+        : { state, reply: "I can help you navigate. Please specify your destination. For example, say 'Navigate to JFK Airport' or 'Route to Los Angeles'." };
+    case 'weather':
+      // Reports come from airports, so a city is checked at its first one
+      return {
+        state,
+        reply: `Checking the weather ${location ? `for ${slotPlaceName(location)}` : 'where you are'}.`,
+        action: { type: 'weather', location: location?.value?.airportCodes[0] ?? location?.text ?? null }
+      };
+    default:
+      return { state, reply: `I understand you said: ${command.text}. How can I help you with flight planning, navigation, or weather information?` };
+  }
+};
+
+/**
+ * One turn: `command` is the utterance read as its own intent, `reading` the
+ * same words read for search slots, which is what an answer mid-search is.
+ */
+const step = (
+  state: DialogueState,
+  command: ParsedUtterance,
+  reading: ParsedUtterance,
+  options: DateResolverOptions,
+  perPage: number
+): Step => {
+  const words = normalizeDateText(command.text);
+
+  // Emergencies are always acted on, whatever was being asked
+  if (command.intent === 'emergency') {
+    return {
+      state: reset(state),
+      reply: 'Emergency mode activated. I\'m here to help. Please state your situation clearly. I can provide nearest airport locations, emergency frequencies, and direct you to safety. If this is a real emergency, contact air traffic control on 121.5 MHz immediately.',
+      action: { type: 'emergency' }
+    };
+  }
+  if (state.stage === 'reading-results') {
+    const request = parseResultRequest(state.results, words, perPage);
+    if (request) return answerResults(state, request, perPage);
+    if (CANCEL.test(words)) return answerResults(state, { type: 'stop' }, perPage);
+    // A new search, or anything else asked clearly, ends the readout
+    if (command.intent !== 'general' && command.intentConfidence >= LOW_CONFIDENCE) return handleRequest(reset(state), command, options);
+    return { state, reply: `Sorry, I didn't catch that. ${RESULTS_HELP}` };
+  }
+  if (state.stage !== 'idle' && CANCEL.test(words)) {
+    return { state: reset(state), reply: "Okay, I've dropped that search. What else can I do for you?" };
+  }
+
+  switch (state.stage) {
+    case 'confirming-date': {
+      const chosen = answerDateConfirmation(command.text, state.pendingDate.resolution, options);
+      if (chosen) return continueSearch(settleDate(state, chosen, options), options);
+      const answered = answerSearch(state, reading, options);
+      if (answered) return answered;
+      if (isOtherRequest(command)) return handleRequest(reset(state), command, options);
+      return { state, reply: `Sorry, which day was that? ${dateConfirmationQuestion(state.pendingDate.resolution, options)}` };
+    }
+    case 'confirming-search': {
+      if (YES.test(words)) return runSearch(state);
+      if (NO.test(words)) return { state: { ...state, stage: 'collecting', asking: null }, reply: 'What would you like to change?' };
+      const answered = answerSearch(state, reading, options);
+      if (answered) return answered;
+      if (isOtherRequest(command)) return handleRequest(reset(state), command, options);
+      return { state, reply: 'Sorry, shall I run that search? Say yes, or tell me what to change.' };
+    }
+    case 'collecting': {
+      const answered = answerSearch(state, reading, options);
+      if (answered) return answered;
+      if (isOtherRequest(command)) return handleRequest(reset(state), command, options);
+      return { state, reply: `Sorry, I didn't catch that. ${state.asking ? PROMPTS[state.asking] : 'What would you like to change?'}` };
+    }
+    default:
+      return handleRequest(state, command, options);
+  }
+};
+
+/**
+ * Takes the traveller's next utterance and returns the new state, the reply
+ * to speak and anything to do. Both sides of the exchange are appended to
+ * `turns`.
+ */
+export const respondToUtterance = (state: DialogueState, text: string, options: DialogueOptions = {}): DialogueResult => {
+  const { asrConfidence, parser = getVoiceParser(), resultsPerPage = RESULTS_PER_PAGE, ...dateOptions } = options;
+  const command = parser.parse(text, { asrConfidence });
+  const reading = state.stage === 'idle' ? command : parser.parse(text, { asrConfidence, slotIntent: 'search' });
+  const at = (dateOptions.now ?? new Date()).getTime();
+
+  const next = step(state, command, reading, dateOptions, resultsPerPage);
+  const turns: DialogueTurn[] = [
+    ...state.turns,
+    { speaker: 'user', text, at, intent: command.intent, confidence: command.confidence },
+    {
+      speaker: 'assistant',
+      text: next.reply,
+      at,
+      stage: next.state.stage,
+      ...(next.state.asking && { asking: next.state.asking }),
+      ...(next.action && { action: next.action.type })
+    }
+  ];
+  return { state: { ...next.state, turns }, command, reply: next.reply, action: next.action };
+};
+
+/**
+ * Adds what came of an action, once its handler has reported back, and
+ * returns what to say. A search's results are read out from the top, unless
+ * the traveller has started on something else in the meantime.
+ */
+export const recordOutcome = (
+  state: DialogueState,
+  outcome: CommandOutcome,
+  { now = new Date(), resultsPerPage = RESULTS_PER_PAGE }: DialogueOptions = {}
+): { state: DialogueState; reply: string } => {
+  const readOut = outcome.itineraries?.length > 0 && (state.stage === 'idle' || state.stage === 'reading-results');
+  const results: ResultReadout = readOut ? { itineraries: outcome.itineraries, offset: 0, focus: null } : state.results;
+  const next: DialogueState = readOut ? { ...reset(state), stage: 'reading-results', results } : state;
+  const reply = readOut ? `${outcome.message} ${readResultPage(results, resultsPerPage)}` : outcome.message;
+  return {
+    state: {
+      ...next,
+      turns: [...state.turns, { speaker: 'assistant', text: reply, at: now.getTime(), stage: next.stage, ok: outcome.ok }]
+    },
+    reply
+  };
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import corpusCsv from '@/data/voice-corpus.csv?raw';
+import heldOutCsv from '@/data/voice-heldout.csv?raw';
+import { getVoiceParser, parseVoiceCorpus, type VoiceCorpusEntry, type VoiceSlot, type VoiceSlots } from '@/lib/voice-parser';
+import type { Place } from '@/lib/places';
+
+const corpus = parseVoiceCorpus(corpusCsv);
+const heldOut = parseVoiceCorpus(heldOutCsv);
+
+// Least share of held-out utterances whose intent has to come out right
+const HELD_OUT_INTENT_ACCURACY = 0.9;
+
+// Slots written the way the corpus writes them: places by code, unresolved places and dates as spoken
+const slotExpectations = (slots: VoiceSlots): Record<string, string> =>
+  Object.fromEntries(Object.entries(slots).map(([name, slot]: [string, VoiceSlot<unknown>]) => {
+    if (slot.value === null) return [name, slot.text];
+    return [name, typeof slot.value === 'object' ? (slot.value as Place).code : String(slot.value)];
+  }));
+
+const parse = (entry: VoiceCorpusEntry) => getVoiceParser().parse(entry.utterance);
+
+describe('the training corpus', () => {
+  it.each(corpus.map(entry => [entry.utterance, entry] as const))('reads "%s" as labelled', (_, entry) => {
+    const parsed = parse(entry);
+    expect(parsed.intent).toBe(entry.intent);
+    expect(slotExpectations(parsed.slots)).toEqual(entry.slots);
+  });
+});
+
+describe('held-out utterances', () => {
+  it('are not in the training corpus', () => {
+    const trained = new Set(corpus.map(entry => entry.utterance));
+    expect(heldOut.filter(entry => trained.has(entry.utterance)).map(entry => entry.utterance)).toEqual([]);
+  });
+
+  it.each(heldOut.map(entry => [entry.utterance, entry] as const))('fills the slots of "%s"', (_, entry) => {
+    expect(slotExpectations(parse(entry).slots)).toEqual(entry.slots);
+  });
+
+  it(`classify at least ${HELD_OUT_INTENT_ACCURACY * 100}% of intents correctly`, () => {
+    const misses = heldOut
+      .filter(entry => parse(entry).intent !== entry.intent)
+      .map(entry => `${entry.utterance}: ${entry.intent} read as ${parse(entry).intent}`);
+    expect(1 - misses.length / heldOut.length, misses.join('\n')).toBeGreaterThanOrEqual(HELD_OUT_INTENT_ACCURACY);
+  });
+});
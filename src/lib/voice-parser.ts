@@ -0,0 +1,455 @@
+import voiceCorpusCsv from '@/data/voice-corpus.csv?raw';
+import { parseCsv } from '@/lib/csv';
+import type { SearchCriteria } from '@/lib/flight-search';
+import { matchPlaces, type Place } from '@/lib/places';
+import { DATE_EXPRESSION, normalizeDateText, NUMBER_WORDS, spokenNumber } from '@/lib/relative-dates';
+
+/**
+ * Turns a spoken request into an intent and filled slots. Slots come from a
+ * small grammar (dates, passengers, cabin, time of day, preferences) and from
+ * place names resolved against the airport list. The intent is classified by
+ * a naive Bayes model trained on src/data/voice-corpus.csv, with recognized
+ * slot values swapped for placeholders so "to Paris" and "to Denver" look
+ * alike to it.
+ */
+
+export type VoiceIntent = 'search' | 'navigate' | 'weather' | 'location' | 'emergency' | 'general';
+
+export const VOICE_INTENTS: VoiceIntent[] = ['search', 'navigate', 'weather', 'location', 'emergency', 'general'];
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export type SearchPriority = 'cost' | 'time' | 'safety' | 'comfort';
+
+export interface VoiceSlot<T> {
+  value: T;
+  // The words it was read from
+  text: string;
+  confidence: number; // 0..1
+}
+
+export interface VoiceSlots {
+  // null when the words didn't match any airport or city
+  origin?: VoiceSlot<Place | null>;
+  destination?: VoiceSlot<Place | null>;
+  // What a weather or navigation request is about
+  location?: VoiceSlot<Place | null>;
+  // Dates stay as spoken ("next friday", "14th of june"); resolving them needs a clock
+  departureDate?: VoiceSlot<string>;
+  returnDate?: VoiceSlot<string>;
+  passengers?: VoiceSlot<number>;
+  cabin?: VoiceSlot<SearchCriteria['class']>;
+  tripType?: VoiceSlot<'oneway' | 'roundtrip'>;
+  timeOfDay?: VoiceSlot<TimeOfDay>;
+  priority?: VoiceSlot<SearchPriority>;
+  directOnly?: VoiceSlot<boolean>;
+}
+
+export interface ParsedUtterance {
+  text: string;
+  intent: VoiceIntent;
+  // Posterior of the chosen intent
+  intentConfidence: number;
+  // Every intent, most likely first
+  alternatives: Array<{ intent: VoiceIntent; confidence: number }>;
+  slots: VoiceSlots;
+  // Recognizer × intent × mean slot confidence
+  confidence: number;
+}
+
+export interface VoiceCorpusEntry {
+  intent: VoiceIntent;
+  utterance: string;
+  // Expected fills, places by code and dates as spoken
+  slots: Record<string, string>;
+}
+
+export interface VoiceParseOptions {
+  // The speech recognizer's own confidence in the transcript
+  asrConfidence?: number;
+  // Read slots as this intent's whatever the classifier says, for answers mid-dialogue ("from newark")
+  slotIntent?: VoiceIntent;
+}
+
+export interface VoiceParser {
+  parse: (utterance: string, options?: VoiceParseOptions) => ParsedUtterance;
+}
+
+// Below this the assistant should check before acting
+export const LOW_CONFIDENCE = 0.5;
+
+// Which slots each intent keeps; the rest are dropped ("good morning" has no time of day)
+const INTENT_SLOTS: Record<VoiceIntent, Array<keyof VoiceSlots>> = {
+  search: ['origin', 'destination', 'departureDate', 'returnDate', 'passengers', 'cabin', 'tripType', 'timeOfDay', 'priority', 'directOnly'],
+  weather: ['location', 'departureDate'],
+  navigate: ['location'],
+  location: [],
+  emergency: [],
+  general: []
+};
+
+const MAX_PASSENGERS = 8;
+// Weakest airport match still taken as a place; below it the words are kept unresolved
+const MIN_PLACE_SCORE = 0.45;
+// An origin without "from" ("boston to denver") needs a whole name or code; a prefix ("seat") is too loose
+const BARE_ORIGIN_SCORE = 0.9;
+// A name-prefix match or better
+const GOOD_PLACE_SCORE = 0.75;
+const UNRESOLVED_PLACE_CONFIDENCE = 0.3;
+const MAX_PLACE_WORDS = 5;
+
+const COUNT = `(?:\\d{1,2}|${NUMBER_WORDS.join('|')})`;
+
+interface SlotRule {
+  pattern: RegExp;
+  placeholder: string;
+  // Fills slots from the match; false leaves the words in place
+  fill: (match: string[], slots: VoiceSlots) => boolean;
+}
+
+const setOnce = <K extends keyof VoiceSlots>(slots: VoiceSlots, key: K, slot: VoiceSlots[K]): boolean => {
+  if (slots[key]) return false;
+  slots[key] = slot;
+  return true;
+};
+
+const passengersRule = (pattern: string, confidence: (count: string) => number, count?: number): SlotRule => ({
+  pattern: new RegExp(`\\b(?:${pattern})\\b`, 'g'),
+  placeholder: '<passengers>',
+  fill: ([text, spoken], slots) => {
+    const value = count ?? spokenNumber(spoken);
+    if (value < 1 || value > MAX_PASSENGERS) return false;
+    return setOnce(slots, 'passengers', { value, text, confidence: confidence(spoken) });
+  }
+});
+
+const priorityRule = (pattern: string, value: SearchPriority): SlotRule => ({
+  pattern: new RegExp(`\\b(?:${pattern})\\b`, 'g'),
+  placeholder: '<priority>',
+  fill: ([text], slots) => setOnce(slots, 'priority', { value, text, confidence: 0.85 })
+});
+
+const cabinRule = (pattern: string, value: SearchCriteria['class'], confidence: number): SlotRule => ({
+  pattern: new RegExp(`\\b(?:${pattern})\\b`, 'g'),
+  placeholder: '<cabin>',
+  fill: ([text], slots) => setOnce(slots, 'cabin', { value, text, confidence })
+});
+
+const PASSENGER_NOUNS = '(?:adults?|people|persons|passengers|travell?ers|tickets|seats|of us)';
+const COMPANIONS = '(?:wife|husband|partner|friend|girlfriend|boyfriend|son|daughter|mom|mother|dad|father|colleague|brother|sister|kid|child)';
+const spokenNumberConfidence = (spoken: string) => /^\d+$/.test(spoken) ? 1 : 0.95;
+
+// Applied in order, each to what the earlier ones left: dates go first so "in two weeks" isn't read as two passengers
+const SLOT_RULES: SlotRule[] = [
+  {
+    pattern: /\b(?:round ?trip|return (?:flight|ticket|trip)s?)\b/g,
+    placeholder: '<trip>',
+    fill: ([text], slots) => setOnce(slots, 'tripType', { value: 'roundtrip', text, confidence: 0.95 })
+  },
+  {
+    pattern: /\bone ?way\b/g,
+    placeholder: '<trip>',
+    fill: ([text], slots) => setOnce(slots, 'tripType', { value: 'oneway', text, confidence: 0.95 })
+  },
+  {
+    pattern: new RegExp(`\\b(?:(returning|return|coming back|back|until|till)\\s+)?(?:(?:on|for)\\s+)?(${DATE_EXPRESSION})\\b`, 'g'),
+    placeholder: '<date>',
+    fill: ([, returnCue, phrase], slots) => {
+      const text = phrase.replace(/^the /, '');
+      if (phrase === 'tonight') setOnce(slots, 'timeOfDay', { value: 'evening', text: phrase, confidence: 0.8 });
+      if (returnCue) return setOnce(slots, 'returnDate', { value: text, text, confidence: 0.9 });
+      // A second date with no cue is most likely the way back
+      if (slots.departureDate) return setOnce(slots, 'returnDate', { value: text, text, confidence: 0.7 });
+      return setOnce(slots, 'departureDate', { value: text, text, confidence: 0.9 });
+    }
+  },
+  passengersRule(`(${COUNT}) ${PASSENGER_NOUNS}`, spokenNumberConfidence),
+  passengersRule(`family of (${COUNT})`, () => 0.85),
+  passengersRule(`me and (?:my|a) ${COMPANIONS}|the two of us|both of us`, () => 0.85, 2),
+  passengersRule('just me|only me|by myself|on my own|myself|solo', () => 0.8, 1),
+  // "for two" could be a time or a count, so it's taken last and trusted least
+  passengersRule(`for (${COUNT})(?!/)`, () => 0.6),
+  cabinRule('premium economy', 'economy', 0.7),
+  cabinRule('first class', 'first', 0.95),
+  cabinRule('business class', 'business', 0.95),
+  cabinRule('business', 'business', 0.75),
+  cabinRule('(?:economy|coach|main cabin)(?: class)?', 'economy', 0.95),
+  {
+    pattern: /\b(?:red ?eye|overnight|late night)\b/g,
+    placeholder: '<time>',
+    fill: ([text], slots) => setOnce(slots, 'timeOfDay', { value: 'night', text, confidence: 0.9 })
+  },
+  {
+    pattern: /\b(?:early |late )?(morning|afternoon|evening|night)\b/g,
+    placeholder: '<time>',
+    fill: ([text, value], slots) => setOnce(slots, 'timeOfDay', { value: value as TimeOfDay, text, confidence: 0.9 })
+  },
+  priorityRule('cheap(?:est|er)?|budget|affordable|inexpensive|least expensive|lowest (?:price|fare)s?|best (?:price|deal)s?', 'cost'),
+  priorityRule('fast(?:est|er)?|quick(?:est|er)?|shortest', 'time'),
+  priorityRule('safest|safe', 'safety'),
+  priorityRule('(?:most )?comfortable|comfiest|roomiest', 'comfort'),
+  {
+    pattern: /\b(?:direct|non ?stop|no (?:stops|layovers|connections)|without (?:stops|layovers|connections))\b/g,
+    placeholder: '<direct>',
+    fill: ([text], slots) => setOnce(slots, 'directOnly', { value: true, text, confidence: 0.9 })
+  }
+];
+
+type PlaceRole = 'from' | 'to' | 'at';
+
+const PLACE_CUES: Record<string, PlaceRole> = {
+  from: 'from',
+  leaving: 'from',
+  departing: 'from',
+  to: 'to',
+  into: 'to',
+  towards: 'to',
+  toward: 'to',
+  for: 'to',
+  in: 'at',
+  at: 'at',
+  near: 'at',
+  over: 'at',
+  around: 'at'
+};
+
+// Words that end a place name, or show the words after a cue aren't one ("to fly", "for a")
+const NOT_PLACE = new Set([
+  'a', 'an', 'and', 'or', 'on', 'with', 'by', 'via', 'please', 'then', 'is', 'it', 'me', 'us', 'i', 'my', 'you', 'we',
+  'some', 'somewhere', 'any', 'this', 'that', 'flight', 'flights', 'ticket', 'tickets', 'go', 'fly', 'flying', 'get',
+  'be', 'see', 'find', 'book', 'take', 'leave', 'travel', 'check', 'help', 'like', 'want', 'need', 'of'
+]);
+
+interface PlaceMention {
+  role: PlaceRole;
+  slot: VoiceSlot<Place | null>;
+}
+
+const isPlaceWord = (token: string | undefined) =>
+  token !== undefined && !token.startsWith('<') && !(token in PLACE_CUES) && !NOT_PLACE.has(token);
+
+// "the", "airport" and "international" add nothing to a match
+const placeQuery = (words: string[]) =>
+  words.join(' ').replace(/^the /, '').replace(/( (?:international|intl|airports?))+$/, '');
+
+/**
+ * The longest leading run of words that names a place well, so "san
+ * francisco" isn't cut short at "san" (San Diego's code). With no good run,
+ * the best weak one.
+ */
+const bestPlaceMatch = (words: string[]) => {
+  let best: { length: number; slot: VoiceSlot<Place> } | null = null;
+  for (let length = words.length; length > 0; length--) {
+    const query = placeQuery(words.slice(0, length));
+    if (query.length < 3) continue;
+    const match = matchPlaces(query, 1)[0];
+    if (match && match.score > (best?.slot.confidence ?? 0)) {
+      best = { length, slot: { value: match.place, text: words.slice(0, length).join(' '), confidence: Math.min(1, match.score) } };
+      if (match.score >= GOOD_PLACE_SCORE) break;
+    }
+  }
+  return best;
+};
+
+const extractPlaces = (tokens: string[]): { mentions: PlaceMention[]; tokens: string[] } => {
+  const mentions: PlaceMention[] = [];
+  const output = [...tokens];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const twoWordCue = tokens[i] === 'out' && tokens[i + 1] === 'of';
+    const role = twoWordCue ? 'from' : PLACE_CUES[tokens[i]];
+    if (!role) continue;
+    let start = i + (twoWordCue ? 2 : 1);
+    if (tokens[start] === 'the') start++;
+    let end = start;
+    while (end < tokens.length && end - start < MAX_PLACE_WORDS && isPlaceWord(tokens[end])) end++;
+    if (end === start) continue;
+
+    const words = tokens.slice(start, end);
+    const best = bestPlaceMatch(words);
+    if (best && best.slot.confidence >= MIN_PLACE_SCORE) {
+      mentions.push({ role, slot: best.slot });
+      output.splice(start, best.length, '<place>', ...Array(best.length - 1).fill(''));
+      i = start + best.length - 1;
+    } else {
+      mentions.push({ role, slot: { value: null, text: words.join(' '), confidence: UNRESOLVED_PLACE_CONFIDENCE } });
+      i = end - 1;
+    }
+  }
+
+  // "boston to denver": the words right before "to" may be the origin
+  const to = tokens.findIndex((token, index) => token === 'to' && output[index + 1] === '<place>');
+  if (to > 0 && !mentions.some(mention => mention.role === 'from')) {
+    let start = to;
+    while (start > 0 && to - start < MAX_PLACE_WORDS && isPlaceWord(tokens[start - 1]) && output[start - 1] === tokens[start - 1]) start--;
+    for (let length = to - start; length > 0; length--) {
+      const words = tokens.slice(to - length, to);
+      const match = matchPlaces(placeQuery(words), 1)[0];
+      if (match && match.score >= BARE_ORIGIN_SCORE) {
+        mentions.push({ role: 'from', slot: { value: match.place, text: words.join(' '), confidence: Math.min(1, match.score) * 0.9 } });
+        output.splice(to - length, length, '<place>', ...Array(length - 1).fill(''));
+        break;
+      }
+    }
+  }
+
+  return { mentions, tokens: output.filter(Boolean) };
+};
+
+// Resolved places first, then the first words that followed a cue
+const pickMention = (mentions: PlaceMention[], roles: PlaceRole[]) => {
+  const candidates = mentions.filter(mention => roles.includes(mention.role));
+  return (candidates.find(mention => mention.slot.value !== null) ?? candidates[0])?.slot;
+};
+
+const normalizeUtterance = (utterance: string): string => {
+  const tokens = normalizeDateText(utterance).split(' ').filter(Boolean);
+  // Spelled-out codes arrive as single letters: "j f k"
+  const joined: string[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    let end = i;
+    while (end < tokens.length && /^[a-z]$/.test(tokens[end])) end++;
+    if (end - i >= 3 && end - i <= 4) {
+      joined.push(tokens.slice(i, end).join(''));
+      i = end - 1;
+    } else {
+      joined.push(tokens[i]);
+    }
+  }
+  return joined.join(' ');
+};
+
+interface Extraction {
+  slots: VoiceSlots;
+  mentions: PlaceMention[];
+  // The utterance with slot values swapped for placeholders
+  features: string[];
+}
+
+const extract = (utterance: string): Extraction => {
+  const slots: VoiceSlots = {};
+  let text = normalizeUtterance(utterance);
+  SLOT_RULES.forEach(rule => {
+    text = text.replace(rule.pattern, (...args) => {
+      const match = args.slice(0, -2) as string[];
+      return rule.fill(match, slots) ? ` ${rule.placeholder} ` : match[0];
+    });
+  });
+  const { mentions, tokens } = extractPlaces(text.split(' ').filter(Boolean));
+  return { slots, mentions, features: toFeatures(tokens) };
+};
+
+// Words and word pairs, with the opening word marked since "where am i" and "weather at" hinge on it
+const toFeatures = (tokens: string[]): string[] => [
+  ...tokens,
+  ...tokens.slice(1).map((token, index) => `${tokens[index]} ${token}`),
+  ...(tokens.length > 0 ? [`^ ${tokens[0]}`] : [])
+];
+
+const slotsForIntent = (intent: VoiceIntent, { slots, mentions }: Extraction): VoiceSlots => {
+  const all: VoiceSlots = {
+    ...slots,
+    origin: pickMention(mentions, ['from']),
+    destination: pickMention(mentions, ['to']),
+    location: intent === 'navigate' ? pickMention(mentions, ['to']) ?? pickMention(mentions, ['at', 'from']) : pickMention(mentions, ['at', 'to', 'from'])
+  };
+  return Object.fromEntries(INTENT_SLOTS[intent].filter(key => all[key]).map(key => [key, all[key]]));
+};
+
+interface IntentModel {
+  documents: Map<VoiceIntent, number>;
+  counts: Map<VoiceIntent, Map<string, number>>;
+  totals: Map<VoiceIntent, number>;
+  vocabulary: Set<string>;
+}
+
+const trainIntentModel = (examples: Array<{ intent: VoiceIntent; features: string[] }>): IntentModel => {
+  const model: IntentModel = { documents: new Map(), counts: new Map(), totals: new Map(), vocabulary: new Set() };
+  VOICE_INTENTS.forEach(intent => {
+    model.documents.set(intent, 0);
+    model.counts.set(intent, new Map());
+    model.totals.set(intent, 0);
+  });
+  examples.forEach(({ intent, features }) => {
+    model.documents.set(intent, model.documents.get(intent) + 1);
+    const counts = model.counts.get(intent);
+    features.forEach(feature => {
+      counts.set(feature, (counts.get(feature) ?? 0) + 1);
+      model.vocabulary.add(feature);
+    });
+    model.totals.set(intent, model.totals.get(intent) + features.length);
+  });
+  return model;
+};
+
+/**
+ * Posterior per intent with Laplace smoothing. Words the corpus never saw
+ * still count, so one familiar phrase ("to Denver") can't carry a sentence
+ * on its own. Scores are scaled by the square root of the feature count so
+ * a long sentence isn't certain just for being long. With nothing familiar
+ * at all, every intent gets the same share and 'general' is chosen.
+ */
+const classifyIntent = (model: IntentModel, features: string[]): Array<{ intent: VoiceIntent; confidence: number }> => {
+  const known = features.filter(feature => model.vocabulary.has(feature));
+  if (known.length === 0) {
+    return VOICE_INTENTS.map(intent => ({ intent, confidence: 1 / VOICE_INTENTS.length }))
+      .sort((a, b) => Number(b.intent === 'general') - Number(a.intent === 'general'));
+  }
+
+  const examples = [...model.documents.values()].reduce((sum, count) => sum + count, 0);
+  const scores = VOICE_INTENTS.map(intent => {
+    const counts = model.counts.get(intent);
+    const denominator = model.totals.get(intent) + model.vocabulary.size;
+    const likelihood = features.reduce((sum, feature) => sum + Math.log(((counts.get(feature) ?? 0) + 1) / denominator), 0);
+    const prior = Math.log((model.documents.get(intent) + 1) / (examples + VOICE_INTENTS.length));
+    return { intent, score: (prior + likelihood) / Math.sqrt(features.length) };
+  });
+  const top = Math.max(...scores.map(entry => entry.score));
+  const weights = scores.map(entry => ({ intent: entry.intent, weight: Math.exp(entry.score - top) }));
+  const total = weights.reduce((sum, entry) => sum + entry.weight, 0);
+  return weights
+    .map(entry => ({ intent: entry.intent, confidence: entry.weight / total }))
+    .sort((a, b) => b.confidence - a.confidence);
+};
+
+const parseSlotExpectations = (value: string): Record<string, string> =>
+  Object.fromEntries(value.split(';').map(pair => pair.split('=').map(part => part.trim())).filter(([key, expected]) => key && expected));
+
+export const parseVoiceCorpus = (csv: string): VoiceCorpusEntry[] =>
+  parseCsv(csv)
+    .filter(row => VOICE_INTENTS.includes(row.intent as VoiceIntent) && row.utterance)
+    .map(row => ({ intent: row.intent as VoiceIntent, utterance: row.utterance, slots: parseSlotExpectations(row.slots ?? '') }));
+
+export const createVoiceParser = (corpus: VoiceCorpusEntry[]): VoiceParser => {
+  const model = trainIntentModel(corpus.map(entry => ({ intent: entry.intent, features: extract(entry.utterance).features })));
+
+  return {
+    parse: (utterance, { asrConfidence = 1, slotIntent } = {}) => {
+      const extraction = extract(utterance);
+      const alternatives = classifyIntent(model, extraction.features);
+      const { intent, confidence: intentConfidence } = alternatives[0];
+      const slots = slotsForIntent(slotIntent ?? intent, extraction);
+      const filled = Object.values(slots) as Array<VoiceSlot<unknown>>;
+      const slotConfidence = filled.length > 0 ? filled.reduce((sum, slot) => sum + slot.confidence, 0) / filled.length : 1;
+      return {
+        text: utterance,
+        intent,
+        intentConfidence,
+        alternatives,
+        slots,
+        confidence: asrConfidence * intentConfidence * slotConfidence
+      };
+    }
+  };
+};
+
+let bundledParser: VoiceParser | null = null;
+
+// Trained on first use from the bundled corpus
+export const getVoiceParser = (): VoiceParser => {
+  bundledParser ??= createVoiceParser(parseVoiceCorpus(voiceCorpusCsv));
+  return bundledParser;
+};
+
+export const parseUtterance = (utterance: string, options?: VoiceParseOptions): ParsedUtterance =>
+  getVoiceParser().parse(utterance, options);
@@ -0,0 +1,275 @@
+import axios from 'axios';
+import {
+  parseMetar,
+  parseTaf,
+  splitReports,
+  type FlightCategory,
+  type MetarReport,
+  type TafReport
+} from '@/lib/metar';
+import { getAirportRepository } from '@/lib/airports';
+import { haversineDistance } from '@/lib/geodesy';
+
+export interface WeatherData {
+  location: string;
+  station: string;
+  temperature: number;
+  dewpoint: number | null;
+  description: string;
+  humidity: number;
+  windSpeed: number;
+  windGust: number | null;
+  windDirection: number | null;
+  visibility: number;
+  ceiling: number | null;
+  altimeter: number | null;
+  pressure: number;
+  cloudCover: number;
+  presentWeather: string[];
+  flightCategory: FlightCategory | null;
+  conditions: 'clear' | 'cloudy' | 'rainy' | 'stormy' | 'foggy';
+  flightSafety: 'excellent' | 'good' | 'caution' | 'poor' | 'dangerous';
+  alerts: string[];
+  metar: MetarReport;
+  taf: TafReport | null;
+  // Why the TAF sent with the METAR couldn't be decoded; null when there was none or it decoded
+  tafError: string | null;
+  timestamp: Date;
+}
+
+export interface RawWeatherReports {
+  metar: string;
+  taf?: string;
+}
+
+export interface WeatherSource {
+  id: string;
+  // Resolves raw METAR/TAF text for a station; null when the station has no report
+  getReports: (station: string) => Promise<RawWeatherReports | null>;
+  listStations: () => Promise<string[]>;
+}
+
+const KT_TO_KMH = 1.852;
+const SM_TO_KM = 1.609344;
+const INHG_TO_HPA = 33.8639;
+
+const COVER_PERCENT: Record<string, number> = { FEW: 25, SCT: 50, BKN: 75, OVC: 100, VV: 100 };
+
+const WEATHER_NAMES: Record<string, string> = {
+  DZ: 'drizzle', RA: 'rain', SN: 'snow', SG: 'snow grains', IC: 'ice crystals', PL: 'ice pellets',
+  GR: 'hail', GS: 'small hail', UP: 'unknown precipitation', BR: 'mist', FG: 'fog', FU: 'smoke',
+  VA: 'volcanic ash', DU: 'dust', SA: 'sand', HZ: 'haze', PY: 'spray', PO: 'dust whirls',
+  SQ: 'squalls', FC: 'funnel cloud', SS: 'sandstorm', DS: 'duststorm'
+};
+
+const DESCRIPTOR_NAMES: Record<string, string> = {
+  MI: 'shallow', PR: 'partial', BC: 'patches of', DR: 'drifting', BL: 'blowing',
+  SH: 'showers of', TS: 'thunderstorm with', FZ: 'freezing'
+};
+
+// Least airport search score that counts as naming the airport ("London", "Heathrow")
+const NAME_MATCH_SCORE = 0.75;
+
+// Normalizes "jfk" / "KJFK" / "London" to an ICAO station identifier through the airport database.
+// A name can match several airports; given the stations that report, the first of those that does wins.
+// Unknown three-letter codes are taken as US IATA codes; anything else unknown is used as typed
+export const toStationId = (value: string, stations?: string[]): string => {
+  const code = value.trim().toUpperCase();
+  const airports = getAirportRepository();
+  const known = airports.getByCode(code);
+  const candidates = known ? [known] : airports.search(value, { limit: 5 })
+    .filter(match => match.score >= NAME_MATCH_SCORE)
+    .map(match => match.airport);
+  const airport = candidates.find(candidate => candidate.icao && stations?.includes(candidate.icao)) ?? candidates[0];
+  if (airport?.icao) return airport.icao;
+  return !airport && /^[A-Z]{3}$/.test(code) ? `K${code}` : code;
+};
+
+// Relative humidity from temperature and dewpoint (Magnus formula)
+const relativeHumidity = (temperature: number, dewpoint: number): number => {
+  const magnus = (t: number) => Math.exp((17.625 * t) / (243.04 + t));
+  return Math.round(Math.min(100, 100 * magnus(dewpoint) / magnus(temperature)));
+};
+
+export const describePhenomenon = (raw: MetarReport['weather'][number]): string => {
+  const intensity = raw.intensity === 'light' ? 'light' : raw.intensity === 'heavy' ? 'heavy' :
+    raw.intensity === 'vicinity' ? 'nearby' : '';
+  const descriptor = raw.descriptor === 'TS' && raw.phenomena.length === 0
+    ? 'thunderstorm'
+    : raw.descriptor ? DESCRIPTOR_NAMES[raw.descriptor] : '';
+  const phenomena = raw.phenomena.map(code => WEATHER_NAMES[code] ?? code).join(' and ');
+  return [intensity, descriptor, phenomena].filter(Boolean).join(' ');
+};
+
+const classifyConditions = (metar: MetarReport): WeatherData['conditions'] => {
+  const codes = metar.weather.flatMap(w => [w.descriptor, ...w.phenomena]);
+  if (codes.includes('TS')) return 'stormy';
+  if ((codes.includes('FG') || codes.includes('BR')) && (metar.visibilitySm ?? 10) < 3) return 'foggy';
+  if (codes.some(code => ['DZ', 'RA', 'SN', 'SG', 'PL', 'GR', 'GS', 'SH'].includes(code))) return 'rainy';
+  if (metar.ceilingFt !== null || metar.clouds.some(layer => layer.cover === 'SCT')) return 'cloudy';
+  return 'clear';
+};
+
+const describeConditions = (metar: MetarReport): string => {
+  if (metar.cavok) return 'Ceiling and visibility OK';
+  if (metar.weather.length > 0) {
+    const text = metar.weather.map(describePhenomenon).join(', ');
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+  const highest = metar.clouds.reduce((max, layer) => Math.max(max, COVER_PERCENT[layer.cover]), 0);
+  if (highest >= 100) return 'Overcast';
+  if (highest >= 75) return 'Mostly cloudy';
+  if (highest >= 25) return 'Partly cloudy';
+  return 'Clear skies';
+};
+
+/**
+ * Builds the widget's WeatherData from a decoded METAR (and optional TAF).
+ * Every value is derived from the report, so the same text always yields the
+ * same reading and safety assessment.
+ */
+export const toWeatherData = (metar: MetarReport, taf: TafReport | null, location?: string): WeatherData => {
+  const codes = metar.weather.flatMap(w => [w.descriptor, ...w.phenomena]);
+  const windSpeedKt = metar.wind?.speedKt ?? 0;
+  const gustKt = metar.wind?.gustKt ?? null;
+  const alerts: string[] = [];
+
+  if (codes.includes('TS') || metar.clouds.some(layer => layer.type === 'CB')) alerts.push('Thunderstorm Warning');
+  if (metar.flightCategory === 'IFR' || metar.flightCategory === 'LIFR') alerts.push('Low Visibility Warning');
+  if (windSpeedKt >= 25 || (gustKt ?? 0) >= 35) alerts.push('High Wind Warning');
+  if (codes.includes('FZ')) alerts.push('Freezing Precipitation');
+
+  let flightSafety: WeatherData['flightSafety'] = 'excellent';
+  if (alerts.includes('Thunderstorm Warning') || metar.flightCategory === 'LIFR') {
+    flightSafety = 'dangerous';
+  } else if (metar.flightCategory === 'IFR' || codes.includes('FZ')) {
+    flightSafety = 'poor';
+  } else if (metar.flightCategory === 'MVFR' || windSpeedKt >= 20 || (gustKt ?? 0) >= 25) {
+    flightSafety = 'caution';
+  } else if (metar.weather.length > 0 || metar.ceilingFt !== null) {
+    flightSafety = 'good';
+  }
+
+  const temperature = metar.temperatureC ?? 15;
+
+  return {
+    location: location || metar.station,
+    station: metar.station,
+    temperature,
+    dewpoint: metar.dewpointC,
+    description: describeConditions(metar),
+    humidity: metar.dewpointC !== null ? relativeHumidity(temperature, metar.dewpointC) : 0,
+    windSpeed: Math.round(windSpeedKt * KT_TO_KMH),
+    windGust: gustKt !== null ? Math.round(gustKt * KT_TO_KMH) : null,
+    windDirection: metar.wind?.direction ?? null,
+    visibility: Math.round((metar.visibilitySm ?? 10) * SM_TO_KM * 10) / 10,
+    ceiling: metar.ceilingFt,
+    altimeter: metar.altimeterInHg,
+    pressure: metar.altimeterInHg !== null ? Math.round(metar.altimeterInHg * INHG_TO_HPA) : 1013,
+    cloudCover: metar.clouds.reduce((max, layer) => Math.max(max, COVER_PERCENT[layer.cover]), 0),
+    presentWeather: metar.weather.map(describePhenomenon),
+    flightCategory: metar.flightCategory,
+    conditions: classifyConditions(metar),
+    flightSafety,
+    alerts,
+    metar,
+    taf,
+    tafError: null,
+    timestamp: metar.observed ?? new Date()
+  };
+};
+
+// A TAF that fails to decode doesn't lose the METAR; the failure comes back as tafError instead
+export const decodeWeatherReports = (reports: RawWeatherReports, location?: string, reference = new Date()): WeatherData => {
+  const metar = parseMetar(reports.metar, reference);
+  let taf: TafReport | null = null;
+  let tafError: string | null = null;
+  if (reports.taf) {
+    try {
+      taf = parseTaf(reports.taf, reference);
+    } catch (err) {
+      tafError = err instanceof Error ? err.message : 'Undecodable TAF';
+    }
+  }
+  return { ...toWeatherData(metar, taf, location), tafError };
+};
+
+// In-memory source, e.g. for reports pasted in by the user
+export const createStaticWeatherSource = (metarText: string, tafText = ''): WeatherSource => {
+  const metars = splitReports(metarText, 'METAR');
+  const tafs = splitReports(tafText, 'TAF');
+  return {
+    id: 'static',
+    getReports: async (station) => {
+      const id = toStationId(station, [...metars.keys()]);
+      const metar = metars.get(id);
+      return metar ? { metar, taf: tafs.get(id) } : null;
+    },
+    listStations: async () => [...metars.keys()]
+  };
+};
+
+// Reads METAR/TAF text files served from /public (or any static host)
+export const createFileWeatherSource = (metarUrl = '/weather/metar.txt', tafUrl = '/weather/taf.txt'): WeatherSource => {
+  let loaded: Promise<WeatherSource> | null = null;
+  const load = () => {
+    loaded ??= Promise.all([
+      axios.get<string>(metarUrl, { responseType: 'text' }),
+      axios.get<string>(tafUrl, { responseType: 'text' }).catch(() => ({ data: '' }))
+    ]).then(([metars, tafs]) => createStaticWeatherSource(metars.data, tafs.data));
+    loaded.catch(() => { loaded = null; });
+    return loaded;
+  };
+  return {
+    id: `file:${metarUrl}`,
+    getReports: async (station) => (await load()).getReports(station),
+    listStations: async () => (await load()).listStations()
+  };
+};
+
+/**
+ * Stub/real server source. Expects `GET /metar/:station` and `GET /taf/:station`
+ * returning raw report text, and `GET /stations` returning a JSON string array.
+ */
+export const createHttpWeatherSource = (baseUrl: string): WeatherSource => {
+  const root = baseUrl.replace(/\/$/, '');
+  return {
+    id: `http:${root}`,
+    getReports: async (station) => {
+      const id = toStationId(station);
+      try {
+        const metar = await axios.get<string>(`${root}/metar/${id}`, { responseType: 'text', timeout: 10000 });
+        const taf = await axios.get<string>(`${root}/taf/${id}`, { responseType: 'text', timeout: 10000 })
+          .then(response => response.data)
+          .catch(() => undefined);
+        return metar.data.trim() ? { metar: metar.data, taf } : null;
+      } catch (err) {
+        if (axios.isAxiosError(err) && err.response?.status === 404) return null;
+        throw err;
+      }
+    },
+    listStations: async () => (await axios.get<string[]>(`${root}/stations`, { timeout: 10000 })).data
+  };
+};
+
+// Picks the reporting station closest to a GPS fix; stations missing from the airport database are skipped
+export const findNearestStation = (lat: number, lon: number, stations: string[]): string | null => {
+  const airports = getAirportRepository();
+  let nearest: string | null = null;
+  let best = Infinity;
+  for (const station of stations) {
+    const airport = airports.getByIcao(station);
+    if (!airport) continue;
+    const distance = haversineDistance([lat, lon], [airport.lat, airport.lng]);
+    if (distance < best) {
+      best = distance;
+      nearest = station;
+    }
+  }
+  return nearest;
+};
+
+export const getDefaultWeatherSource = (): WeatherSource => {
+  const baseUrl = import.meta.env.VITE_WEATHER_URL;
+  return baseUrl ? createHttpWeatherSource(baseUrl) : createFileWeatherSource();
+};
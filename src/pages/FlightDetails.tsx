@@ -0,0 +1,129 @@
+import React, { useEffect, useMemo } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Loader2, Plane } from 'lucide-react';
+import FlightMap from '@/components/FlightMap';
+import ItineraryLeg from '@/components/ItineraryLeg';
+import RouteWeatherPanel from '@/components/RouteWeatherPanel';
+import ScoreBreakdown from '@/components/ScoreBreakdown';
+import { useAppState } from '@/hooks/use-app-state';
+import { useLatest } from '@/hooks/use-latest';
+import { useFlightSearch } from '@/hooks/use-flight-search';
+import { routePoints } from '@/lib/app-state';
+import { formatDuration } from '@/lib/flight-time';
+import { itineraryWeather, legLabel } from '@/lib/itineraries';
+import { parseSearchCriteria, serializeSearchCriteria } from '@/lib/search-params';
+
+/**
+ * A single itinerary, addressed as /flights/:id?<search criteria>. Results are
+ * re-derived from the criteria (the query cache makes this free when coming
+ * from the search tab), so the link works on its own.
+ */
+const FlightDetails: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const criteria = useMemo(() => parseSearchCriteria(searchParams), [searchParams]);
+  const { data: search, isLoading, error } = useFlightSearch(criteria);
+  const { state, selectFlight } = useAppState();
+
+  const itinerary = useMemo(() => search?.itineraries.find(result => result.id === id), [search, id]);
+
+  // Selected once per itinerary; a selection made elsewhere afterwards isn't taken back
+  const selectedIdRef = useLatest(state.selectedItinerary?.id);
+  useEffect(() => {
+    if (itinerary && selectedIdRef.current !== itinerary.id) selectFlight(itinerary);
+  }, [itinerary, selectFlight, selectedIdRef]);
+
+  const routeTrack = useMemo(() => {
+    const points = routePoints(state.route);
+    return points.length > 1 ? points : undefined;
+  }, [state.route]);
+
+  const backTo = criteria ? `/search?${serializeSearchCriteria(criteria)}` : '/search';
+
+  const renderMessage = (message: React.ReactNode) => (
+    <Card>
+      <CardContent className="pt-6 text-center text-muted-foreground">{message}</CardContent>
+    </Card>
+  );
+
+  const renderBody = () => {
+    if (!criteria) return renderMessage('This link is missing its search details.');
+    if (isLoading) {
+      return renderMessage(
+        <span className="inline-flex items-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin" /> Loading flight...
+        </span>
+      );
+    }
+    if (error) return renderMessage(error instanceof Error ? error.message : 'Flight search failed.');
+    if (!itinerary) return renderMessage('This flight is no longer offered for the search.');
+
+    return (
+      <>
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-2">
+                <Plane className="h-5 w-5 text-primary" />
+                {[...new Set(itinerary.legs.map(leg => leg.airline))].join(' + ')}
+              </span>
+              <span className="text-2xl font-bold text-primary">${itinerary.price}</span>
+            </CardTitle>
+            <CardDescription>
+              {criteria.origin} → {criteria.destination} · {itinerary.legs.length} flight{itinerary.legs.length > 1 ? 's' : ''} · {formatDuration(itinerary.durationMinutes)} total
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {itinerary.legs.map((leg, index) => (
+              <div key={`${leg.id}-${index}`} className="space-y-2">
+                <ItineraryLeg leg={leg} label={legLabel(criteria.tripType, index)} />
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline">{leg.aircraft}</Badge>
+                  <Badge variant="outline">Safety: {leg.safetyRating}/5</Badge>
+                  <Badge variant="outline">On-time: {leg.onTimePerformance}%</Badge>
+                  <Badge variant="outline">Weather: {leg.weather}</Badge>
+                </div>
+              </div>
+            ))}
+            <div className="border-t pt-4">
+              <ScoreBreakdown
+                breakdown={itinerary.breakdown}
+                score={itinerary.score}
+                rank={(search?.itineraries.indexOf(itinerary) ?? -1) + 1}
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">{itinerary.stops === 0 ? 'No connections' : `${itinerary.stops} connection${itinerary.stops > 1 ? 's' : ''}`}</Badge>
+              <Badge variant="outline">Weather: {itineraryWeather(itinerary)}</Badge>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <FlightMap route={routeTrack} showWeather={true} />
+          </CardContent>
+        </Card>
+        <RouteWeatherPanel />
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-sky-50 via-blue-50 to-indigo-100 dark:from-gray-900 dark:via-blue-950 dark:to-indigo-950">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Button variant="ghost" asChild>
+          <Link to={backTo}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to results
+          </Link>
+        </Button>
+        {renderBody()}
+      </div>
+    </div>
+  );
+};
+
+export default FlightDetails;
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -20,58 +21,150 @@ import {
   Sparkles
 } from 'lucide-react';
 import FlightSearchForm from '@/components/FlightSearchForm';
+import FareWatchPanel from '@/components/FareWatchPanel';
 import VoiceInterface from '@/components/VoiceInterface';
 import WeatherWidget from '@/components/WeatherWidget';
 import LocationTracker from '@/components/LocationTracker';
 import FlightMap from '@/components/FlightMap';
+import RouteWeatherPanel from '@/components/RouteWeatherPanel';
+import { useAppState } from '@/hooks/use-app-state';
+import { useCommandBus, useCommandHandler } from '@/hooks/use-command-bus';
+import { useLatest } from '@/hooks/use-latest';
+import { departureWind, routePoints, type LocationData } from '@/lib/app-state';
+import type { AppCommandType } from '@/lib/command-bus';
+import type { SearchCriteria } from '@/lib/flight-search';
+import { formatDistance, haversineDistance, initialBearing, type LatLng } from '@/lib/geodesy';
+import { resolvePlace } from '@/lib/places';
+import type { WindVector } from '@/lib/route-planning';
+import { parseSearchCriteria, searchCriteriaKey, serializeSearchCriteria } from '@/lib/search-params';
+import type { WeatherData } from '@/lib/weather-source';
 import heroAirplane from '@/assets/hero-airplane.jpg';
 import aviationBg from '@/assets/aviation-bg.jpg';
 
-const Index = () => {
-  const [currentLocation, setCurrentLocation] = useState<[number, number] | undefined>();
-  const [selectedDestination, setSelectedDestination] = useState<[number, number] | undefined>();
-  const [activeTab, setActiveTab] = useState('search');
+export type IndexTab = 'voice' | 'search' | 'map' | 'weather' | 'location';
 
-  // Handle voice commands
-  const handleVoiceCommand = (command: any) => {
-    console.log('Voice command received:', command);
-    
-    // Auto-switch tabs based on voice commands
-    switch (command.intent) {
-      case 'search':
-        setActiveTab('search');
-        break;
-      case 'location':
-        setActiveTab('location');
-        break;
-      case 'weather':
-        setActiveTab('weather');
-        break;
-      case 'navigate':
-        setActiveTab('map');
-        break;
+// Where each command's handler lives; the tab comes up as the command is sent
+const COMMAND_TABS: Record<AppCommandType, IndexTab> = {
+  search: 'search',
+  'select-result': 'search',
+  weather: 'weather',
+  navigate: 'map',
+  'track-location': 'location'
+};
+
+interface IndexProps {
+  // Each tab has its own route; `/` lands on search
+  tab?: IndexTab;
+}
+
+const Index: React.FC<IndexProps> = ({ tab = 'search' }) => {
+  const navigate = useNavigate();
+  const routerLocation = useLocation();
+  const { station } = useParams<{ station?: string }>();
+  const [searchParams] = useSearchParams();
+  const {
+    state,
+    updatePosition,
+    submitSearch,
+    selectFlight,
+    setDestination,
+    recordWeather
+  } = useAppState();
+  const activeTab = tab;
+
+  // The query string is the source of truth for the search, so links and back/forward replay it
+  const urlCriteria = useMemo(() => parseSearchCriteria(searchParams), [searchParams]);
+  // Read at the time, not depended on: a search submitted here changes it before the URL catches up
+  const submittedCriteriaRef = useLatest(state.searchCriteria);
+  useEffect(() => {
+    if (urlCriteria && searchCriteriaKey(urlCriteria) !== searchCriteriaKey(submittedCriteriaRef.current)) {
+      submitSearch(urlCriteria);
     }
+  }, [urlCriteria, submitSearch, submittedCriteriaRef]);
+
+  // Coming back to search restores the last submitted criteria, and weather its station
+  const tabPath = (next: string): string => {
+    if (next === 'search' && state.searchCriteria) return `/search?${serializeSearchCriteria(state.searchCriteria)}`;
+    if (next === 'weather' && station) return `/weather/${station}`;
+    return `/${next}`;
   };
 
-  const handleLocationUpdate = (location: any) => {
-    setCurrentLocation([location.latitude, location.longitude]);
+  const setActiveTab = (next: string) => navigate(tabPath(next));
+
+  // When the URL already holds these criteria (a voice search opens the tab on them) its entry is replaced, not repeated
+  const handleSearch = (criteria: SearchCriteria) => {
+    submitSearch(criteria);
+    const shown = urlCriteria !== null && searchCriteriaKey(urlCriteria) === searchCriteriaKey(criteria);
+    navigate(`/search?${serializeSearchCriteria(criteria)}`, { replace: shown });
   };
 
-  const handleFlightSearch = (criteria: any) => {
-    console.log('Flight search:', criteria);
-    // Mock destination coordinates for demo
-    if (criteria.destination?.toLowerCase().includes('new york')) {
-      setSelectedDestination([40.7128, -74.0060]);
-    } else if (criteria.destination?.toLowerCase().includes('los angeles')) {
-      setSelectedDestination([34.0522, -118.2437]);
+  // Keep /weather/:station pointing at whatever the widget is showing
+  const handleWeatherUpdate = (weather: WeatherData) => {
+    recordWeather(weather);
+    if (activeTab === 'weather' && weather.station !== station) {
+      navigate(`/weather/${weather.station}`, { replace: true });
     }
   };
 
-  const handleNavigationHelp = (destination: string) => {
-    console.log('Navigation help requested for:', destination);
-    setActiveTab('map');
+  const currentLocation = useMemo<[number, number] | undefined>(
+    () => state.position ? [state.position.latitude, state.position.longitude] : undefined,
+    [state.position]
+  );
+  // A full itinerary is drawn leg by leg; a lone place is just the destination
+  const routeTrack = useMemo(() => {
+    const points = routePoints(state.route);
+    return points.length > 1 ? points : undefined;
+  }, [state.route]);
+  const selectedDestination = useMemo(() => {
+    const points = routePoints(state.route);
+    return points.length > 0 ? points[points.length - 1] : undefined;
+  }, [state.route]);
+
+  // Kept by value so a refreshed report with the same wind doesn't re-plan the route
+  const { direction: windDirection = null, speedKt: windSpeedKt = 0 } = departureWind(state.route, state.weather) ?? {};
+  const wind = useMemo<WindVector | null>(
+    () => windDirection === null ? null : { direction: windDirection, speedKt: windSpeedKt },
+    [windDirection, windSpeedKt]
+  );
+
+  const handleLocationUpdate = (location: LocationData) => {
+    updatePosition(location);
   };
 
+  // Commands open their tab at the URL a click on it would; a search opens straight onto its own criteria.
+  // The URL already showing gets no second history entry, and booking from the results leaves their URL alone
+  const bus = useCommandBus();
+  const commandNavigation = useLatest({ activeTab, url: routerLocation.pathname + routerLocation.search, tabPath });
+  useEffect(() => bus.subscribe(command => {
+    const { activeTab: current, url, tabPath: pathFor } = commandNavigation.current;
+    if (command.type === 'select-result' && current === COMMAND_TABS[command.type]) return;
+    const path = command.type === 'search' ? `/search?${serializeSearchCriteria(command.criteria)}` : pathFor(COMMAND_TABS[command.type]);
+    navigate(path, { replace: path === url });
+  }), [bus, navigate, commandNavigation]);
+
+  // The assistant stays mounted once opened, so a conversation carries on while other tabs act on it
+  const [voiceOpened, setVoiceOpened] = useState(activeTab === 'voice');
+  useEffect(() => {
+    if (activeTab === 'voice') setVoiceOpened(true);
+  }, [activeTab]);
+
+  // The map draws whatever route is active, so a spoken destination becomes that route
+  useCommandHandler('navigate', async ({ destination }) => {
+    const place = resolvePlace(destination);
+    if (!place || !setDestination(place.code)) {
+      return { ok: false, message: `I couldn't find ${destination} on the map.` };
+    }
+    if (!state.position) {
+      return { ok: true, message: `${place.city} is on the map. Start GPS tracking to get the distance and heading from where you are.` };
+    }
+    const from: LatLng = [state.position.latitude, state.position.longitude];
+    const to: LatLng = [place.lat, place.lng];
+    return {
+      ok: true,
+      message: `${place.city} is on the map, ${formatDistance(haversineDistance(from, to), 'km', 0)} away on a heading of ${Math.round(initialBearing(from, to))} degrees.`
+    };
+  });
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-sky-50 via-blue-50 to-indigo-100 dark:from-gray-900 dark:via-blue-950 dark:to-indigo-950">
       {/* Hero Section with Airplane */}
@@ -226,17 +319,13 @@ const Index = () => {
             </TabsTrigger>
           </TabsList>
 
-          <TabsContent value="voice" className="space-y-6">
-            <VoiceInterface
-              onCommand={handleVoiceCommand}
-              onFlightSearch={handleFlightSearch}
-              onLocationRequest={() => setActiveTab('location')}
-              onNavigationHelp={handleNavigationHelp}
-            />
+          <TabsContent value="voice" forceMount={voiceOpened || undefined} className="space-y-6 data-[state=inactive]:hidden">
+            <VoiceInterface />
           </TabsContent>
 
           <TabsContent value="search" className="space-y-6">
-            <FlightSearchForm onSearch={handleFlightSearch} />
+            <FlightSearchForm criteria={urlCriteria} onSearch={handleSearch} onResultSelect={selectFlight} />
+            <FareWatchPanel />
           </TabsContent>
 
           <TabsContent value="map" className="space-y-6">
@@ -254,20 +343,23 @@ const Index = () => {
                 <FlightMap
                   currentLocation={currentLocation}
                   destination={selectedDestination}
+                  route={routeTrack}
+                  wind={wind}
                   showWeather={true}
                   onAirportSelect={(airport) => console.log('Airport selected:', airport)}
                   onRouteCalculated={(route) => console.log('Route calculated:', route)}
                 />
               </CardContent>
             </Card>
+            <RouteWeatherPanel />
           </TabsContent>
 
           <TabsContent value="weather" className="space-y-6">
             <WeatherWidget
-              location=""
+              location={station ?? ''}
               autoUpdate={true}
               showFlightAnalysis={true}
-              onWeatherUpdate={(weather) => console.log('Weather updated:', weather)}
+              onWeatherUpdate={handleWeatherUpdate}
             />
           </TabsContent>
 
@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_FLIGHT_SEARCH_URL?: string;
+  readonly VITE_WEATHER_URL?: string;
+  readonly VITE_MAP_TILES?: 'online' | 'offline';
+  readonly VITE_MAP_TILE_URL?: string;
+  readonly VITE_MAP_OFFLINE_TILE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}